@@ -1,15 +1,59 @@
-import { Switch, Route } from "wouter";
+import type { ComponentType } from "react";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { Loader2 } from "lucide-react";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { WorkspaceProvider } from "@/hooks/use-workspace";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import Login from "@/pages/login";
+import Register from "@/pages/register";
+import Invite from "@/pages/invite";
+import Pipeline from "@/pages/pipeline";
+import LeadMapPage from "@/pages/map";
+import Properties from "@/pages/properties";
+import SearchHistory from "@/pages/search-history";
+import SavedSearches from "@/pages/saved-searches";
+import Scoring from "@/pages/scoring";
+import BusinessTypes from "@/pages/business-types";
+
+// Renders the page only for signed-in users; everyone else is sent to the login page and returned afterwards
+function ProtectedRoute({ path, component: Component }: { path: string; component: ComponentType }) {
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to={`/login?next=${encodeURIComponent(location)}`} />
+      )}
+    </Route>
+  );
+}
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/pipeline" component={Pipeline} />
+      <ProtectedRoute path="/map" component={LeadMapPage} />
+      <ProtectedRoute path="/properties" component={Properties} />
+      <ProtectedRoute path="/history" component={SearchHistory} />
+      <ProtectedRoute path="/saved-searches" component={SavedSearches} />
+      <ProtectedRoute path="/scoring" component={Scoring} />
+      <ProtectedRoute path="/business-types" component={BusinessTypes} />
+      <ProtectedRoute path="/invite/:token" component={Invite} />
+      <Route path="/login" component={Login} />
+      <Route path="/register" component={Register} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +62,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <WorkspaceProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </WorkspaceProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
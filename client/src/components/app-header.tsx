@@ -0,0 +1,67 @@
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { WorkspaceSwitcher } from "@/components/workspace-switcher";
+import { EnrichmentCreditMeter } from "@/components/enrichment-credit-meter";
+import { LogOut, User } from "lucide-react";
+
+const navLinks = [
+  { href: "/", label: "Lead Generation" },
+  { href: "/pipeline", label: "Pipeline" },
+  { href: "/map", label: "Map" },
+  { href: "/properties", label: "Properties" },
+  { href: "/saved-searches", label: "Saved Searches" },
+  { href: "/scoring", label: "Scoring" },
+  { href: "/business-types", label: "Business Types" },
+  { href: "/history", label: "History" },
+];
+
+export function AppHeader() {
+  const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
+
+  return (
+    <header className="bg-white shadow-sm border-b">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center py-4">
+          <div className="flex items-center">
+            <div className="text-2xl font-bold text-primary">REVA</div>
+            <div className="ml-2 text-sm text-secondary">Real Estate Virtual Assistant</div>
+          </div>
+          <div className="flex items-center space-x-8">
+            <nav className="hidden md:flex space-x-8">
+              {navLinks.map(link => (
+                <Link
+                  key={link.href}
+                  href={link.href}
+                  className={`transition-colors hover:text-primary ${location === link.href ? "text-primary font-medium" : "text-secondary"}`}
+                >
+                  {link.label}
+                </Link>
+              ))}
+            </nav>
+            {user && (
+              <div className="flex items-center gap-3">
+                <WorkspaceSwitcher />
+                <EnrichmentCreditMeter />
+                <span className="flex items-center text-sm text-gray-700">
+                  <User className="mr-1 h-4 w-4 text-gray-500" />
+                  {user.username}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                >
+                  <LogOut className="mr-1 h-4 w-4" />
+                  Log Out
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
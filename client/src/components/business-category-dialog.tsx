@@ -0,0 +1,188 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { BusinessCategory, InsertBusinessCategory, propertyFeatures } from "@shared/schema";
+
+// Synonyms and place types are typed as comma-separated lists and split before they reach the API
+const categoryFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+  synonyms: z.string(),
+  placeTypes: z.string().refine(value => splitList(value).length > 0, "Add at least one Google place type"),
+  valuedFeatures: z.array(z.enum(propertyFeatures)),
+});
+
+type CategoryFormData = z.infer<typeof categoryFormSchema>;
+
+function splitList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+function toFormValues(category?: BusinessCategory | null): CategoryFormData {
+  return {
+    name: category?.name ?? "",
+    synonyms: category?.synonyms.join(", ") ?? "",
+    placeTypes: category?.placeTypes.join(", ") ?? "",
+    valuedFeatures: category?.valuedFeatures ?? [],
+  };
+}
+
+function toPayload(values: CategoryFormData): InsertBusinessCategory {
+  return {
+    name: values.name,
+    synonyms: splitList(values.synonyms),
+    placeTypes: splitList(values.placeTypes),
+    valuedFeatures: values.valuedFeatures,
+  };
+}
+
+type BusinessCategoryDialogProps = {
+  open: boolean;
+  category?: BusinessCategory | null; // Editing when set
+  onOpenChange: (open: boolean) => void;
+  onSaved: (category: BusinessCategory) => void;
+};
+
+export function BusinessCategoryDialog({ open, category, onOpenChange, onSaved }: BusinessCategoryDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<CategoryFormData>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: toFormValues(),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(category));
+    }
+  }, [open, category, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: CategoryFormData) => {
+      const res = category
+        ? await apiRequest("PATCH", `/api/business-taxonomy/categories/${category.id}`, toPayload(values))
+        : await apiRequest("POST", "/api/business-taxonomy/categories", toPayload(values));
+      return (await res.json()) as BusinessCategory;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: category ? "Business Type Updated" : "Business Type Added",
+        description: `New searches for ${saved.name} look for ${saved.placeTypes.join(", ")}.`,
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "Another business type already has that name."
+          : error.message.startsWith("400")
+            ? "Check the place types: use Google place types such as meal_takeaway."
+            : "Failed to save business type.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit Business Type" : "Add Business Type"}</DialogTitle>
+          <DialogDescription>
+            Searches for the name or any synonym look for businesses Google lists under these place types.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Cafe" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="synonyms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Synonyms</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., coffee shop, coffee, espresso bar" {...field} />
+                  </FormControl>
+                  <p className="text-xs text-gray-500">Other names brokers search by, separated by commas.</p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="placeTypes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Google Place Types</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., cafe, bakery" {...field} />
+                  </FormControl>
+                  <p className="text-xs text-gray-500">Separated by commas; the first is the closest match.</p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="valuedFeatures"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Property Features These Businesses Need</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {propertyFeatures.map(feature => (
+                      <label key={feature} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(feature)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked ? [...field.value, feature] : field.value.filter(value => value !== feature)
+                          )}
+                        />
+                        {feature}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-primary text-white hover:bg-blue-700" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {category ? "Save Changes" : "Add Business Type"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { forwardRef, useState, type ComponentProps, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { useDebounce } from "@/hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import type { BusinessTypeSuggestion } from "@shared/schema";
+
+type BusinessTypeInputProps = Omit<ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: string;
+  onChange: (value: string) => void;
+};
+
+// Business Type field that suggests the workspace's business types and their synonyms as the broker types. Anything
+// may still be typed; types the taxonomy does not know search every kind of business.
+export const BusinessTypeInput = forwardRef<HTMLInputElement, BusinessTypeInputProps>(
+  ({ value, onChange, onBlur, ...inputProps }, ref) => {
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(-1);
+    const typed = useDebounce(value, 200);
+
+    const { data: suggestions = [] } = useQuery<BusinessTypeSuggestion[]>({
+      queryKey: ["/api/business-taxonomy", "suggest", typed],
+      queryFn: async () => {
+        const res = await apiRequest("GET", `/api/business-types/suggest?q=${encodeURIComponent(typed)}`);
+        return res.json();
+      },
+      enabled: open,
+      staleTime: 60_000,
+    });
+    const shown = suggestions.filter(suggestion => suggestion.value.toLowerCase() !== value.trim().toLowerCase());
+
+    const choose = (suggestion: BusinessTypeSuggestion) => {
+      onChange(suggestion.value);
+      setOpen(false);
+      setHighlighted(-1);
+    };
+
+    const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+      if (!open || shown.length === 0) {
+        return;
+      }
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setHighlighted(current => (current + step + shown.length) % shown.length);
+      } else if (event.key === "Enter" && highlighted >= 0) {
+        event.preventDefault();
+        choose(shown[highlighted]);
+      } else if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          {...inputProps}
+          ref={ref}
+          value={value}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={open && shown.length > 0}
+          onChange={(event) => {
+            onChange(event.target.value);
+            setOpen(true);
+            setHighlighted(-1);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={(event) => {
+            setOpen(false);
+            onBlur?.(event);
+          }}
+          onKeyDown={onKeyDown}
+        />
+        {open && shown.length > 0 && (
+          <ul role="listbox" className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded-md border bg-white shadow-md py-1">
+            {shown.map((suggestion, index) => (
+              <li
+                key={suggestion.value}
+                role="option"
+                aria-selected={index === highlighted}
+                // Chosen on mouse down so the input's blur does not close the list first
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  choose(suggestion);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`px-3 py-2 text-sm cursor-pointer flex justify-between gap-2 ${index === highlighted ? "bg-gray-100" : ""}`}
+              >
+                <span className="text-gray-900">{suggestion.value}</span>
+                {suggestion.value !== suggestion.category && (
+                  <span className="text-xs text-gray-500">{suggestion.category}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+BusinessTypeInput.displayName = "BusinessTypeInput";
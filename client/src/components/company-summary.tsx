@@ -0,0 +1,57 @@
+import { Building2, TrendingDown, TrendingUp } from "lucide-react";
+import { enrichmentSourceLabels, type Company } from "@shared/schema";
+
+type CompanySummaryProps = {
+  company?: Company | null;
+};
+
+function formatFunding(amount: number): string {
+  if (amount >= 1_000_000) {
+    return `$${(amount / 1_000_000).toFixed(amount >= 10_000_000 ? 0 : 1)}M`;
+  }
+  return `$${Math.round(amount / 1_000)}K`;
+}
+
+// Firmographics for the lead's business: a growing team is the strongest hint that they will need more space
+export function CompanySummary({ company }: CompanySummaryProps) {
+  if (!company?.matched) {
+    return null;
+  }
+
+  const growth = company.headcountGrowth;
+  const details = [
+    company.employeeCount !== null && `${company.employeeCount.toLocaleString()} employees`,
+    company.foundedYear !== null && `Founded ${company.foundedYear}`,
+    company.industry,
+    company.hqLocation && `HQ: ${company.hqLocation}`,
+    company.totalFunding !== null &&
+      `${formatFunding(company.totalFunding)} raised${company.latestFundingStage ? ` (${company.latestFundingStage.replace(/_/g, " ")})` : ""}`,
+  ].filter(Boolean);
+  const sourceLabel = company.source ? enrichmentSourceLabels[company.source] ?? company.source : null;
+
+  return (
+    <div className="mb-4 rounded-md border border-gray-200 bg-white/70 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium text-gray-700">
+          <Building2 className="h-4 w-4 text-gray-500" />
+          <span className="capitalize">{company.name ?? company.domain}</span>
+        </div>
+        {growth !== null && (
+          <span
+            className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold whitespace-nowrap ${growth >= 0 ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"}`}
+            title="Headcount growth over the last 12 months"
+          >
+            {growth >= 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+            {growth >= 0 ? "+" : ""}{Math.round(growth * 100)}% headcount (12 mo)
+          </span>
+        )}
+      </div>
+      {details.length > 0 && (
+        <p className="mt-1 text-xs text-gray-500">{details.join(" • ")}</p>
+      )}
+      {sourceLabel && (
+        <p className="mt-1 text-[10px] text-gray-400">Company data via {sourceLabel}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Coins, Loader2 } from "lucide-react";
+import { EnrichmentCreditSummary, UpdateEnrichmentSettings, enrichmentOperationLabels, enrichmentSourceLabels } from "@shared/schema";
+
+// This month's enrichment credit use for the workspace, with the budget settings for members who manage it
+export function EnrichmentCreditMeter() {
+  const { activeWorkspace, can } = useWorkspace();
+  const { toast } = useToast();
+  const [monthlyCredits, setMonthlyCredits] = useState("");
+  const [autoEnrichCount, setAutoEnrichCount] = useState("");
+
+  const { data: credits } = useQuery<EnrichmentCreditSummary>({
+    queryKey: ["/api/enrichment/usage"],
+    enabled: !!activeWorkspace,
+  });
+
+  useEffect(() => {
+    if (credits) {
+      setMonthlyCredits(String(credits.monthlyCredits));
+      setAutoEnrichCount(String(credits.autoEnrichCount));
+    }
+  }, [credits]);
+
+  const settingsMutation = useMutation({
+    mutationFn: async (settings: UpdateEnrichmentSettings) => {
+      const res = await apiRequest("PATCH", `/api/workspaces/${activeWorkspace!.id}/enrichment-settings`, settings);
+      return (await res.json()) as EnrichmentCreditSummary;
+    },
+    onSuccess: (summary) => {
+      queryClient.setQueryData(["/api/enrichment/usage"], summary);
+      toast({
+        title: "Settings Saved",
+        description: "Enrichment budget updated.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the enrichment budget.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!activeWorkspace || !credits) {
+    return null;
+  }
+
+  const percentUsed = credits.monthlyCredits > 0 ? Math.min((credits.used / credits.monthlyCredits) * 100, 100) : 100;
+  const exhausted = credits.remaining <= 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={exhausted ? "border-red-300 text-red-700" : ""}>
+          <Coins className="mr-1 h-4 w-4" />
+          {credits.used.toLocaleString()} / {credits.monthlyCredits.toLocaleString()}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900">Enrichment credits</span>
+            <span className="text-gray-500">{credits.remaining.toLocaleString()} left</span>
+          </div>
+          <Progress value={percentUsed} className="mt-2 h-2" />
+          <p className="mt-1 text-xs text-gray-500">
+            {exhausted
+              ? "Budget reached - enrichment resumes next month or when the budget is raised."
+              : "Resets on the 1st of each month."}
+          </p>
+        </div>
+
+        {credits.byProvider.length > 0 ? (
+          <ul className="space-y-1 text-xs text-gray-600">
+            {credits.byProvider.map(row => (
+              <li key={`${row.provider}:${row.operation}`} className="flex justify-between gap-2">
+                <span>
+                  {enrichmentSourceLabels[row.provider] ?? row.provider} · {enrichmentOperationLabels[row.operation]}
+                </span>
+                <span className="whitespace-nowrap">
+                  {row.credits.toLocaleString()} credits ({row.calls.toLocaleString()} calls)
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">No credits used this month.</p>
+        )}
+
+        {can("manageMembers") && (
+          <form
+            className="space-y-2 border-t pt-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              settingsMutation.mutate({
+                enrichmentMonthlyCredits: parseInt(monthlyCredits),
+                autoEnrichCount: parseInt(autoEnrichCount),
+              });
+            }}
+          >
+            <label className="block text-xs font-medium text-gray-700">
+              Monthly credit budget
+              <Input type="number" min={0} value={monthlyCredits} onChange={(e) => setMonthlyCredits(e.target.value)} className="mt-1 h-8" />
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Leads enriched automatically per search
+              <Input type="number" min={0} max={60} value={autoEnrichCount} onChange={(e) => setAutoEnrichCount(e.target.value)} className="mt-1 h-8" />
+            </label>
+            <Button
+              type="submit"
+              size="sm"
+              className="w-full"
+              disabled={settingsMutation.isPending || !monthlyCredits || !autoEnrichCount}
+            >
+              {settingsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </form>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
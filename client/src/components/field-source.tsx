@@ -0,0 +1,20 @@
+import { enrichmentSourceLabels } from "@shared/schema";
+
+type FieldSourceProps = {
+  provenance?: { source: string; confidence: number | null };
+};
+
+// Small "via <provider> · 80%" tag showing where an enriched field came from
+export function FieldSource({ provenance }: FieldSourceProps) {
+  if (!provenance) {
+    return null;
+  }
+
+  const label = enrichmentSourceLabels[provenance.source] ?? provenance.source;
+  return (
+    <span className="rounded bg-gray-100 px-1.5 py-0.5 text-[10px] font-medium text-gray-500 whitespace-nowrap" title={`Supplied by ${label}`}>
+      via {label}
+      {provenance.confidence !== null && ` · ${Math.round(provenance.confidence * 100)}%`}
+    </span>
+  );
+}
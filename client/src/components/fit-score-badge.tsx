@@ -0,0 +1,60 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { fitFactorLabels, type FitAdjustment, type FitFactor } from "@shared/schema";
+
+type FitScoreBadgeProps = {
+  score?: number | null;
+  factors?: FitFactor[] | null;
+  adjustments?: FitAdjustment[] | null;
+};
+
+function scoreColor(score: number): string {
+  if (score >= 75) return "bg-green-100 text-green-800 border-green-300";
+  if (score >= 50) return "bg-yellow-100 text-yellow-800 border-yellow-300";
+  return "bg-gray-100 text-gray-700 border-gray-300";
+}
+
+// 0-100 fit for the searched-for space; hovering shows the points each factor earned and why, then any scoring
+// profile rules that moved the score
+export function FitScoreBadge({ score, factors, adjustments }: FitScoreBadgeProps) {
+  if (score == null) {
+    return null;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={`cursor-help rounded-full border px-2 py-1 text-xs font-semibold whitespace-nowrap ${scoreColor(score)}`}>
+          Fit {score}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="w-72">
+        <p className="mb-2 font-medium">Fit score {score}/100</p>
+        <ul className="space-y-1 text-xs">
+          {(factors ?? []).map(factor => (
+            <li key={factor.key}>
+              <div className="flex justify-between gap-2">
+                <span className="font-medium">{fitFactorLabels[factor.key]}</span>
+                <span className={factor.score === null ? "text-gray-400" : ""}>
+                  {Math.round(factor.weight * (factor.score ?? 0.5))}/{Math.round(factor.weight)}
+                </span>
+              </div>
+              <p className="text-gray-500">{factor.detail}</p>
+            </li>
+          ))}
+        </ul>
+        {adjustments && adjustments.length > 0 && (
+          <ul className="mt-2 space-y-1 border-t pt-2 text-xs">
+            {adjustments.map(adjustment => (
+              <li key={adjustment.rule} className="flex justify-between gap-2">
+                <span>{adjustment.rule}</span>
+                <span className={adjustment.points > 0 ? "text-green-700" : "text-red-700"}>
+                  {adjustment.points > 0 ? "+" : ""}{adjustment.points}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Building2, Loader2, Mail, MessageSquare, Pencil, Phone, Trash2 } from "lucide-react";
+import { ActivityType, LeadActivity, activityTypes, activityTypeLabels } from "@shared/schema";
+
+const activityIcons: Record<ActivityType, typeof Phone> = {
+  call: Phone,
+  email: Mail,
+  tour: Building2,
+  note: MessageSquare,
+};
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInputValue(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+type ActivityDraft = {
+  type: ActivityType;
+  body: string;
+  occurredAt: string;
+};
+
+const newDraft = (): ActivityDraft => ({
+  type: "note",
+  body: "",
+  occurredAt: toLocalInputValue(new Date()),
+});
+
+type LeadActivityTimelineProps = {
+  leadId: string;
+};
+
+export function LeadActivityTimeline({ leadId }: LeadActivityTimelineProps) {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [draft, setDraft] = useState<ActivityDraft>(newDraft);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingBody, setEditingBody] = useState("");
+
+  const { data: activities = [], isLoading } = useQuery<LeadActivity[]>({
+    queryKey: ["/api/leads", leadId, "activities"],
+    staleTime: 0,
+  });
+
+  // Activity changes move the lead's last activity date, so saved-lead lists are refreshed too
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: ActivityDraft) => {
+      await apiRequest("POST", `/api/leads/${leadId}/activities`, {
+        type: values.type,
+        body: values.body,
+        occurredAt: new Date(values.occurredAt).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      setDraft(newDraft());
+      refresh();
+    },
+    onError: () => showError("Failed to log activity."),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: number; body: string }) => {
+      await apiRequest("PATCH", `/api/leads/${leadId}/activities/${id}`, { body });
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError: () => showError("Failed to update activity."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/leads/${leadId}/activities/${id}`);
+    },
+    onSuccess: refresh,
+    onError: () => showError("Failed to delete activity."),
+  });
+
+  return (
+    <div className="space-y-6">
+      {can("edit") && (
+        <form
+          className="space-y-3 rounded-lg bg-gray-50 p-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate(draft);
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <Select value={draft.type} onValueChange={(value) => setDraft(prev => ({ ...prev, type: value as ActivityType }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {activityTypes.map(type => (
+                  <SelectItem key={type} value={type}>{activityTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="datetime-local"
+              value={draft.occurredAt}
+              onChange={(e) => setDraft(prev => ({ ...prev, occurredAt: e.target.value }))}
+              required
+            />
+          </div>
+          <Textarea
+            rows={3}
+            placeholder="What happened? e.g. Left voicemail, toured suite 200 with the owner"
+            value={draft.body}
+            onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+            maxLength={5000}
+          />
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              size="sm"
+              className="bg-primary text-white hover:bg-blue-700"
+              disabled={!draft.body.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Log Activity
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4">
+          <Loader2 className="inline-block h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : activities.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No activity logged yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+          {activities.map(activity => {
+            const Icon = activityIcons[activity.type];
+            return (
+              <li key={activity.id} className="ml-6">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-blue-100 ring-4 ring-white">
+                  <Icon className="h-3 w-3 text-primary" />
+                </span>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{activityTypeLabels[activity.type]}</span>
+                    <span className="text-gray-500">
+                      {" "}• {new Date(activity.occurredAt).toLocaleString()} • {activity.authorUsername ?? "Former member"}
+                    </span>
+                  </div>
+                  {can("edit") && editingId !== activity.id && (
+                    <div className="flex shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-1 h-6 w-6"
+                        title="Edit activity"
+                        onClick={() => {
+                          setEditingId(activity.id);
+                          setEditingBody(activity.body);
+                        }}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-1 h-6 w-6 text-red-600 hover:text-red-700"
+                        title="Delete activity"
+                        onClick={() => deleteMutation.mutate(activity.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {editingId === activity.id ? (
+                  <div className="mt-2 space-y-2">
+                    <Textarea
+                      rows={3}
+                      value={editingBody}
+                      onChange={(e) => setEditingBody(e.target.value)}
+                      maxLength={5000}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-primary text-white hover:bg-blue-700"
+                        onClick={() => updateMutation.mutate({ id: activity.id, body: editingBody })}
+                        disabled={!editingBody.trim() || updateMutation.isPending}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{activity.body}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Linkedin, Loader2, Mail, Phone } from "lucide-react";
+import { Contact, enrichmentSourceLabels } from "@shared/schema";
+
+type LeadContactsProps = {
+  leadId: string;
+};
+
+// Decision makers at the business; choosing the primary contact also changes the name and email on the lead
+export function LeadContacts({ leadId }: LeadContactsProps) {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+
+  const { data: contacts = [], isLoading } = useQuery<Contact[]>({
+    queryKey: ["/api/leads", leadId, "contacts"],
+    staleTime: 0,
+  });
+
+  const primaryMutation = useMutation({
+    mutationFn: async (contactId: number) => {
+      await apiRequest("POST", `/api/leads/${leadId}/contacts/${contactId}/primary`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to change the primary contact.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-4">
+        <Loader2 className="inline-block h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (contacts.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No decision makers found for this business.</p>;
+  }
+
+  const primary = contacts.find(contact => contact.isPrimary);
+  return (
+    <RadioGroup
+      value={primary ? String(primary.id) : ""}
+      onValueChange={(value) => primaryMutation.mutate(Number(value))}
+      disabled={!can("edit") || primaryMutation.isPending}
+      className="space-y-2"
+    >
+      {contacts.map(contact => (
+        <label key={contact.id} className="flex items-start gap-3 rounded-md border p-3 cursor-pointer hover:bg-gray-50">
+          <RadioGroupItem value={String(contact.id)} className="mt-1" aria-label={`Make ${contact.fullName} the primary contact`} />
+          <div className="min-w-0 flex-1 space-y-1 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-900">{contact.fullName}</span>
+              {contact.title && <span className="text-gray-500">• {contact.title}</span>}
+              {contact.isPrimary && <Badge variant="secondary">Primary</Badge>}
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-600">
+              {contact.email && (
+                <span className="flex items-center gap-1">
+                  <Mail className="h-3 w-3 text-blue-600" />
+                  {contact.email}
+                </span>
+              )}
+              {contact.phone && (
+                <span className="flex items-center gap-1">
+                  <Phone className="h-3 w-3 text-green-600" />
+                  {contact.phone}
+                </span>
+              )}
+              {contact.linkedinUrl && (
+                <a href={contact.linkedinUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-blue-700 hover:underline">
+                  <Linkedin className="h-3 w-3" />
+                  LinkedIn
+                </a>
+              )}
+            </div>
+            <p className="text-[10px] text-gray-400">via {enrichmentSourceLabels[contact.source] ?? contact.source}</p>
+          </div>
+        </label>
+      ))}
+    </RadioGroup>
+  );
+}
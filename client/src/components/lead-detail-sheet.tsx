@@ -0,0 +1,76 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Separator } from "@/components/ui/separator";
+import { LeadActivityTimeline } from "@/components/lead-activity-timeline";
+import { LeadContacts } from "@/components/lead-contacts";
+import { LeadRationale } from "@/components/lead-rationale";
+import { Globe, Linkedin, Mail, Phone, User } from "lucide-react";
+import { Lead, leadStageLabels } from "@shared/schema";
+
+type LeadDetailSheetProps = {
+  lead: Lead | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function LeadDetailSheet({ lead, onOpenChange }: LeadDetailSheetProps) {
+  return (
+    <Sheet open={!!lead} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {lead && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{lead.businessName}</SheetTitle>
+              <SheetDescription>
+                {lead.industry} • {leadStageLabels[lead.stage]}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-2 text-sm text-gray-700">
+              <div className="flex items-center gap-2">
+                <User className="h-4 w-4 text-gray-500" />
+                {lead.enrichedName || lead.contactName}
+                {lead.title && <span className="text-gray-500">• {lead.title}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Mail className="h-4 w-4 text-blue-600" />
+                {lead.email}
+              </div>
+              {lead.phone && (
+                <div className="flex items-center gap-2">
+                  <Phone className="h-4 w-4 text-green-600" />
+                  {lead.phone}
+                </div>
+              )}
+              {lead.website && (
+                <div className="flex items-center gap-2">
+                  <Globe className="h-4 w-4 text-purple-600" />
+                  <a href={lead.website} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                    {lead.website.replace(/https?:\/\//, '')}
+                  </a>
+                </div>
+              )}
+              {lead.linkedinUrl && (
+                <div className="flex items-center gap-2">
+                  <Linkedin className="h-4 w-4 text-blue-700" />
+                  <a href={lead.linkedinUrl} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline">
+                    View Profile
+                  </a>
+                </div>
+              )}
+              <LeadRationale rationale={lead.rationale} claims={lead.rationaleClaims} className="pt-2" />
+            </div>
+
+            <Separator className="my-6" />
+
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Contacts</h3>
+            <LeadContacts leadId={lead.id} />
+
+            <Separator className="my-6" />
+
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Activity</h3>
+            <LeadActivityTimeline leadId={lead.id} />
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
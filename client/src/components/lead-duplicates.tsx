@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Merge } from "lucide-react";
+import { DuplicateReason, Lead, LeadDuplicateGroup, leadStageLabels } from "@shared/schema";
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  placeId: "Same Google place",
+  domain: "Same website",
+  name: "Same name",
+};
+
+// Keep the lead with the most to lose: enriched first, then the one with activity, then the oldest
+function defaultPrimary(leads: Lead[]): Lead {
+  return [...leads].sort((a, b) =>
+    Number(!!b.isEnriched) - Number(!!a.isEnriched) ||
+    Number(!!b.lastActivityAt) - Number(!!a.lastActivityAt) ||
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  )[0];
+}
+
+type LeadDuplicatesProps = {
+  onMerged: () => void;
+};
+
+export function LeadDuplicates({ onMerged }: LeadDuplicatesProps) {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  // Primary chosen per group, keyed by the group's oldest lead
+  const [primaryIds, setPrimaryIds] = useState<Record<string, string>>({});
+
+  const { data: groups = [], isLoading } = useQuery<LeadDuplicateGroup[]>({
+    queryKey: ["/api/leads/duplicates"],
+    staleTime: 0,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ primaryId, duplicateIds }: { groupKey: string; primaryId: string; duplicateIds: string[] }) => {
+      const res = await apiRequest("POST", "/api/leads/merge", { primaryId, duplicateIds });
+      return (await res.json()) as Lead;
+    },
+    onSuccess: (merged, { duplicateIds }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      onMerged();
+      toast({
+        title: "Leads Merged",
+        description: `${duplicateIds.length} duplicate${duplicateIds.length === 1 ? "" : "s"} merged into ${merged.businessName}.`,
+      });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      toast({
+        title: "Error",
+        description: "Failed to merge leads.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+        <p className="mt-4 text-gray-600">Looking for duplicates...</p>
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">No duplicate leads found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Merging keeps the selected lead, fills in details it is missing from the others, moves their activities and
+        stage history onto it, and removes the others.
+      </p>
+
+      {groups.map(group => {
+        const groupKey = group.leads[0].id;
+        const primaryId = primaryIds[groupKey] ?? defaultPrimary(group.leads).id;
+        const isMerging = mergeMutation.isPending && mergeMutation.variables?.groupKey === groupKey;
+
+        return (
+          <div key={groupKey} className="rounded-lg border border-gray-200 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="flex flex-wrap gap-2">
+                {group.reasons.map(reason => (
+                  <Badge key={reason} variant="secondary">{reasonLabels[reason]}</Badge>
+                ))}
+              </div>
+              {can("edit") && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => mergeMutation.mutate({
+                    groupKey,
+                    primaryId,
+                    duplicateIds: group.leads.filter(lead => lead.id !== primaryId).map(lead => lead.id),
+                  })}
+                  disabled={mergeMutation.isPending}
+                >
+                  {isMerging ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Merge className="mr-1 h-4 w-4" />
+                  )}
+                  Merge {group.leads.length} Leads
+                </Button>
+              )}
+            </div>
+
+            <RadioGroup
+              value={primaryId}
+              onValueChange={(value) => setPrimaryIds(prev => ({ ...prev, [groupKey]: value }))}
+              disabled={!can("edit")}
+              className="space-y-2"
+            >
+              {group.leads.map(lead => (
+                <label key={lead.id} className="flex items-start gap-3 rounded-md bg-gray-50 p-3 cursor-pointer">
+                  <RadioGroupItem value={lead.id} className="mt-1" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">{lead.businessName}</span>
+                      {lead.id === primaryId && <Badge>Keep</Badge>}
+                      {lead.isEnriched && <Badge variant="outline">Enriched</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {lead.industry} • {leadStageLabels[lead.stage]} • Saved {new Date(lead.createdAt).toLocaleDateString()}
+                      {lead.lastActivityAt && ` • Last activity ${new Date(lead.lastActivityAt).toLocaleDateString()}`}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {[lead.website, lead.phone, lead.enrichedName].filter(Boolean).join(" • ")}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { Lead, UpdateLead } from "@shared/schema";
+
+// Mirrors the server's lead validation rules so most mistakes are caught before saving
+const optionalUrl = (message: string) =>
+  z.string().trim().refine((value) => !value || /^https?:\/\/\S+\.\S+/.test(value), message);
+
+const leadEditFormSchema = z.object({
+  businessName: z.string().trim().min(1, "Business name is required").max(255, "Business name must be 255 characters or less"),
+  industry: z.string().trim().min(1, "Industry is required").max(100, "Industry must be 100 characters or less"),
+  rationale: z.string().trim().min(1, "Rationale is required").max(1000, "Rationale must be 1000 characters or less"),
+  contactName: z.string().trim().min(1, "Contact name is required").max(255, "Contact name must be 255 characters or less"),
+  email: z.string().trim().email("Invalid email format"),
+  enrichedName: z.string().trim(),
+  title: z.string().trim(),
+  phone: z.string().trim(),
+  website: optionalUrl("Invalid website URL"),
+  linkedinUrl: optionalUrl("Invalid LinkedIn URL"),
+});
+
+type LeadEditFormData = z.infer<typeof leadEditFormSchema>;
+
+function toFormValues(lead: Lead): LeadEditFormData {
+  return {
+    businessName: lead.businessName,
+    industry: lead.industry,
+    rationale: lead.rationale,
+    contactName: lead.contactName,
+    email: lead.email,
+    enrichedName: lead.enrichedName ?? "",
+    title: lead.title ?? "",
+    phone: lead.phone ?? "",
+    website: lead.website ?? "",
+    linkedinUrl: lead.linkedinUrl ?? "",
+  };
+}
+
+// Blank optional inputs clear the stored value rather than saving an empty string
+function toUpdate(values: LeadEditFormData): UpdateLead {
+  return {
+    businessName: values.businessName,
+    industry: values.industry,
+    rationale: values.rationale,
+    contactName: values.contactName,
+    email: values.email,
+    enrichedName: values.enrichedName || null,
+    title: values.title || null,
+    phone: values.phone || null,
+    website: values.website || null,
+    linkedinUrl: values.linkedinUrl || null,
+  };
+}
+
+type LeadEditDialogProps = {
+  lead: Lead | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (lead: Lead) => void;
+};
+
+export function LeadEditDialog({ lead, onOpenChange, onSaved }: LeadEditDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<LeadEditFormData>({
+    resolver: zodResolver(leadEditFormSchema),
+  });
+
+  useEffect(() => {
+    if (lead) {
+      form.reset(toFormValues(lead));
+    }
+  }, [lead, form]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (values: LeadEditFormData) => {
+      const res = await apiRequest("PATCH", `/api/leads/${lead!.id}`, toUpdate(values));
+      return (await res.json()) as Lead;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Lead Updated",
+        description: `${updated.businessName} was saved.`,
+      });
+      onSaved(updated);
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update lead. Please check the fields and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const textField = (name: keyof LeadEditFormData, label: string, type: string = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={!!lead} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Lead</DialogTitle>
+          <DialogDescription>Correct the saved details for this business.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => updateMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textField("businessName", "Business Name")}
+              {textField("industry", "Industry")}
+              {textField("contactName", "Contact Name")}
+              {textField("email", "Email", "email")}
+              {textField("enrichedName", "Enriched Name")}
+              {textField("title", "Title")}
+              {textField("phone", "Phone", "tel")}
+              {textField("website", "Website", "url")}
+            </div>
+            {textField("linkedinUrl", "LinkedIn URL", "url")}
+
+            <FormField
+              control={form.control}
+              name="rationale"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rationale</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-primary text-white hover:bg-blue-700"
+                disabled={updateMutation.isPending}
+              >
+                {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Changes
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
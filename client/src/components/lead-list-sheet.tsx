@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { LeadListResponse, leadStageLabels } from "@shared/schema";
+
+// Which leads to show, as GET /api/leads filters, e.g. { propertyId: "3" } or { searchRunId: "12" }
+export type LeadListFilter = Record<string, string>;
+
+type LeadListProps = {
+  filter: LeadListFilter;
+  emptyMessage: string;
+};
+
+// Mounted only while the sheet is open so leads are fetched on demand
+function LeadList({ filter, emptyMessage }: LeadListProps) {
+  const params = new URLSearchParams({ ...filter, limit: "100" }).toString();
+  const { data, isLoading } = useQuery<LeadListResponse>({
+    queryKey: ["/api/leads", params],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/leads?${params}`);
+      return await res.json();
+    },
+  });
+  const leads = data?.leads ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="inline-block h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (leads.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {leads.map(lead => (
+        <div key={lead.id} className="rounded-lg bg-gray-50 p-4">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-medium text-gray-900">{lead.businessName}</div>
+              <div className="text-xs text-gray-500">{lead.industry}</div>
+            </div>
+            <Badge variant="outline">{leadStageLabels[lead.stage]}</Badge>
+          </div>
+          <div className="text-sm text-gray-600 mt-2">
+            {lead.enrichedName || lead.contactName} • {lead.phone || lead.email}
+          </div>
+        </div>
+      ))}
+      {data && data.pagination.total > leads.length && (
+        <p className="text-xs text-gray-500">
+          Showing the first {leads.length} of {data.pagination.total} leads.
+        </p>
+      )}
+    </div>
+  );
+}
+
+type LeadListSheetProps = {
+  open: boolean;
+  title: string;
+  description: string;
+  filter: LeadListFilter;
+  emptyMessage: string;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function LeadListSheet({ open, title, description, filter, emptyMessage, onOpenChange }: LeadListSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {open && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{title}</SheetTitle>
+              <SheetDescription>{description}</SheetDescription>
+            </SheetHeader>
+            <div className="mt-6">
+              <LeadList filter={filter} emptyMessage={emptyMessage} />
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet.markercluster";
+import "leaflet/dist/leaflet.css";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import "leaflet.markercluster/dist/MarkerCluster.Default.css";
+import type { LeadMapPoint, MapTileConfig, Property } from "@shared/schema";
+
+// Middle of the continental US, shown until there is something to fit the map to
+const DEFAULT_CENTER: L.LatLngExpression = [39.8, -98.6];
+const DEFAULT_ZOOM = 4;
+const SELECTED_COLOR = "#1d4ed8";
+
+type LeadMapProps = {
+  tiles: MapTileConfig;
+  points: LeadMapPoint[];
+  properties: Property[];
+  colorFor: (point: LeadMapPoint) => string;
+  selectedIds: string[];
+  lassoActive: boolean;
+  fitKey: string; // The map refits to the points whenever this changes, e.g. when the filters do
+  onLasso: (ids: string[]) => void;
+  onOpenLead: (id: string) => void;
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function dotIcon(color: string, selected: boolean): L.DivIcon {
+  const ring = selected ? `box-shadow:0 0 0 3px ${SELECTED_COLOR};` : "";
+  return L.divIcon({
+    className: "",
+    html: `<span style="display:block;width:14px;height:14px;border-radius:9999px;border:2px solid #fff;background:${color};${ring}"></span>`,
+    iconSize: [14, 14],
+    iconAnchor: [7, 7],
+  });
+}
+
+const propertyIcon = L.divIcon({
+  className: "",
+  html: '<span style="display:flex;align-items:center;justify-content:center;width:28px;height:28px;border-radius:6px;border:2px solid #fff;background:#111827;color:#fff;font-size:15px;box-shadow:0 1px 4px rgba(0,0,0,.4)">🏢</span>',
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+});
+
+// Ray casting in plain lat/lng, which is accurate enough for a lasso drawn at street or city scale
+function insidePolygon(point: LeadMapPoint, polygon: L.LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.latitude) !== (b.lat > point.latitude) &&
+        point.longitude < ((b.lng - a.lng) * (point.latitude - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Leaflet map of leads, clustered when zoomed out, with the listings they were generated for. In lasso mode,
+// dragging draws a freehand outline and the leads inside it are handed to onLasso.
+export function LeadMap({ tiles, points, properties, colorFor, selectedIds, lassoActive, fitKey, onLasso, onOpenLead }: LeadMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const clusterRef = useRef<L.MarkerClusterGroup | null>(null);
+  const propertyLayerRef = useRef<L.LayerGroup | null>(null);
+  const fittedKeyRef = useRef<string | null>(null);
+  // Read from Leaflet handlers without rebinding them on every render
+  const onOpenLeadRef = useRef(onOpenLead);
+  onOpenLeadRef.current = onOpenLead;
+
+  useEffect(() => {
+    const map = L.map(containerRef.current!, { center: DEFAULT_CENTER, zoom: DEFAULT_ZOOM });
+    clusterRef.current = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 50 }).addTo(map);
+    propertyLayerRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const layer = L.tileLayer(tiles.url, { attribution: tiles.attribution, maxZoom: tiles.maxZoom }).addTo(mapRef.current!);
+    return () => {
+      layer.remove();
+    };
+  }, [tiles.url, tiles.attribution, tiles.maxZoom]);
+
+  useEffect(() => {
+    const cluster = clusterRef.current!;
+    const selected = new Set(selectedIds);
+    cluster.clearLayers();
+    cluster.addLayers(points.map(point => {
+      const marker = L.marker([point.latitude, point.longitude], { icon: dotIcon(colorFor(point), selected.has(point.id)) });
+      const score = point.fitScore === null ? "" : ` · Fit ${point.fitScore}`;
+      marker.bindTooltip(`<strong>${escapeHtml(point.businessName)}</strong><br>${escapeHtml(point.industry)}${score}`);
+      marker.on("click", () => onOpenLeadRef.current(point.id));
+      return marker;
+    }));
+  }, [points, colorFor, selectedIds]);
+
+  useEffect(() => {
+    const layer = propertyLayerRef.current!;
+    layer.clearLayers();
+    for (const property of properties) {
+      if (property.latitude != null && property.longitude != null) {
+        L.marker([property.latitude, property.longitude], { icon: propertyIcon, zIndexOffset: 1000 })
+          .bindTooltip(`<strong>${escapeHtml(property.address)}</strong><br>${property.squareFootage.toLocaleString()} SF`)
+          .addTo(layer);
+      }
+    }
+  }, [properties]);
+
+  // Fit once per fitKey, after its points have arrived, so selecting or deleting leads does not move the map
+  useEffect(() => {
+    if (fittedKeyRef.current === fitKey) {
+      return;
+    }
+    const located = [
+      ...points.map(point => L.latLng(point.latitude, point.longitude)),
+      ...properties.flatMap(property => property.latitude != null && property.longitude != null
+        ? [L.latLng(property.latitude, property.longitude)]
+        : []),
+    ];
+    if (located.length > 0) {
+      mapRef.current!.fitBounds(L.latLngBounds(located), { padding: [40, 40], maxZoom: 15 });
+      fittedKeyRef.current = fitKey;
+    }
+  }, [fitKey, points, properties]);
+
+  useEffect(() => {
+    const map = mapRef.current!;
+    if (!lassoActive) {
+      return;
+    }
+
+    let outline: L.Polyline | null = null;
+    const path: L.LatLng[] = [];
+
+    const start = (e: L.LeafletMouseEvent) => {
+      path.length = 0;
+      path.push(e.latlng);
+      outline = L.polyline(path, { color: SELECTED_COLOR, weight: 2, dashArray: "6 4" }).addTo(map);
+    };
+    const extend = (e: L.LeafletMouseEvent) => {
+      if (outline) {
+        path.push(e.latlng);
+        outline.setLatLngs(path);
+      }
+    };
+    const finish = () => {
+      if (!outline) {
+        return;
+      }
+      outline.remove();
+      outline = null;
+      if (path.length > 2) {
+        onLasso(points.filter(point => insidePolygon(point, path)).map(point => point.id));
+      }
+    };
+
+    map.dragging.disable();
+    map.getContainer().style.cursor = "crosshair";
+    map.on("mousedown", start);
+    map.on("mousemove", extend);
+    map.on("mouseup", finish);
+
+    return () => {
+      map.off("mousedown", start);
+      map.off("mousemove", extend);
+      map.off("mouseup", finish);
+      outline?.remove();
+      map.dragging.enable();
+      map.getContainer().style.cursor = "";
+    };
+  }, [lassoActive, points, onLasso]);
+
+  return <div ref={containerRef} className="h-[600px] w-full rounded-lg border z-0" />;
+}
@@ -0,0 +1,43 @@
+import { enrichmentSourceLabels, type RationaleClaim } from "@shared/schema";
+
+type LeadRationaleProps = {
+  rationale: string;
+  claims?: RationaleClaim[] | null;
+  className?: string;
+};
+
+// Display names for the business sources behind observed listing facts
+const sourceLabels: Record<string, string> = {
+  ...enrichmentSourceLabels,
+  google: "Google",
+  fixture: "Business directory",
+};
+
+// A generated rationale as its claims: what a source reported, then our inferences set apart in italics. Leads
+// imported or rewritten by a broker have no claims and show their text as is.
+export function LeadRationale({ rationale, claims, className = "" }: LeadRationaleProps) {
+  if (!claims || claims.length === 0) {
+    return <p className={`text-gray-600 ${className}`}>{rationale}</p>;
+  }
+
+  const observed = claims.filter(claim => claim.basis === "observed");
+  const inferred = claims.filter(claim => claim.basis === "inferred");
+
+  return (
+    <div className={`text-gray-600 ${className}`}>
+      <p>
+        {observed.map(claim => (
+          <span key={claim.key} title={claim.source ? `Reported by ${sourceLabels[claim.source] ?? claim.source}` : undefined}>
+            {claim.text}{" "}
+          </span>
+        ))}
+      </p>
+      {inferred.length > 0 && (
+        <p className="mt-1 text-sm italic text-gray-500">
+          <span className="not-italic font-medium text-gray-500">Inferred: </span>
+          {inferred.map(claim => claim.text).join(" ")}
+        </p>
+      )}
+    </div>
+  );
+}
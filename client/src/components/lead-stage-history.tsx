@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { History, Loader2 } from "lucide-react";
+import { LeadStageChange, leadStageLabels } from "@shared/schema";
+
+type StageHistoryListProps = {
+  leadId: string;
+};
+
+// Only mounted while the popover is open so the history is fetched on demand
+function StageHistoryList({ leadId }: StageHistoryListProps) {
+  const { data: history = [], isLoading } = useQuery<LeadStageChange[]>({
+    queryKey: ["/api/leads", leadId, "stage-history"],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <Loader2 className="mx-auto h-4 w-4 animate-spin text-primary" />;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">This lead has not moved stage yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {history.map(change => (
+        <li key={change.id} className="text-sm">
+          <div className="text-gray-900">
+            {change.fromStage ? `${leadStageLabels[change.fromStage]} → ` : ""}
+            <span className="font-medium">{leadStageLabels[change.toStage]}</span>
+          </div>
+          <div className="text-xs text-gray-500">
+            {change.changedByUsername ?? "Former member"} • {new Date(change.changedAt).toLocaleString()}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function LeadStageHistory({ leadId }: StageHistoryListProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="p-1 h-6 w-6" title="Stage history">
+          <History className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 max-h-80 overflow-y-auto">
+        <h4 className="text-sm font-semibold text-gray-900 mb-3">Stage History</h4>
+        <StageHistoryList leadId={leadId} />
+      </PopoverContent>
+    </Popover>
+  );
+}
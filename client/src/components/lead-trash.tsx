@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, RotateCcw } from "lucide-react";
+import { Lead } from "@shared/schema";
+
+type TrashResponse = {
+  leads: Lead[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+};
+
+type LeadTrashProps = {
+  onRestored: () => void;
+};
+
+export function LeadTrash({ onRestored }: LeadTrashProps) {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { data, isLoading } = useQuery<TrashResponse>({
+    queryKey: ["/api/leads/trash"],
+    staleTime: 0,
+  });
+  const deletedLeads = data?.leads ?? [];
+
+  const restoreMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const res = await apiRequest("POST", "/api/leads/restore", { ids });
+      return (await res.json()) as { restored: number };
+    },
+    onSuccess: ({ restored }) => {
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/trash"] });
+      onRestored();
+      toast({
+        title: "Leads Restored",
+        description: `${restored} lead${restored === 1 ? "" : "s"} moved back to saved leads.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore leads.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSelection = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const allSelected = deletedLeads.length > 0 && selectedIds.length === deletedLeads.length;
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+        <p className="mt-4 text-gray-600">Loading trash...</p>
+      </div>
+    );
+  }
+
+  if (deletedLeads.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">Trash is empty.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {can("edit") && (
+        <div className="flex justify-between items-center mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) => setSelectedIds(checked ? deletedLeads.map(lead => lead.id) : [])}
+            />
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : "Select all"}
+          </label>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => restoreMutation.mutate(selectedIds)}
+            disabled={selectedIds.length === 0 || restoreMutation.isPending}
+          >
+            {restoreMutation.isPending ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <RotateCcw className="mr-1 h-4 w-4" />
+            )}
+            Restore Selected
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {deletedLeads.map((lead) => (
+          <div key={lead.id} className="flex items-center justify-between gap-4 rounded-lg bg-gray-50 p-4">
+            <div className="flex items-center gap-3">
+              {can("edit") && (
+                <Checkbox
+                  checked={selectedIds.includes(lead.id)}
+                  onCheckedChange={() => toggleSelection(lead.id)}
+                />
+              )}
+              <div>
+                <div className="font-medium text-gray-900">{lead.businessName}</div>
+                <div className="text-xs text-gray-500">
+                  {lead.industry} • Deleted {lead.deletedAt ? new Date(lead.deletedAt).toLocaleDateString() : ""}
+                </div>
+              </div>
+            </div>
+            {can("edit") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => restoreMutation.mutate([lead.id])}
+                disabled={restoreMutation.isPending}
+                className="text-primary"
+              >
+                <RotateCcw className="mr-1 h-3 w-3" />
+                Restore
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {data && data.pagination.total > deletedLeads.length && (
+        <p className="text-xs text-gray-500 mt-4">
+          Showing the {deletedLeads.length} most recently deleted of {data.pagination.total} leads.
+        </p>
+      )}
+    </div>
+  );
+}
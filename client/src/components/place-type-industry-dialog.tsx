@@ -0,0 +1,114 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { InsertPlaceTypeIndustry, PlaceTypeIndustry, insertPlaceTypeIndustrySchema } from "@shared/schema";
+
+type PlaceTypeIndustryDialogProps = {
+  open: boolean;
+  entry?: PlaceTypeIndustry | null; // Editing when set
+  onOpenChange: (open: boolean) => void;
+  onSaved: (entry: PlaceTypeIndustry) => void;
+};
+
+export function PlaceTypeIndustryDialog({ open, entry, onOpenChange, onSaved }: PlaceTypeIndustryDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<InsertPlaceTypeIndustry>({
+    resolver: zodResolver(insertPlaceTypeIndustrySchema),
+    defaultValues: { placeType: "", industry: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ placeType: entry?.placeType ?? "", industry: entry?.industry ?? "" });
+    }
+  }, [open, entry, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: InsertPlaceTypeIndustry) => {
+      const res = entry
+        ? await apiRequest("PATCH", `/api/business-taxonomy/industries/${entry.id}`, values)
+        : await apiRequest("POST", "/api/business-taxonomy/industries", values);
+      return (await res.json()) as PlaceTypeIndustry;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: entry ? "Industry Updated" : "Industry Added",
+        description: `New leads listed as ${saved.placeType} are shown as ${saved.industry}.`,
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "That place type already has an industry."
+          : "Failed to save industry.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{entry ? "Edit Industry" : "Add Industry"}</DialogTitle>
+          <DialogDescription>
+            A lead's industry comes from the first of its Google place types listed here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="placeType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Google Place Type</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., veterinary_care" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="industry"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Industry</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Veterinary Services" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-primary text-white hover:bg-blue-700" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {entry ? "Save Changes" : "Add Industry"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
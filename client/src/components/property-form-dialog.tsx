@@ -0,0 +1,229 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import {
+  InsertProperty,
+  Property,
+  PropertyFeature,
+  PropertyUseType,
+  propertyFeatures,
+  propertyUseTypes,
+  propertyUseTypeLabels,
+} from "@shared/schema";
+
+// Inputs hold strings; numbers are checked here and converted before they reach the API
+const optionalNumber = (message: string, min: number, max: number) =>
+  z.string().trim().refine((value) => {
+    if (!value) return true;
+    const number = Number(value);
+    return !Number.isNaN(number) && number >= min && number <= max;
+  }, message);
+
+const propertyFormSchema = z.object({
+  address: z.string().trim().min(1, "Address is required").max(500, "Address must be 500 characters or less"),
+  useType: z.enum(propertyUseTypes),
+  squareFootage: z.string().trim().regex(/^\d+$/, "Enter square footage as a whole number").refine(value => Number(value) > 0, "Square footage must be a positive number"),
+  askingRent: optionalNumber("Asking rent must be a positive number", 0, Number.MAX_SAFE_INTEGER),
+  latitude: optionalNumber("Latitude must be between -90 and 90", -90, 90),
+  longitude: optionalNumber("Longitude must be between -180 and 180", -180, 180),
+  features: z.array(z.enum(propertyFeatures)),
+}).refine(
+  (values) => !values.latitude === !values.longitude,
+  { message: "Enter both latitude and longitude, or neither", path: ["longitude"] },
+);
+
+type PropertyFormData = z.infer<typeof propertyFormSchema>;
+
+const emptyValues: PropertyFormData = {
+  address: "",
+  useType: "office",
+  squareFootage: "",
+  askingRent: "",
+  latitude: "",
+  longitude: "",
+  features: [],
+};
+
+function toFormValues(property: Property): PropertyFormData {
+  return {
+    address: property.address,
+    useType: property.useType,
+    squareFootage: String(property.squareFootage),
+    askingRent: property.askingRent?.toString() ?? "",
+    latitude: property.latitude?.toString() ?? "",
+    longitude: property.longitude?.toString() ?? "",
+    features: property.features,
+  };
+}
+
+const toNumberOrNull = (value: string) => value ? Number(value) : null;
+
+function toPayload(values: PropertyFormData): InsertProperty {
+  return {
+    address: values.address,
+    useType: values.useType,
+    squareFootage: Number(values.squareFootage),
+    askingRent: toNumberOrNull(values.askingRent),
+    latitude: toNumberOrNull(values.latitude),
+    longitude: toNumberOrNull(values.longitude),
+    features: values.features,
+  };
+}
+
+type PropertyFormDialogProps = {
+  open: boolean;
+  property?: Property | null; // Editing when set, otherwise creating
+  onOpenChange: (open: boolean) => void;
+  onSaved: (property: Property) => void;
+};
+
+export function PropertyFormDialog({ open, property, onOpenChange, onSaved }: PropertyFormDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<PropertyFormData>({
+    resolver: zodResolver(propertyFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(property ? toFormValues(property) : emptyValues);
+    }
+  }, [open, property, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: PropertyFormData) => {
+      const res = property
+        ? await apiRequest("PATCH", `/api/properties/${property.id}`, toPayload(values))
+        : await apiRequest("POST", "/api/properties", toPayload(values));
+      return (await res.json()) as Property;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: property ? "Property Updated" : "Property Added",
+        description: `${saved.address} was saved.`,
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save property. Please check the fields and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const textField = (name: "address" | "squareFootage" | "askingRent" | "latitude" | "longitude", label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{property ? "Edit Property" : "Add Property"}</DialogTitle>
+          <DialogDescription>Listings you market can be used as the target for lead generation.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            {textField("address", "Address", "e.g., 1200 Pine St, Seattle, WA")}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="useType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Use Type</FormLabel>
+                    <Select value={field.value} onValueChange={(value) => field.onChange(value as PropertyUseType)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {propertyUseTypes.map(useType => (
+                          <SelectItem key={useType} value={useType}>{propertyUseTypeLabels[useType]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {textField("squareFootage", "Square Footage", "e.g., 2500")}
+              {textField("askingRent", "Asking Rent ($/SF/yr)", "e.g., 32.50")}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textField("latitude", "Latitude", "Optional")}
+              {textField("longitude", "Longitude", "Optional")}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="features"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Features</FormLabel>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {propertyFeatures.map((feature: PropertyFeature) => (
+                      <label key={feature} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(feature)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked ? [...field.value, feature] : field.value.filter(value => value !== feature)
+                          )}
+                        />
+                        {feature}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-primary text-white hover:bg-blue-700"
+                disabled={saveMutation.isPending}
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {property ? "Save Changes" : "Add Property"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
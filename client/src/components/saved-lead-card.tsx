@@ -0,0 +1,255 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { copyContact } from "@/lib/csvExport";
+import { Copy, Mail, Phone, User, Linkedin, Globe, Pencil, Sparkles, Trash2 } from "lucide-react";
+import { CompanySummary } from "@/components/company-summary";
+import { FitScoreBadge } from "@/components/fit-score-badge";
+import { LeadRationale } from "@/components/lead-rationale";
+import { LeadWithCompany, describeFoundBy, enrichmentSourceLabels, leadStageLabels } from "@shared/schema";
+
+type SavedLeadCardProps = {
+  lead: LeadWithCompany;
+  selected?: boolean;
+  onToggleSelect?: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onOpenDetails?: () => void;
+  onEnrich?: () => void;
+  isDeleting?: boolean;
+  isEnriching?: boolean;
+};
+
+// Edit, delete and selection controls only render when their handlers are passed in
+export function SavedLeadCard({ lead, selected, onToggleSelect, onEdit, onDelete, onOpenDetails, onEnrich, isDeleting, isEnriching }: SavedLeadCardProps) {
+  const { toast } = useToast();
+
+  const handleCopyContact = async (contact: string) => {
+    try {
+      await copyContact(contact);
+      toast({
+        title: "Contact Copied",
+        description: `${contact} copied to clipboard!`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy contact to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className={`rounded-lg p-6 hover:shadow-md transition-shadow ${lead.isEnriched ? 'bg-gradient-to-br from-blue-50 to-green-50 border-2 border-blue-200' : 'bg-gray-50'}`}>
+      <div className="flex flex-col sm:flex-row justify-between items-start mb-4 gap-2">
+        <div className="flex items-center gap-2">
+          {onToggleSelect && (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={onToggleSelect}
+            />
+          )}
+          {onOpenDetails ? (
+            <button
+              type="button"
+              onClick={onOpenDetails}
+              className="text-lg font-bold text-gray-900 text-left hover:text-primary hover:underline"
+              title="Open lead details"
+            >
+              {lead.businessName}
+            </button>
+          ) : (
+            <h3 className="text-lg font-bold text-gray-900">{lead.businessName}</h3>
+          )}
+          {lead.isEnriched && (
+            <span className="bg-blue-600 text-white px-2 py-1 rounded-full text-xs font-medium">
+              ✨ Enhanced
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <FitScoreBadge score={lead.fitScore} factors={lead.fitFactors} adjustments={lead.fitAdjustments} />
+          {lead.distanceMiles != null && (
+            <span className="text-sm text-gray-600 whitespace-nowrap" title="Distance from the search centre">
+              {lead.distanceMiles} mi
+            </span>
+          )}
+          <span className="border border-gray-300 text-gray-700 px-3 py-1 rounded-full text-sm whitespace-nowrap">
+            {leadStageLabels[lead.stage]}
+          </span>
+          <span className="bg-primary text-white px-3 py-1 rounded-full text-sm whitespace-nowrap">
+            {lead.industry}
+          </span>
+        </div>
+      </div>
+      {lead.foundBy && (
+        <p className="text-xs text-gray-500 -mt-2 mb-3">
+          Found by: {describeFoundBy(lead.foundBy)}
+        </p>
+      )}
+      <LeadRationale rationale={lead.rationale} claims={lead.rationaleClaims} className="mb-4" />
+      <CompanySummary company={lead.company} />
+
+      {/* Contact Information - Prioritize phone for enriched leads */}
+      <div className="space-y-2 mb-4">
+        {/* Display enriched name with title if available */}
+        <div className="text-sm">
+          <div className="flex items-center gap-2">
+            <User className="h-4 w-4 text-gray-500" />
+            <span className="font-medium text-gray-700">
+              {lead.enrichedName || lead.contactName}
+              {lead.title && (
+                <span className="text-gray-500 ml-1">
+                  • {lead.title}
+                </span>
+              )}
+            </span>
+          </div>
+        </div>
+
+        {/* Phone number (priority for enriched leads) */}
+        {lead.phone && (
+          <div className="text-sm">
+            <div className="flex items-center gap-2">
+              <Phone className="h-4 w-4 text-green-600" />
+              <span className="font-medium text-gray-700">Phone:</span>
+              <span className="text-gray-600">{lead.phone}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleCopyContact(lead.phone || '')}
+                className="p-1 h-6 w-6"
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Email */}
+        <div className="text-sm">
+          <div className="flex items-center gap-2">
+            <Mail className="h-4 w-4 text-blue-600" />
+            <span className="font-medium text-gray-700">Email:</span>
+            <span className="text-gray-600">{lead.email}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleCopyContact(lead.email)}
+              className="p-1 h-6 w-6"
+            >
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Website */}
+        {lead.website && (
+          <div className="text-sm">
+            <div className="flex items-center gap-2">
+              <Globe className="h-4 w-4 text-purple-600" />
+              <span className="font-medium text-gray-700">Website:</span>
+              <a
+                href={lead.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                {lead.website.replace(/https?:\/\//, '')}
+              </a>
+            </div>
+          </div>
+        )}
+
+        {/* LinkedIn */}
+        {lead.linkedinUrl && (
+          <div className="text-sm">
+            <div className="flex items-center gap-2">
+              <Linkedin className="h-4 w-4 text-blue-700" />
+              <span className="font-medium text-gray-700">LinkedIn:</span>
+              <a
+                href={lead.linkedinUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-700 hover:underline"
+              >
+                View Profile
+              </a>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+        <div className="text-xs text-gray-400">
+          Saved: {new Date(lead.createdAt).toLocaleDateString()}
+          <span className="ml-2">
+            • {lead.lastActivityAt ? `Last activity: ${new Date(lead.lastActivityAt).toLocaleDateString()}` : "No activity yet"}
+          </span>
+          {lead.isEnriched ? (
+            <span className="ml-2 text-blue-500 font-medium">
+              • Enhanced with {lead.enrichmentSource ? enrichmentSourceLabels[lead.enrichmentSource] ?? lead.enrichmentSource : "PDL"}
+            </span>
+          ) : lead.enrichmentStatus === "pending" ? (
+            <span className="ml-2 text-gray-500 font-medium">• Enrichment in progress</span>
+          ) : lead.enrichmentStatus === "failed" ? (
+            <span className="ml-2 text-red-500 font-medium">• ⚠️ Enrichment failed</span>
+          ) : lead.enrichmentStatus === "over_budget" ? (
+            <span className="ml-2 text-orange-500 font-medium">• ⚠️ Skipped: monthly credits used up</span>
+          ) : lead.enrichmentStatus === "not_found" ? (
+            <span className="ml-2 text-orange-500 font-medium">• ⚠️ No real match found</span>
+          ) : (
+            <span className="ml-2 text-gray-500 font-medium">• Not enriched yet</span>
+          )}
+        </div>
+        <div className="flex items-center">
+          {onEnrich && !lead.isEnriched && lead.enrichmentStatus !== "pending" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onEnrich}
+              className="p-1 h-8 w-8 text-blue-600 hover:text-blue-700"
+              title="Enrich this lead"
+              disabled={isEnriching}
+            >
+              <Sparkles className="h-3 w-3" />
+            </Button>
+          )}
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onEdit}
+              className="p-1 h-8 w-8"
+              title="Edit lead"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              className="p-1 h-8 w-8 text-red-600 hover:text-red-700"
+              title="Move to trash"
+              disabled={isDeleting}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleCopyContact(lead.phone || lead.email || '')}
+            className="text-primary hover:text-blue-700 font-medium text-sm whitespace-nowrap"
+          >
+            <Copy className="mr-1 h-3 w-3" />
+            Copy {lead.phone ? 'Phone' : 'Email'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
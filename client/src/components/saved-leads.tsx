@@ -0,0 +1,587 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useDebounce } from "@/hooks/use-debounce";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadSavedLeadsCSV } from "@/lib/csvExport";
+import { LeadEditDialog } from "@/components/lead-edit-dialog";
+import { LeadTrash } from "@/components/lead-trash";
+import { LeadDuplicates } from "@/components/lead-duplicates";
+import { LeadDetailSheet } from "@/components/lead-detail-sheet";
+import { SavedLeadCard } from "@/components/saved-lead-card";
+import { Copy, Download, Loader2, Sparkles, Trash2 } from "lucide-react";
+import { Lead, LeadListResponse, LeadStage, PropertyWithLeadCount, leadStages, leadStageLabels, searchRadiusOptions } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+type SavedLeadFilters = {
+  keyword: string;
+  industry: string; // "all" or an industry the workspace's leads have
+  contactName: string;
+  enriched: "all" | "true" | "false";
+  stage: "all" | LeadStage;
+  propertyId: string; // "all" or a property id
+  createdFrom: string; // yyyy-mm-dd from the date input
+  createdTo: string;
+  stageChangedFrom: string;
+  stageChangedTo: string;
+  minFitScore: string; // "all" or the lowest fit score to show
+  maxDistanceMiles: string; // "all" or the furthest distance to show
+  sort: string; // "<sortBy>:<sortOrder>"
+};
+
+const emptyFilters: SavedLeadFilters = {
+  keyword: "",
+  industry: "all",
+  contactName: "",
+  enriched: "all",
+  stage: "all",
+  propertyId: "all",
+  createdFrom: "",
+  createdTo: "",
+  stageChangedFrom: "",
+  stageChangedTo: "",
+  minFitScore: "all",
+  maxDistanceMiles: "all",
+  sort: "createdAt:desc",
+};
+
+const sortOptions = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "fitScore:desc", label: "Best fit first" },
+  { value: "fitScore:asc", label: "Weakest fit first" },
+  { value: "distanceMiles:asc", label: "Nearest first" },
+  { value: "businessName:asc", label: "Business name A–Z" },
+  { value: "businessName:desc", label: "Business name Z–A" },
+  { value: "industry:asc", label: "Industry A–Z" },
+  { value: "stageChangedAt:desc", label: "Recently moved stage" },
+  { value: "lastActivityAt:desc", label: "Most recent activity" },
+  { value: "lastActivityAt:asc", label: "Least recent activity" },
+];
+
+// Translate the filter form into GET /api/leads query parameters; blank filters are left out
+function buildLeadSearchParams(filters: SavedLeadFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const [sortBy, sortOrder] = filters.sort.split(":");
+  params.set("sortBy", sortBy);
+  params.set("sortOrder", sortOrder);
+
+  if (filters.keyword.trim()) params.set("keyword", filters.keyword.trim());
+  if (filters.industry !== "all") params.set("industry", filters.industry);
+  if (filters.contactName.trim()) params.set("contactName", filters.contactName.trim());
+  if (filters.enriched !== "all") params.set("enriched", filters.enriched);
+  if (filters.stage !== "all") params.set("stage", filters.stage);
+  if (filters.propertyId !== "all") params.set("propertyId", filters.propertyId);
+  if (filters.minFitScore !== "all") params.set("minFitScore", filters.minFitScore);
+  if (filters.maxDistanceMiles !== "all") params.set("maxDistanceMiles", filters.maxDistanceMiles);
+  // Date inputs are local calendar days: include the whole of both the first and last day
+  if (filters.createdFrom) params.set("createdFrom", new Date(`${filters.createdFrom}T00:00:00`).toISOString());
+  if (filters.createdTo) params.set("createdTo", new Date(`${filters.createdTo}T23:59:59.999`).toISOString());
+  if (filters.stageChangedFrom) params.set("stageChangedFrom", new Date(`${filters.stageChangedFrom}T00:00:00`).toISOString());
+  if (filters.stageChangedTo) params.set("stageChangedTo", new Date(`${filters.stageChangedTo}T23:59:59.999`).toISOString());
+
+  return params;
+}
+
+type SavedLeadsProps = {
+  onHide: () => void;
+};
+
+export function SavedLeads({ onHide }: SavedLeadsProps) {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [view, setView] = useState<"active" | "duplicates" | "trash">("active");
+  const [filters, setFilters] = useState<SavedLeadFilters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [selectedLeadIds, setSelectedLeadIds] = useState<string[]>([]);
+  const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [detailLead, setDetailLead] = useState<Lead | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isEnriching, setIsEnriching] = useState(false);
+
+  const { data: properties = [] } = useQuery<PropertyWithLeadCount[]>({
+    queryKey: ["/api/properties"],
+  });
+
+  // Keyed under /api/leads so newly saved or edited leads bring their industries into the list
+  const { data: industries = [] } = useQuery<string[]>({
+    queryKey: ["/api/leads", "industries"],
+  });
+
+  const debouncedFilters = useDebounce(filters);
+  const searchParams = buildLeadSearchParams(debouncedFilters);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedFilters]);
+
+  useEffect(() => {
+    setSelectedLeadIds([]);
+  }, [debouncedFilters, page]);
+
+  const pageParams = new URLSearchParams(searchParams);
+  pageParams.set("page", String(page));
+  pageParams.set("limit", String(PAGE_SIZE));
+
+  const { data, isLoading, isFetching, isError } = useQuery<LeadListResponse>({
+    queryKey: ["/api/leads", pageParams.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/leads?${pageParams.toString()}`);
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const leads = data?.leads ?? [];
+  const pagination = data?.pagination;
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(emptyFilters);
+
+  const updateFilter = <K extends keyof SavedLeadFilters>(key: K, value: SavedLeadFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleLeadSelection = (id: string) => {
+    setSelectedLeadIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const refreshLeads = () => queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+
+  // Deleted leads go to the trash and can be restored from there
+  const deleteLeads = async (ids: string[]) => {
+    setIsDeleting(true);
+    try {
+      const response = await apiRequest("POST", "/api/leads/bulk-delete", { ids });
+      const { deleted } = await response.json();
+      setSelectedLeadIds(prev => prev.filter(id => !ids.includes(id)));
+      await refreshLeads();
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/trash"] });
+      toast({
+        title: "Moved to Trash",
+        description: `${deleted} lead${deleted === 1 ? '' : 's'} moved to trash.`,
+      });
+    } catch (error) {
+      console.error("Error deleting leads:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete leads.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Enrichment runs in the background; cards show progress as the queue works through the leads
+  const enrichLeads = async (ids: string[]) => {
+    setIsEnriching(true);
+    try {
+      const response = ids.length === 1
+        ? await apiRequest("POST", `/api/leads/${ids[0]}/enrich`)
+        : await apiRequest("POST", "/api/leads/enrich", { ids });
+      const { queued, skipped }: { queued: number; skipped: number } = ids.length === 1
+        ? { queued: 1, skipped: 0 }
+        : await response.json();
+      setSelectedLeadIds([]);
+      await refreshLeads();
+      toast({
+        title: "Enrichment Queued",
+        description: `${queued} lead${queued === 1 ? '' : 's'} queued for enrichment.` +
+          (skipped > 0 ? ` ${skipped} skipped: not enough enrichment credits left this month.` : ''),
+      });
+    } catch (error) {
+      console.error("Error queueing enrichment:", error);
+      const overBudget = error instanceof Error && error.message.startsWith("402");
+      toast({
+        title: "Error",
+        description: overBudget
+          ? "This workspace has used its monthly enrichment credits."
+          : "Failed to queue leads for enrichment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEnriching(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await downloadSavedLeadsCSV(searchParams);
+      toast({
+        title: "Download Started",
+        description: "CSV file download has started.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export saved leads.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+          <h2 className="text-2xl font-semibold text-gray-900">💾 Saved Leads from Database</h2>
+          <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4 w-full sm:w-auto">
+            {can("export") && (
+              <Button
+                onClick={handleExport}
+                className="bg-accent text-white hover:bg-green-600 w-full sm:w-auto"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+            )}
+            <Button
+              onClick={onHide}
+              variant="outline"
+              className="w-full sm:w-auto"
+            >
+              Hide Saved Leads
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <Button
+            size="sm"
+            variant={view === 'active' ? 'default' : 'outline'}
+            onClick={() => setView('active')}
+          >
+            Saved{pagination ? ` (${pagination.total})` : ''}
+          </Button>
+          <Button
+            size="sm"
+            variant={view === 'duplicates' ? 'default' : 'outline'}
+            onClick={() => setView('duplicates')}
+          >
+            <Copy className="mr-1 h-4 w-4" />
+            Duplicates
+          </Button>
+          <Button
+            size="sm"
+            variant={view === 'trash' ? 'default' : 'outline'}
+            onClick={() => setView('trash')}
+          >
+            <Trash2 className="mr-1 h-4 w-4" />
+            Trash
+          </Button>
+        </div>
+
+        {view === 'trash' ? (
+          <LeadTrash onRestored={refreshLeads} />
+        ) : view === 'duplicates' ? (
+          <LeadDuplicates onMerged={refreshLeads} />
+        ) : (
+          <>
+            {/* Filter Section */}
+            <div className="bg-gray-50 rounded-lg p-4 mb-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Search & Filter Leads</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Keywords</label>
+                  <Input
+                    placeholder="Business name or rationale, e.g. parking"
+                    value={filters.keyword}
+                    onChange={(e) => updateFilter("keyword", e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Industry</label>
+                  <Select value={filters.industry} onValueChange={(value) => updateFilter("industry", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All industries</SelectItem>
+                      {industries.map(industry => (
+                        <SelectItem key={industry} value={industry}>{industry}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Contact Name</label>
+                  <Input
+                    placeholder="e.g., Sarah, Mike, Alex"
+                    value={filters.contactName}
+                    onChange={(e) => updateFilter("contactName", e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Enrichment</label>
+                  <Select value={filters.enriched} onValueChange={(value) => updateFilter("enriched", value as SavedLeadFilters["enriched"])}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All leads</SelectItem>
+                      <SelectItem value="true">Enriched only</SelectItem>
+                      <SelectItem value="false">Not enriched</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Stage</label>
+                  <Select value={filters.stage} onValueChange={(value) => updateFilter("stage", value as SavedLeadFilters["stage"])}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All stages</SelectItem>
+                      {leadStages.map(stage => (
+                        <SelectItem key={stage} value={stage}>{leadStageLabels[stage]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Property</label>
+                  <Select value={filters.propertyId} onValueChange={(value) => updateFilter("propertyId", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All properties</SelectItem>
+                      {properties.map(property => (
+                        <SelectItem key={property.id} value={String(property.id)}>{property.address}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Saved Between</label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="date"
+                      value={filters.createdFrom}
+                      onChange={(e) => updateFilter("createdFrom", e.target.value)}
+                    />
+                    <Input
+                      type="date"
+                      value={filters.createdTo}
+                      onChange={(e) => updateFilter("createdTo", e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Stage Changed Between</label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="date"
+                      value={filters.stageChangedFrom}
+                      onChange={(e) => updateFilter("stageChangedFrom", e.target.value)}
+                    />
+                    <Input
+                      type="date"
+                      value={filters.stageChangedTo}
+                      onChange={(e) => updateFilter("stageChangedTo", e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Fit Score</label>
+                  <Select value={filters.minFitScore} onValueChange={(value) => updateFilter("minFitScore", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any fit</SelectItem>
+                      <SelectItem value="80">80 and above</SelectItem>
+                      <SelectItem value="60">60 and above</SelectItem>
+                      <SelectItem value="40">40 and above</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Distance</label>
+                  <Select value={filters.maxDistanceMiles} onValueChange={(value) => updateFilter("maxDistanceMiles", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any distance</SelectItem>
+                      {searchRadiusOptions.map(radius => (
+                        <SelectItem key={radius} value={String(radius)}>Within {radius} mile{radius === 1 ? "" : "s"}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Sort By</label>
+                  <Select value={filters.sort} onValueChange={(value) => updateFilter("sort", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex justify-between items-center mt-4">
+                <div className="text-sm text-gray-600 flex items-center gap-2">
+                  {pagination && `${pagination.total} matching lead${pagination.total === 1 ? '' : 's'}`}
+                  {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
+                </div>
+                <Button
+                  onClick={() => setFilters(emptyFilters)}
+                  variant="outline"
+                  size="sm"
+                  disabled={!hasFilters}
+                >
+                  Clear Filters
+                </Button>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-8">
+                <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+                <p className="mt-4 text-gray-600">Loading saved leads...</p>
+              </div>
+            ) : isError ? (
+              <div className="text-center py-8">
+                <p className="text-red-600">Failed to load saved leads from database.</p>
+              </div>
+            ) : leads.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">
+                  {hasFilters
+                    ? "No leads match your current filters. Try adjusting the criteria above."
+                    : "No saved leads found in database."}
+                </p>
+              </div>
+            ) : (
+              <>
+                {can("edit") && (
+                  <div className="flex justify-between items-center mb-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <Checkbox
+                        checked={leads.every(lead => selectedLeadIds.includes(lead.id))}
+                        onCheckedChange={(checked) => setSelectedLeadIds(checked ? leads.map(lead => lead.id) : [])}
+                      />
+                      {selectedLeadIds.length > 0 ? `${selectedLeadIds.length} selected` : 'Select page'}
+                    </label>
+                    <div className="flex items-center gap-2">
+                      {can("generate") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => enrichLeads(selectedLeadIds)}
+                          disabled={selectedLeadIds.length === 0 || isEnriching}
+                        >
+                          {isEnriching ? (
+                            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Sparkles className="mr-1 h-4 w-4" />
+                          )}
+                          Enrich Selected
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => deleteLeads(selectedLeadIds)}
+                        disabled={selectedLeadIds.length === 0 || isDeleting}
+                      >
+                        {isDeleting ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="mr-1 h-4 w-4" />
+                        )}
+                        Delete Selected
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {leads.map((lead) => (
+                    <SavedLeadCard
+                      key={lead.id}
+                      lead={lead}
+                      selected={selectedLeadIds.includes(lead.id)}
+                      onToggleSelect={can("edit") ? () => toggleLeadSelection(lead.id) : undefined}
+                      onEdit={can("edit") ? () => setEditingLead(lead) : undefined}
+                      onDelete={can("edit") ? () => deleteLeads([lead.id]) : undefined}
+                      onEnrich={can("generate") ? () => enrichLeads([lead.id]) : undefined}
+                      onOpenDetails={() => setDetailLead(lead)}
+                      isDeleting={isDeleting}
+                      isEnriching={isEnriching}
+                    />
+                  ))}
+                </div>
+
+                {pagination && pagination.pages > 1 && (
+                  <Pagination className="mt-6">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious
+                          href="#"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setPage(prev => Math.max(1, prev - 1));
+                          }}
+                          className={page <= 1 ? "pointer-events-none opacity-50" : ""}
+                        />
+                      </PaginationItem>
+                      <PaginationItem>
+                        <span className="px-4 text-sm text-gray-600">
+                          Page {pagination.page} of {pagination.pages}
+                        </span>
+                      </PaginationItem>
+                      <PaginationItem>
+                        <PaginationNext
+                          href="#"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setPage(prev => Math.min(pagination.pages, prev + 1));
+                          }}
+                          className={page >= pagination.pages ? "pointer-events-none opacity-50" : ""}
+                        />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <LeadEditDialog
+        lead={editingLead}
+        onOpenChange={(open) => !open && setEditingLead(null)}
+        onSaved={() => refreshLeads()}
+      />
+
+      <LeadDetailSheet
+        lead={detailLead}
+        onOpenChange={(open) => !open && setDetailLead(null)}
+      />
+    </Card>
+  );
+}
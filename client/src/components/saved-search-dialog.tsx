@@ -0,0 +1,337 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { SearchRadiusSelect } from "@/components/search-radius-select";
+import { SearchResultCountSelect } from "@/components/search-result-count-select";
+import { SearchValuesTextarea } from "@/components/search-values-textarea";
+import { Loader2 } from "lucide-react";
+import {
+  DEFAULT_SEARCH_SCHEDULE,
+  InsertSavedSearch,
+  LeadFormData,
+  PropertyWithLeadCount,
+  SavedSearch,
+  leadFormSchema,
+  propertyFeatures,
+} from "@shared/schema";
+
+export const schedulePresets = [
+  { value: DEFAULT_SEARCH_SCHEDULE, label: "Nightly at 02:00 UTC" },
+  { value: "0 2 * * 1", label: "Weekly on Monday at 02:00 UTC" },
+  { value: "0 2 1 * *", label: "Monthly on the 1st at 02:00 UTC" },
+];
+
+const CUSTOM_SCHEDULE = "custom";
+
+const savedSearchFormSchema = leadFormSchema.extend({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+  propertyId: z.string(), // "none" or a property id
+  schedule: z.string(),
+  customCron: z.string().trim(),
+  enabled: z.boolean(),
+}).refine(
+  (values) => values.schedule !== CUSTOM_SCHEDULE || values.customCron.split(/\s+/).length === 5,
+  { message: "Enter five fields: minute hour day-of-month month day-of-week", path: ["customCron"] },
+);
+
+type SavedSearchFormData = z.infer<typeof savedSearchFormSchema>;
+
+function toFormValues(search?: SavedSearch | null, criteria?: Partial<LeadFormData>, propertyId?: number): SavedSearchFormData {
+  const source = search?.criteria ?? criteria ?? {};
+  const cron = search?.cronExpression ?? DEFAULT_SEARCH_SCHEDULE;
+  const isPreset = schedulePresets.some(preset => preset.value === cron);
+  return {
+    name: search?.name ?? (source.businessType && source.targetLocation ? `${source.businessType} in ${source.targetLocation}` : ""),
+    businessType: source.businessType ?? "",
+    targetLocation: source.targetLocation ?? "",
+    additionalBusinessTypes: source.additionalBusinessTypes ?? [],
+    additionalTargetLocations: source.additionalTargetLocations ?? [],
+    squareFootage: source.squareFootage ?? "",
+    features: source.features ?? [],
+    radiusMiles: source.radiusMiles,
+    maxResults: source.maxResults,
+    propertyId: String(search?.propertyId ?? propertyId ?? "none"),
+    schedule: isPreset ? cron : CUSTOM_SCHEDULE,
+    customCron: isPreset ? "" : cron,
+    enabled: search?.enabled ?? true,
+  };
+}
+
+function toPayload(values: SavedSearchFormData): InsertSavedSearch {
+  return {
+    name: values.name,
+    businessType: values.businessType,
+    targetLocation: values.targetLocation,
+    additionalBusinessTypes: values.additionalBusinessTypes,
+    additionalTargetLocations: values.additionalTargetLocations,
+    squareFootage: values.squareFootage,
+    features: values.features,
+    radiusMiles: values.radiusMiles,
+    maxResults: values.maxResults,
+    propertyId: values.propertyId !== "none" ? Number(values.propertyId) : null,
+    cronExpression: values.schedule === CUSTOM_SCHEDULE ? values.customCron : values.schedule,
+    enabled: values.enabled,
+  };
+}
+
+type SavedSearchDialogProps = {
+  open: boolean;
+  search?: SavedSearch | null; // Editing when set
+  initialCriteria?: Partial<LeadFormData>; // Prefill when saving the lead form's current search
+  initialPropertyId?: number;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (search: SavedSearch) => void;
+};
+
+export function SavedSearchDialog({ open, search, initialCriteria, initialPropertyId, onOpenChange, onSaved }: SavedSearchDialogProps) {
+  const { toast } = useToast();
+
+  const { data: properties = [] } = useQuery<PropertyWithLeadCount[]>({
+    queryKey: ["/api/properties"],
+  });
+
+  const form = useForm<SavedSearchFormData>({
+    resolver: zodResolver(savedSearchFormSchema),
+    defaultValues: toFormValues(),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(search, initialCriteria, initialPropertyId));
+    }
+  }, [open, search, initialCriteria, initialPropertyId, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SavedSearchFormData) => {
+      const res = search
+        ? await apiRequest("PATCH", `/api/saved-searches/${search.id}`, toPayload(values))
+        : await apiRequest("POST", "/api/saved-searches", toPayload(values));
+      return (await res.json()) as SavedSearch;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: search ? "Saved Search Updated" : "Search Scheduled",
+        description: saved.enabled && saved.nextRunAt
+          ? `"${saved.name}" will next run ${new Date(saved.nextRunAt).toLocaleString()}.`
+          : `"${saved.name}" was saved and is paused.`,
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400")
+          ? "Check the search details and schedule, then try again."
+          : "Failed to save search.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const textField = (name: "name" | "businessType" | "targetLocation" | "squareFootage", label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const valuesField = (name: "additionalBusinessTypes" | "additionalTargetLocations", label: string, placeholder: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <SearchValuesTextarea value={field.value} onChange={field.onChange} placeholder={placeholder} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const schedule = form.watch("schedule");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{search ? "Edit Saved Search" : "Schedule Search"}</DialogTitle>
+          <DialogDescription>
+            Each scheduled run only saves businesses that are not already leads in this workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            {textField("name", "Name", "e.g., Medical near Domain")}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textField("businessType", "Business Type", "e.g., Medical")}
+              {textField("targetLocation", "Target Location", "e.g., Austin TX")}
+              {valuesField("additionalBusinessTypes", "Also Search For", "One business type per line")}
+              {valuesField("additionalTargetLocations", "Other Submarkets", "One location per line")}
+              {textField("squareFootage", "Square Footage", "e.g., 3000")}
+              <FormField
+                control={form.control}
+                name="radiusMiles"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Search Radius</FormLabel>
+                    <SearchRadiusSelect value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxResults"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Results per Run</FormLabel>
+                    <SearchResultCountSelect value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="features"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Property Features</FormLabel>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {propertyFeatures.map(feature => (
+                      <label key={feature} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(feature)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked ? [...field.value, feature] : field.value.filter(value => value !== feature)
+                          )}
+                        />
+                        {feature}
+                      </label>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="propertyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Property</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No specific property</SelectItem>
+                        {properties.map(property => (
+                          <SelectItem key={property.id} value={String(property.id)}>{property.address}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="schedule"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Schedule</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {schedulePresets.map(preset => (
+                          <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                        ))}
+                        <SelectItem value={CUSTOM_SCHEDULE}>Custom cron expression</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {schedule === CUSTOM_SCHEDULE && (
+              <FormField
+                control={form.control}
+                name="customCron"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cron Expression (UTC)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 30 1 * * 1-5" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Run on schedule</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-primary text-white hover:bg-blue-700"
+                disabled={saveMutation.isPending}
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {search ? "Save Changes" : "Schedule Search"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
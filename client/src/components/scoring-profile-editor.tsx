@@ -0,0 +1,294 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowRight, Loader2, Plus, X } from "lucide-react";
+import {
+  FitFactorKey,
+  InsertScoringProfile,
+  ScoringPreview,
+  ScoringProfile,
+  ScoringRule,
+  ScoringRuleField,
+  ScoringRuleOperator,
+  ScoringSettings,
+  fitFactorKeys,
+  fitFactorLabels,
+  scoringRuleFieldLabels,
+  scoringRuleFields,
+  scoringRuleNumberOperators,
+  scoringRuleOperatorLabels,
+  scoringRuleTextFields,
+  scoringRuleTextOperators,
+} from "@shared/schema";
+
+// Rule inputs hold strings; values and adjustments are converted when the profile is sent
+type RuleDraft = {
+  field: ScoringRuleField;
+  operator: ScoringRuleOperator;
+  value: string;
+  adjustment: string;
+};
+
+const isTextField = (field: ScoringRuleField) => (scoringRuleTextFields as readonly string[]).includes(field);
+
+const operatorsFor = (field: ScoringRuleField): readonly ScoringRuleOperator[] =>
+  isTextField(field) ? scoringRuleTextOperators : scoringRuleNumberOperators;
+
+function toRule(draft: RuleDraft): ScoringRule {
+  return {
+    field: draft.field,
+    operator: draft.operator,
+    value: isTextField(draft.field) ? draft.value.trim() : Number(draft.value),
+    adjustment: Number(draft.adjustment),
+  };
+}
+
+function isComplete(draft: RuleDraft): boolean {
+  const adjustment = Number(draft.adjustment);
+  const valueOk = isTextField(draft.field) ? !!draft.value.trim() : draft.value.trim() !== "" && !Number.isNaN(Number(draft.value));
+  return valueOk && Number.isInteger(adjustment) && adjustment !== 0 && Math.abs(adjustment) <= 100;
+}
+
+type ScoringProfileEditorProps = {
+  profile: ScoringProfile | null; // null for a new profile
+  initialSettings: ScoringSettings;
+  onCancel: () => void;
+  onSaved: () => void;
+};
+
+// Weights and rules for one profile, with the scores recent saved leads would get under them as they are edited
+export function ScoringProfileEditor({ profile, initialSettings, onCancel, onSaved }: ScoringProfileEditorProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(profile?.name ?? "");
+  const [isActive, setIsActive] = useState(profile?.isActive ?? false);
+  const [weights, setWeights] = useState<Record<FitFactorKey, number>>(profile?.weights ?? initialSettings.weights);
+  const [rules, setRules] = useState<RuleDraft[]>(
+    (profile?.rules ?? initialSettings.rules).map(rule => ({ ...rule, value: String(rule.value), adjustment: String(rule.adjustment) }))
+  );
+
+  // Rules still being filled in are left out of the preview
+  const draftSettings = useMemo<ScoringSettings>(() => ({ weights, rules: rules.filter(isComplete).map(toRule) }), [weights, rules]);
+  const settings = useDebounce(draftSettings, 400);
+  const hasWeight = fitFactorKeys.some(key => weights[key] > 0);
+
+  const { data: preview = [], isFetching: isPreviewing } = useQuery<ScoringPreview[]>({
+    queryKey: ["/api/scoring-profiles/preview", settings],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/scoring-profiles/preview", settings);
+      return await res.json();
+    },
+    enabled: fitFactorKeys.some(key => settings.weights[key] > 0),
+    placeholderData: (previous) => previous,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertScoringProfile) => {
+      const res = profile
+        ? await apiRequest("PATCH", `/api/scoring-profiles/${profile.id}`, data)
+        : await apiRequest("POST", "/api/scoring-profiles", data);
+      return (await res.json()) as ScoringProfile;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: "Profile Saved",
+        description: saved.isActive
+          ? `${saved.name} is active. Saved leads are being re-scored.`
+          : `${saved.name} was saved.`,
+      });
+      onSaved();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the scoring profile.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRules(current => current.map((rule, i) => {
+      if (i !== index) {
+        return rule;
+      }
+      const next = { ...rule, ...changes };
+      // A new field may not support the old comparison
+      if (changes.field && !operatorsFor(changes.field).includes(next.operator)) {
+        next.operator = operatorsFor(changes.field)[0];
+      }
+      return next;
+    }));
+  };
+
+  const weightTotal = fitFactorKeys.reduce((sum, key) => sum + weights[key], 0);
+  const canSave = !!name.trim() && hasWeight && rules.every(isComplete) && !saveMutation.isPending;
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-6">
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Profile Name</label>
+            <Input placeholder="e.g., Retail – foot traffic first" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+            <Switch checked={isActive} onCheckedChange={setIsActive} />
+            Use for this workspace
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Factor Weights</h3>
+              <div className="space-y-4">
+                {fitFactorKeys.map(key => (
+                  <div key={key}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-700">{fitFactorLabels[key]}</span>
+                      <span className="text-gray-500">
+                        {weights[key]} ({weightTotal > 0 ? Math.round(weights[key] / weightTotal * 100) : 0}% of score)
+                      </span>
+                    </div>
+                    <Slider
+                      value={[weights[key]]}
+                      min={0}
+                      max={100}
+                      step={5}
+                      onValueChange={([value]) => setWeights(current => ({ ...current, [key]: value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              {!hasWeight && <p className="mt-2 text-sm text-red-600">Give at least one factor a weight.</p>}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Rules</h3>
+              <div className="space-y-2">
+                {rules.map((rule, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <Select value={rule.field} onValueChange={(value) => updateRule(index, { field: value as ScoringRuleField })}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {scoringRuleFields.map(field => (
+                          <SelectItem key={field} value={field}>{scoringRuleFieldLabels[field]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={rule.operator} onValueChange={(value) => updateRule(index, { operator: value as ScoringRuleOperator })}>
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {operatorsFor(rule.field).map(operator => (
+                          <SelectItem key={operator} value={operator}>{scoringRuleOperatorLabels[operator]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="w-32"
+                      type={isTextField(rule.field) ? "text" : "number"}
+                      placeholder={isTextField(rule.field) ? "e.g., Medical" : "e.g., 3.5"}
+                      value={rule.value}
+                      onChange={(e) => updateRule(index, { value: e.target.value })}
+                    />
+                    <span className="text-sm text-gray-500">→</span>
+                    <Input
+                      className="w-20"
+                      type="number"
+                      placeholder="±pts"
+                      value={rule.adjustment}
+                      onChange={(e) => updateRule(index, { adjustment: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-1 h-8 w-8 text-red-600 hover:text-red-700"
+                      title="Remove rule"
+                      onClick={() => setRules(current => current.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                disabled={rules.length >= 25}
+                onClick={() => setRules(current => [...current, { field: "industry", operator: "contains", value: "", adjustment: "" }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add Rule
+              </Button>
+              <p className="mt-2 text-xs text-gray-500">
+                Rules add or take away points after weighting, e.g. "Industry contains Medical → 15" or "Google rating &lt; 3.5 → -20".
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-3">
+              Preview on Recent Saved Leads
+              {isPreviewing && <Loader2 className="h-3 w-3 animate-spin" />}
+            </h3>
+            {preview.length === 0 ? (
+              <p className="text-sm text-gray-500">No scored leads yet. Run a search to see how this profile ranks them.</p>
+            ) : (
+              <ul className="divide-y rounded-md border text-sm">
+                {preview.map(entry => {
+                  const change = entry.currentScore === null ? null : entry.previewScore - entry.currentScore;
+                  return (
+                    <li key={entry.leadId} className="px-3 py-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate text-gray-900">{entry.businessName}</span>
+                        <span className="flex items-center gap-1 whitespace-nowrap">
+                          <span className="text-gray-400">{entry.currentScore ?? "–"}</span>
+                          <ArrowRight className="h-3 w-3 text-gray-400" />
+                          <span className="font-semibold">{entry.previewScore}</span>
+                          {change !== null && change !== 0 && (
+                            <span className={`text-xs ${change > 0 ? "text-green-700" : "text-red-700"}`}>
+                              ({change > 0 ? "+" : ""}{change})
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      {entry.adjustments.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {entry.adjustments.map(adjustment => `${adjustment.rule} (${adjustment.points > 0 ? "+" : ""}${adjustment.points})`).join(" • ")}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate({ name: name.trim(), weights, rules: rules.map(toRule), isActive })}
+            disabled={!canSave}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Profile
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { searchRadiusOptions } from "@shared/schema";
+
+type SearchRadiusSelectProps = {
+  value?: number;
+  onChange: (radiusMiles: number | undefined) => void;
+};
+
+// Search by location name, or within a number of miles of the property (or of the target location)
+export function SearchRadiusSelect({ value, onChange }: SearchRadiusSelectProps) {
+  return (
+    <Select
+      value={value ? String(value) : "any"}
+      onValueChange={(selected) => onChange(selected === "any" ? undefined : Number(selected))}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="any">Anywhere in the target location</SelectItem>
+        {searchRadiusOptions.map(radius => (
+          <SelectItem key={radius} value={String(radius)}>Within {radius} mile{radius === 1 ? "" : "s"}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { defaultSearchResultCount, searchResultCountOptions } from "@shared/schema";
+
+type SearchResultCountSelectProps = {
+  value?: number;
+  onChange: (maxResults: number) => void;
+};
+
+// How many businesses a search turns into leads; larger counts take a few seconds longer while Google pages through
+export function SearchResultCountSelect({ value, onChange }: SearchResultCountSelectProps) {
+  return (
+    <Select
+      value={String(value ?? defaultSearchResultCount)}
+      onValueChange={(selected) => onChange(Number(selected))}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {searchResultCountOptions.map(count => (
+          <SelectItem key={count} value={String(count)}>Up to {count} businesses</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
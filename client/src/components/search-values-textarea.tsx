@@ -0,0 +1,19 @@
+import { Textarea } from "@/components/ui/textarea";
+
+type SearchValuesTextareaProps = {
+  value?: string[];
+  onChange: (values: string[]) => void;
+  placeholder?: string;
+};
+
+// Extra business types or target locations for a fan-out search, one per line; blank lines are dropped on submit
+export function SearchValuesTextarea({ value, onChange, placeholder }: SearchValuesTextareaProps) {
+  return (
+    <Textarea
+      rows={2}
+      placeholder={placeholder}
+      value={value?.join("\n") ?? ""}
+      onChange={(event) => onChange(event.target.value.split("\n"))}
+    />
+  );
+}
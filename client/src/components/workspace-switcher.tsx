@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { copyContact } from "@/lib/csvExport";
+import { Copy, Plus, UserPlus, Loader2 } from "lucide-react";
+import { WorkspaceWithRole } from "@shared/schema";
+
+const NEW_WORKSPACE_VALUE = "__new__";
+
+type InviteRole = "admin" | "broker" | "viewer";
+
+export function WorkspaceSwitcher() {
+  const { workspaces, activeWorkspace, switchWorkspace, can } = useWorkspace();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("broker");
+  const [inviteLink, setInviteLink] = useState("");
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/workspaces", { name });
+      return (await res.json()) as WorkspaceWithRole;
+    },
+    onSuccess: async (workspace) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      switchWorkspace(workspace.id);
+      setIsCreateOpen(false);
+      setNewWorkspaceName("");
+      toast({
+        title: "Workspace Created",
+        description: `Switched to ${workspace.name}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create workspace.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async (role: InviteRole) => {
+      const res = await apiRequest("POST", `/api/workspaces/${activeWorkspace!.id}/invites`, { role });
+      return (await res.json()) as { token: string };
+    },
+    onSuccess: ({ token }) => {
+      setInviteLink(`${window.location.origin}/invite/${token}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create invite link.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelect = (value: string) => {
+    if (value === NEW_WORKSPACE_VALUE) {
+      setIsCreateOpen(true);
+      return;
+    }
+    switchWorkspace(parseInt(value));
+  };
+
+  const openInviteDialog = () => {
+    setInviteLink("");
+    setInviteRole("broker");
+    setIsInviteOpen(true);
+  };
+
+  const handleCopyInvite = async () => {
+    try {
+      await copyContact(inviteLink);
+      toast({
+        title: "Invite Copied",
+        description: "Invite link copied to clipboard!",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy invite link to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!activeWorkspace) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={String(activeWorkspace.id)} onValueChange={handleSelect}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={String(workspace.id)}>
+              {workspace.name}
+              <span className="ml-1 text-xs text-gray-500 capitalize">({workspace.role})</span>
+            </SelectItem>
+          ))}
+          <SelectItem value={NEW_WORKSPACE_VALUE}>
+            <span className="flex items-center text-primary">
+              <Plus className="mr-1 h-3 w-3" />
+              New workspace
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      {can("manageMembers") && (
+        <Button variant="outline" size="sm" onClick={openInviteDialog}>
+          <UserPlus className="mr-1 h-4 w-4" />
+          Invite
+        </Button>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Workspace</DialogTitle>
+            <DialogDescription>
+              A workspace holds a shared pool of leads for your team.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="e.g., Downtown Retail Team"
+            value={newWorkspaceName}
+            onChange={(e) => setNewWorkspaceName(e.target.value)}
+          />
+          <DialogFooter>
+            <Button
+              onClick={() => createWorkspaceMutation.mutate(newWorkspaceName)}
+              disabled={!newWorkspaceName.trim() || createWorkspaceMutation.isPending}
+            >
+              {createWorkspaceMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite to {activeWorkspace.name}</DialogTitle>
+            <DialogDescription>
+              Generate a single-use link that is valid for 7 days.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InviteRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="admin">Admin – manage members and leads</SelectItem>
+                  <SelectItem value="broker">Broker – generate and export leads</SelectItem>
+                  <SelectItem value="viewer">Viewer – read-only access</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {inviteLink && (
+              <div className="flex items-center gap-2">
+                <Input readOnly value={inviteLink} className="text-xs" />
+                <Button variant="ghost" size="sm" onClick={handleCopyInvite}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => createInviteMutation.mutate(inviteRole)}
+              disabled={createInviteMutation.isPending}
+            >
+              {createInviteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Generate Link
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
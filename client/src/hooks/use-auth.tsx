@@ -0,0 +1,142 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { LoginData, SafeUser } from "@shared/schema";
+import { apiRequest, authHeaders, getAuthToken, setAuthToken, setActiveWorkspaceId, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthResponse = {
+  user: SafeUser;
+  token: string;
+};
+
+type AuthContextType = {
+  user: SafeUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthResponse, Error, LoginData>;
+  registerMutation: UseMutationResult<AuthResponse, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Server errors arrive as "<status>: <json body>" from apiRequest - surface just the message
+function describeAuthError(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details?.[0]?.message || parsed.error || body;
+  } catch {
+    return body;
+  }
+}
+
+async function fetchCurrentUser(): Promise<SafeUser | null> {
+  if (!getAuthToken()) {
+    return null;
+  }
+
+  const res = await fetch("/api/auth/me", { headers: authHeaders() });
+
+  // An expired or revoked token means the user must sign in again
+  if (res.status === 401 || res.status === 403) {
+    setAuthToken(null);
+    return null;
+  }
+
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${res.statusText}`);
+  }
+
+  return await res.json();
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<SafeUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: fetchCurrentUser,
+  });
+
+  const onAuthenticated = ({ user, token }: AuthResponse) => {
+    setAuthToken(token);
+    setActiveWorkspaceId(null);
+    // Drop anything cached for a previous session before showing the new user's data
+    queryClient.clear();
+    queryClient.setQueryData(["/api/auth/me"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as AuthResponse;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: describeAuthError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return (await res.json()) as AuthResponse;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: describeAuthError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        await apiRequest("POST", "/api/auth/logout");
+      } finally {
+        // Always forget the token locally, even if the server call fails
+        setAuthToken(null);
+        setActiveWorkspaceId(null);
+      }
+    },
+    onSettled: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+// Where to send the user after signing in - only same-origin paths are honoured
+export function getPostLoginPath(search: string): string {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Returns `value` once it has stopped changing for `delay` ms - keeps typing from firing a request per keystroke
+export function useDebounce<T>(value: T, delay: number = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
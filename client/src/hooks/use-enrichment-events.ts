@@ -0,0 +1,118 @@
+import { useEffect, useRef } from "react";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { authHeaders, queryClient } from "@/lib/queryClient";
+import type { LeadEnrichmentEvent, LeadListResponse, LeadMapResponse, LeadWithEnrichments } from "@shared/schema";
+
+const RECONNECT_DELAY_MS = 5 * 1000;
+// Events arriving within this long of the first one share a single refresh of run counts and credit usage
+const REFRESH_DELAY_MS = 10 * 1000;
+
+// Swap the enriched lead into every cached lead list and map without refetching them
+function patchCachedLeads(lead: LeadWithEnrichments): void {
+  queryClient.setQueriesData({ queryKey: ["/api/leads"] }, (data: unknown) => {
+    if (data && typeof data === "object" && "leads" in data) {
+      const list = data as LeadListResponse;
+      return list.leads.some(cached => cached.id === lead.id)
+        ? { ...list, leads: list.leads.map(cached => cached.id === lead.id ? { ...cached, ...lead } : cached) }
+        : data;
+    }
+    if (data && typeof data === "object" && "points" in data) {
+      const map = data as LeadMapResponse;
+      return map.points.some(point => point.id === lead.id)
+        ? { ...map, points: map.points.map(point => point.id === lead.id ? { ...point, fitScore: lead.fitScore } : point) }
+        : data;
+    }
+    return data;
+  });
+}
+
+// Listen for background enrichment results on /api/enrichment/events. EventSource cannot send the bearer token,
+// so the stream is read through fetch. Cached leads are patched from each event; the lead's contacts and other
+// details are refetched, and search run counts and credit usage once per burst of events, so a batch of enrichments
+// does not use up the API rate limit.
+export function useEnrichmentEvents(onEvent?: (event: LeadEnrichmentEvent) => void): void {
+  const { activeWorkspace } = useWorkspace();
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const workspaceId = activeWorkspace?.id;
+
+  useEffect(() => {
+    if (!workspaceId) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleRefresh = () => {
+      if (refreshTimer) {
+        return;
+      }
+      refreshTimer = setTimeout(() => {
+        refreshTimer = undefined;
+        queryClient.invalidateQueries({ queryKey: ["/api/search-runs"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/enrichment/usage"] });
+      }, REFRESH_DELAY_MS);
+    };
+
+    const handleMessage = (message: string) => {
+      const data = message
+        .split("\n")
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trimStart())
+        .join("\n");
+      if (!data) {
+        return; // Comment or heartbeat
+      }
+
+      const event: LeadEnrichmentEvent = JSON.parse(data);
+      patchCachedLeads(event.lead);
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", event.leadId] });
+      scheduleRefresh();
+      onEventRef.current?.(event);
+    };
+
+    const connect = async () => {
+      try {
+        const res = await fetch("/api/enrichment/events", {
+          headers: authHeaders(),
+          credentials: "include",
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) {
+          throw new Error(`${res.status}: ${res.statusText}`);
+        }
+
+        const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = "";
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) {
+            break;
+          }
+          buffer += value;
+          const messages = buffer.split("\n\n");
+          buffer = messages.pop() ?? "";
+          messages.forEach(handleMessage);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.warn("Enrichment event stream interrupted:", error);
+      }
+
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+      clearTimeout(refreshTimer);
+    };
+  }, [workspaceId]);
+}
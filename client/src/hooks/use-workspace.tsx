@@ -0,0 +1,69 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { WorkspaceWithRole, WorkspacePermission, hasPermission } from "@shared/schema";
+import { getActiveWorkspaceId, setActiveWorkspaceId, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+type WorkspaceContextType = {
+  workspaces: WorkspaceWithRole[];
+  activeWorkspace: WorkspaceWithRole | null;
+  isLoading: boolean;
+  switchWorkspace: (workspaceId: number) => void;
+  can: (permission: WorkspacePermission) => boolean;
+};
+
+const WorkspaceContext = createContext<WorkspaceContextType | null>(null);
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [activeId, setActiveId] = useState<number | null>(getActiveWorkspaceId);
+
+  const { data: workspaces = [], isLoading } = useQuery<WorkspaceWithRole[]>({
+    queryKey: ["/api/workspaces"],
+    enabled: !!user,
+  });
+
+  // Fall back to the first workspace when nothing is selected or the stored one is no longer available
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeId) ?? workspaces[0] ?? null;
+
+  useEffect(() => {
+    if (activeWorkspace && activeWorkspace.id !== activeId) {
+      setActiveWorkspaceId(activeWorkspace.id);
+      setActiveId(activeWorkspace.id);
+    }
+  }, [activeWorkspace, activeId]);
+
+  const switchWorkspace = (workspaceId: number) => {
+    setActiveWorkspaceId(workspaceId);
+    setActiveId(workspaceId);
+    // Everything except the account and workspace list belongs to the previous workspace
+    queryClient.removeQueries({
+      predicate: (query) => query.queryKey[0] !== "/api/auth/me" && query.queryKey[0] !== "/api/workspaces",
+    });
+  };
+
+  const can = (permission: WorkspacePermission) =>
+    !!activeWorkspace && hasPermission(activeWorkspace.role, permission);
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        activeWorkspace,
+        isLoading,
+        switchWorkspace,
+        can,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("useWorkspace must be used within a WorkspaceProvider");
+  }
+  return context;
+}
@@ -1,4 +1,5 @@
 import { TenantLead } from "@shared/schema";
+import { authHeaders } from "@/lib/queryClient";
 
 export function exportToCSV(leads: TenantLead[]): void {
   const csvContent = [
@@ -24,6 +25,23 @@ export function exportToCSV(leads: TenantLead[]): void {
   window.URL.revokeObjectURL(url);
 }
 
+// Export the active workspace's saved leads matching `params`; the server checks the caller's export permission
+export async function downloadSavedLeadsCSV(params?: URLSearchParams): Promise<void> {
+  const query = params?.toString();
+  const response = await fetch(`/api/leads/export${query ? `?${query}` : ''}`, { headers: authHeaders() });
+  if (!response.ok) {
+    throw new Error(`Failed to export leads: ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'reva-saved-leads.csv';
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
 export function copyAllLeads(leads: TenantLead[]): Promise<void> {
   let leadsText = 'REVA Generated Leads:\n\n';
   leads.forEach((lead, index) => {
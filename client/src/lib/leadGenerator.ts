@@ -1,4 +1,4 @@
-import { TenantLead, LeadFormData, InsertLead } from "@shared/schema";
+import { TenantLead, LeadFormData } from "@shared/schema";
 
 // Extended mock data for database insertion with real emails for PDL testing
 const mockBusinessDataForDB = [
@@ -121,36 +121,3 @@ export function generateLeads(formData: LeadFormData): Promise<TenantLead[]> {
     }, 1500);
   });
 }
-
-export async function generateLeadsForDatabase(formData: LeadFormData): Promise<InsertLead[]> {
-  try {
-    // Call the server endpoint to get real business data from Google Places
-    const response = await fetch('/api/search-businesses', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(formData),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to search businesses: ${response.statusText}`);
-    }
-
-    const realBusinesses = await response.json();
-    
-    if (realBusinesses.length === 0) {
-      console.warn('No real businesses found, using fallback mock data');
-      // Fallback to mock data if no real businesses found
-      const shuffled = mockBusinessDataForDB.sort(() => 0.5 - Math.random());
-      return shuffled.slice(0, 3); // Reduced fallback count
-    }
-
-    return realBusinesses;
-  } catch (error) {
-    console.error('Error fetching real business data:', error);
-    // Fallback to mock data on error
-    const shuffled = mockBusinessDataForDB.sort(() => 0.5 - Math.random());
-    return shuffled.slice(0, 3); // Reduced fallback count
-  }
-}
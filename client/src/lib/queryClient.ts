@@ -1,5 +1,47 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const AUTH_STORAGE_KEY = "reva_auth_token";
+const WORKSPACE_STORAGE_KEY = "reva_workspace_id";
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(AUTH_STORAGE_KEY);
+}
+
+export function setAuthToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(AUTH_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+  }
+}
+
+export function getActiveWorkspaceId(): number | null {
+  const stored = localStorage.getItem(WORKSPACE_STORAGE_KEY);
+  return stored ? parseInt(stored) : null;
+}
+
+export function setActiveWorkspaceId(workspaceId: number | null): void {
+  if (workspaceId) {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, String(workspaceId));
+  } else {
+    localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+  }
+}
+
+// Attach the JWT issued at login and the selected workspace to every API call
+export function authHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const token = getAuthToken();
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  const workspaceId = getActiveWorkspaceId();
+  if (workspaceId) {
+    headers["X-Workspace-Id"] = String(workspaceId);
+  }
+  return headers;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -14,7 +56,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...authHeaders(),
+      ...(data ? { "Content-Type": "application/json" } : {}),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +75,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: authHeaders(),
       credentials: "include",
     });
 
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AppHeader } from "@/components/app-header";
+import { BusinessCategoryDialog } from "@/components/business-category-dialog";
+import { PlaceTypeIndustryDialog } from "@/components/place-type-industry-dialog";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { BusinessCategory, BusinessTaxonomyResponse, PlaceTypeIndustry } from "@shared/schema";
+
+type PendingDelete =
+  | { kind: "category"; entry: BusinessCategory }
+  | { kind: "industry"; entry: PlaceTypeIndustry };
+
+export default function BusinessTypes() {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [editingCategory, setEditingCategory] = useState<BusinessCategory | "new" | null>(null);
+  const [editingIndustry, setEditingIndustry] = useState<PlaceTypeIndustry | "new" | null>(null);
+  const [deleting, setDeleting] = useState<PendingDelete | null>(null);
+  const canManage = can("manageMembers");
+
+  const { data, isLoading, isError } = useQuery<BusinessTaxonomyResponse>({
+    queryKey: ["/api/business-taxonomy"],
+  });
+
+  // Also refreshes the Business Type autocomplete, whose queries are keyed under the taxonomy
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/business-taxonomy"] });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (pending: PendingDelete) => {
+      await apiRequest("DELETE", `/api/business-taxonomy/${pending.kind === "category" ? "categories" : "industries"}/${pending.entry.id}`);
+      return pending;
+    },
+    onSuccess: (pending) => {
+      refresh();
+      toast({
+        title: pending.kind === "category" ? "Business Type Deleted" : "Industry Deleted",
+        description: pending.kind === "category"
+          ? `${pending.entry.name} was removed. Existing leads keep their industry.`
+          : `${pending.entry.placeType} no longer has an industry of its own.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete the taxonomy entry.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actions = (onEdit: () => void, onDelete: () => void, label: string) => (
+    <div className="flex items-center justify-end gap-1">
+      <Button variant="ghost" size="sm" className="p-1 h-8 w-8" title={`Edit ${label}`} onClick={onEdit}>
+        <Pencil className="h-3 w-3" />
+      </Button>
+      <Button variant="ghost" size="sm" className="p-1 h-8 w-8 text-red-600 hover:text-red-700" title={`Delete ${label}`} onClick={onDelete}>
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-neutral">
+      <AppHeader />
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Business Types</h1>
+          <p className="text-sm text-gray-500">
+            What each business type brokers search for means on Google, and the industry shown on new leads. Changes apply to new searches.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+            <p className="mt-4 text-gray-600">Loading business types...</p>
+          </div>
+        ) : isError || !data ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Failed to load business types.</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">Categories</h2>
+                    <p className="text-sm text-gray-500">Searches for a name or synonym look for businesses with any of the place types.</p>
+                  </div>
+                  {canManage && (
+                    <Button className="bg-primary text-white hover:bg-blue-700" onClick={() => setEditingCategory("new")}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Business Type
+                    </Button>
+                  )}
+                </div>
+
+                {data.categories.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-6">
+                    No business types. Every search will look at all kinds of businesses.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Synonyms</TableHead>
+                        <TableHead>Google Place Types</TableHead>
+                        <TableHead>Features Needed</TableHead>
+                        {canManage && <TableHead className="w-24" />}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.categories.map(category => (
+                        <TableRow key={category.id}>
+                          <TableCell className="font-medium whitespace-nowrap">{category.name}</TableCell>
+                          <TableCell className="text-sm text-gray-600">{category.synonyms.join(", ") || "—"}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {category.placeTypes.map(type => (
+                                <Badge key={type} variant="secondary" className="font-mono text-xs">{type}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">{category.valuedFeatures.join(", ") || "—"}</TableCell>
+                          {canManage && (
+                            <TableCell>
+                              {actions(
+                                () => setEditingCategory(category),
+                                () => setDeleting({ kind: "category", entry: category }),
+                                category.name,
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">Industries</h2>
+                    <p className="text-sm text-gray-500">
+                      A lead's industry comes from the first of its place types listed here, or is Professional Services.
+                    </p>
+                  </div>
+                  {canManage && (
+                    <Button variant="outline" onClick={() => setEditingIndustry("new")}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Industry
+                    </Button>
+                  )}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Google Place Type</TableHead>
+                      <TableHead>Industry</TableHead>
+                      {canManage && <TableHead className="w-24" />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.industries.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-mono text-sm">{entry.placeType}</TableCell>
+                        <TableCell>{entry.industry}</TableCell>
+                        {canManage && (
+                          <TableCell>
+                            {actions(
+                              () => setEditingIndustry(entry),
+                              () => setDeleting({ kind: "industry", entry }),
+                              entry.placeType,
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      <BusinessCategoryDialog
+        open={!!editingCategory}
+        category={editingCategory === "new" ? null : editingCategory}
+        onOpenChange={(open) => !open && setEditingCategory(null)}
+        onSaved={refresh}
+      />
+
+      <PlaceTypeIndustryDialog
+        open={!!editingIndustry}
+        entry={editingIndustry === "new" ? null : editingIndustry}
+        onOpenChange={(open) => !open && setEditingIndustry(null)}
+        onSaved={refresh}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{deleting?.kind === "category" ? "Delete this business type?" : "Delete this industry?"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.kind === "category"
+                ? `Searches for ${deleting.entry.name} or its synonyms will look at all kinds of businesses.`
+                : `Leads listed as ${deleting?.entry.placeType} will take the industry of their next place type.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,31 +1,77 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { CheckCircle, Search, Copy, Download, Mail, Loader2, Check, Phone, User, Briefcase, Linkedin, Building2, Globe } from "lucide-react";
-import { LeadFormData, TenantLead, Lead, leadFormSchema, propertyFeatures } from "@shared/schema";
-import { generateLeads, generateLeadsForDatabase } from "@/lib/leadGenerator";
+import { CheckCircle, Search, Copy, Download, Mail, Loader2, Check, Phone, User, Briefcase, Linkedin, Building2, Globe, CalendarClock } from "lucide-react";
+import { LeadFormData, LeadWithEnrichments, PropertyWithLeadCount, SearchRunResult, TenantLead, describeFoundBy, enrichmentSourceLabels, leadFormSchema, maxSearchBusinessTypes, maxSearchLocations, propertyFeatures } from "@shared/schema";
 import { exportToCSV, copyAllLeads, copyContact } from "@/lib/csvExport";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useEnrichmentEvents } from "@/hooks/use-enrichment-events";
+import { AppHeader } from "@/components/app-header";
+import { SavedLeads } from "@/components/saved-leads";
+import { SavedSearchDialog } from "@/components/saved-search-dialog";
+import { CompanySummary } from "@/components/company-summary";
+import { FitScoreBadge } from "@/components/fit-score-badge";
+import { LeadRationale } from "@/components/lead-rationale";
+import { FieldSource } from "@/components/field-source";
+import { SearchRadiusSelect } from "@/components/search-radius-select";
+import { SearchResultCountSelect } from "@/components/search-result-count-select";
+import { SearchValuesTextarea } from "@/components/search-values-textarea";
+import { BusinessTypeInput } from "@/components/business-type-input";
+
+// Convert a saved lead to the card format shown for the latest search
+function toDisplayLead(lead: LeadWithEnrichments): TenantLead {
+  return {
+    id: lead.id,
+    name: lead.businessName,
+    industry: lead.industry,
+    reasoning: lead.rationale,
+    contact: lead.phone || lead.email, // Prioritize phone if available
+    isEnriched: lead.isEnriched ?? false,
+    phone: lead.phone ?? undefined,
+    enrichedName: lead.enrichedName ?? undefined,
+    title: lead.title ?? undefined,
+    linkedinUrl: lead.linkedinUrl ?? undefined,
+    sources: Object.fromEntries(lead.enrichments.map(entry => [entry.field, { source: entry.source, confidence: entry.confidence }])),
+    company: lead.company,
+    enrichmentStatus: lead.enrichmentStatus,
+    fitScore: lead.fitScore,
+    fitFactors: lead.fitFactors,
+    fitAdjustments: lead.fitAdjustments,
+    rationaleClaims: lead.rationaleClaims,
+    distanceMiles: lead.distanceMiles,
+    foundBy: lead.foundBy,
+  };
+}
 
 export default function Home() {
   const [leads, setLeads] = useState<TenantLead[]>([]);
-  const [savedLeads, setSavedLeads] = useState<Lead[]>([]);
-  const [filteredLeads, setFilteredLeads] = useState<Lead[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingSaved, setIsLoadingSaved] = useState(false);
   const [showSavedLeads, setShowSavedLeads] = useState(false);
   const [copyAllStatus, setCopyAllStatus] = useState<'idle' | 'success'>('idle');
-  const [filters, setFilters] = useState({
-    industry: '',
-    contactName: '',
-    keywords: ''
-  });
   const { toast } = useToast();
+  const { activeWorkspace, can } = useWorkspace();
+  const search = useSearch();
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string>("none");
+  const [scheduleCriteria, setScheduleCriteria] = useState<LeadFormData | null>(null);
+
+  // Cards fill in as the enrichment queue finishes each lead
+  useEnrichmentEvents((event) => {
+    setLeads(current => current.map(lead => lead.id === event.leadId ? toDisplayLead(event.lead) : lead));
+  });
+
+  const { data: properties = [] } = useQuery<PropertyWithLeadCount[]>({
+    queryKey: ["/api/properties"],
+  });
 
   const form = useForm<LeadFormData>({
     resolver: zodResolver(leadFormSchema),
@@ -37,53 +83,69 @@ export default function Home() {
     },
   });
 
+  // Generating "for a property" fills the search from the listing; the fields stay editable
+  const selectProperty = (value: string) => {
+    setSelectedPropertyId(value);
+    const property = properties.find(item => String(item.id) === value);
+    if (property) {
+      form.setValue("targetLocation", property.address, { shouldValidate: true });
+      form.setValue("squareFootage", String(property.squareFootage), { shouldValidate: true });
+      form.setValue("features", property.features);
+    }
+  };
+
+  // Arriving from the properties page with ?propertyId=... preselects that listing
+  const requestedPropertyId = new URLSearchParams(search).get("propertyId");
+  useEffect(() => {
+    if (requestedPropertyId && properties.some(item => String(item.id) === requestedPropertyId)) {
+      selectProperty(requestedPropertyId);
+    }
+  }, [requestedPropertyId, properties]);
+
   const onSubmit = async (data: LeadFormData) => {
     setIsLoading(true);
     try {
       console.log("🎯 Starting unified lead generation with PDL enrichment...");
-      
-      // Generate leads for database insertion (with extended fields)
-      const leadsForDB = await generateLeadsForDatabase(data);
-      
-      // Save leads to database AND get PDL-enriched results back
-      const response = await fetch("/api/leads", {
-        method: "POST",
-        body: JSON.stringify(leadsForDB),
-        headers: {
-          "Content-Type": "application/json",
-        },
+
+      // The server searches and saves the leads as one recorded search run, then enriches them in the background
+      const response = await apiRequest("POST", "/api/search-runs", {
+        ...data,
+        propertyId: selectedPropertyId !== "none" ? Number(selectedPropertyId) : undefined,
       });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to save leads: ${response.statusText}`);
-      }
-      
-      // Get the enriched leads back from the server
-      const enrichedLeads = await response.json();
-      console.log(`✅ Received ${enrichedLeads.length} enriched leads from server`);
+
+      // Get the saved leads back from the server; enrichment results follow over the event stream
+      const { run, leads: savedLeads }: SearchRunResult = await response.json();
+      console.log(`✅ Search run ${run.id} returned ${savedLeads.length} leads from server`);
       
       // Convert database leads to display format for immediate showing
-      const displayLeads = enrichedLeads.map((lead: any, index: number) => ({
-        id: `lead-${Date.now()}-${index}`,
-        name: lead.businessName,
-        industry: lead.industry,
-        reasoning: lead.rationale,
-        contact: lead.phone || lead.email, // Prioritize phone if available
-        isEnriched: lead.isEnriched,
-        phone: lead.phone,
-        enrichedName: lead.enrichedName,
-        title: lead.title,
-        linkedinUrl: lead.linkedinUrl
-      }));
+      const displayLeads = savedLeads.map(toDisplayLead);
       
       setLeads(displayLeads);
-      console.log(`📱 Displaying ${displayLeads.length} leads with ${displayLeads.filter((lead: any) => lead.isEnriched).length} enhanced by PDL`);
+      if (run.duplicatesSkipped > 0 || run.closedSkipped > 0 || run.detailErrors > 0) {
+        const skipped = [
+          run.duplicatesSkipped > 0 && `${run.duplicatesSkipped} matched leads this workspace already had`,
+          run.closedSkipped > 0 && `${run.closedSkipped} had closed permanently`,
+          run.detailErrors > 0 && `${run.detailErrors} couldn't be looked up`,
+        ].filter(Boolean);
+        toast({
+          title: "Some Businesses Skipped",
+          description: `${run.leadsSaved} new lead${run.leadsSaved === 1 ? "" : "s"} saved; ${skipped.join(", ")}.`,
+        });
+      }
+      // Newly saved leads change every saved-leads page
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search-runs"] });
+      console.log(`📱 Displaying ${displayLeads.length} leads with ${displayLeads.filter(lead => lead.isEnriched).length} enriched`);
       
     } catch (error) {
       console.error("Error generating or saving leads:", error);
+      const notFound = error instanceof Error && error.message.startsWith("400") && data.radiusMiles !== undefined;
       toast({
         title: "Error",
-        description: "Failed to generate leads. Please try again.",
+        description: notFound
+          ? "Couldn't find that location to search around. Try a fuller address or city and state, or search without a radius."
+          : "Failed to generate leads. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -91,6 +153,9 @@ export default function Home() {
     }
   };
 
+  // A search over several business types or locations says which of them found each lead
+  const fannedOut = new Set(leads.flatMap(lead => (lead.foundBy ?? []).map(match => `${match.businessType}|${match.location}`))).size > 1;
+
   const handleCopyAll = async () => {
     try {
       await copyAllLeads(leads);
@@ -141,91 +206,16 @@ export default function Home() {
     }
   };
 
-  const fetchSavedLeads = async () => {
-    setIsLoadingSaved(true);
-    try {
-      const response = await fetch("/api/leads");
-      if (!response.ok) {
-        throw new Error(`Failed to fetch leads: ${response.statusText}`);
-      }
-      const data = await response.json();
-      // Handle both old array format and new paginated format
-      const leads = Array.isArray(data) ? data : data.leads || [];
-      setSavedLeads(leads);
-      setFilteredLeads(leads);
-      setShowSavedLeads(true);
-      toast({
-        title: "Success",
-        description: `Loaded ${leads.length} saved leads from database.`,
-      });
-    } catch (error) {
-      console.error("Error fetching saved leads:", error);
-      toast({
-        title: "Error",
-        description: "Failed to load saved leads from database.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoadingSaved(false);
-    }
-  };
-
-  const applyFilters = () => {
-    let filtered = savedLeads;
-
-    if (filters.industry) {
-      filtered = filtered.filter(lead => 
-        lead.industry.toLowerCase().includes(filters.industry.toLowerCase())
-      );
-    }
-
-    if (filters.contactName) {
-      filtered = filtered.filter(lead => 
-        lead.contactName.toLowerCase().includes(filters.contactName.toLowerCase())
-      );
-    }
-
-    if (filters.keywords) {
-      filtered = filtered.filter(lead => 
-        lead.rationale.toLowerCase().includes(filters.keywords.toLowerCase())
-      );
-    }
-
-    setFilteredLeads(filtered);
-  };
-
-  const clearFilters = () => {
-    setFilters({
-      industry: '',
-      contactName: '',
-      keywords: ''
-    });
-    setFilteredLeads(savedLeads);
-  };
-
-  // Apply filters whenever filters change
+  // Saved leads belong to the active workspace, so hide the previous workspace's list on switch
   useEffect(() => {
-    applyFilters();
-  }, [filters, savedLeads]); // eslint-disable-line react-hooks/exhaustive-deps
+    setShowSavedLeads(false);
+    setLeads([]);
+    setSelectedPropertyId("none");
+  }, [activeWorkspace?.id]);
 
   return (
     <div className="min-h-screen bg-neutral">
-      {/* Header */}
-      <header className="bg-white shadow-sm border-b">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center py-4">
-            <div className="flex items-center">
-              <div className="text-2xl font-bold text-primary">REVA</div>
-              <div className="ml-2 text-sm text-secondary">Real Estate Virtual Assistant</div>
-            </div>
-            <nav className="hidden md:flex space-x-8">
-              <a href="#" className="text-secondary hover:text-primary transition-colors">Features</a>
-              <a href="#" className="text-secondary hover:text-primary transition-colors">Pricing</a>
-              <a href="#" className="text-secondary hover:text-primary transition-colors">Contact</a>
-            </nav>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       {/* Hero Section */}
       <section className="bg-gradient-primary text-white py-16">
@@ -255,6 +245,11 @@ export default function Home() {
         <Card className="mb-8">
           <CardContent className="p-8">
             <h2 className="text-2xl font-semibold text-gray-900 mb-6">Find Your Perfect Commercial Tenants</h2>
+            {!can("generate") && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 text-sm text-yellow-800">
+                You have view-only access to this workspace. Ask a workspace admin to upgrade your role to generate or export leads.
+              </div>
+            )}
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
               <div className="flex items-center gap-2 text-blue-800">
                 <Phone className="h-4 w-4" />
@@ -267,6 +262,26 @@ export default function Home() {
             
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {properties.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Generate For Property</label>
+                    <Select value={selectedPropertyId} onValueChange={selectProperty}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No specific property</SelectItem>
+                        {properties.map(property => (
+                          <SelectItem key={property.id} value={String(property.id)}>
+                            {property.address} ({property.squareFootage.toLocaleString()} SF)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">Saved leads will be linked to the selected listing.</p>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <FormField
                     control={form.control}
@@ -275,7 +290,7 @@ export default function Home() {
                       <FormItem>
                         <FormLabel>Business Type</FormLabel>
                         <FormControl>
-                          <Input placeholder="e.g., Restaurant, Retail Store, Office" {...field} />
+                          <BusinessTypeInput placeholder="e.g., Restaurant, Coffee Shop, Medical Office" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -295,21 +310,77 @@ export default function Home() {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="additionalBusinessTypes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Also Search For</FormLabel>
+                        <FormControl>
+                          <SearchValuesTextarea value={field.value} onChange={field.onChange} placeholder={"One business type per line, e.g.\nDentist"} />
+                        </FormControl>
+                        <p className="text-xs text-gray-500">Up to {maxSearchBusinessTypes - 1} more business types.</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="additionalTargetLocations"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Other Submarkets</FormLabel>
+                        <FormControl>
+                          <SearchValuesTextarea value={field.value} onChange={field.onChange} placeholder={"One location per line, e.g.\nCapitol Hill, Seattle"} />
+                        </FormControl>
+                        <p className="text-xs text-gray-500">Up to {maxSearchLocations - 1} more locations, each searched for every business type.</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
                 
-                <FormField
-                  control={form.control}
-                  name="squareFootage"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Desired Square Footage</FormLabel>
-                      <FormControl>
-                        <Input placeholder="e.g., 1500, 2000-3000, 5000+" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="squareFootage"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Desired Square Footage</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., 1500, 2000-3000, 5000+" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="radiusMiles"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Search Radius</FormLabel>
+                        <SearchRadiusSelect value={field.value} onChange={field.onChange} />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="maxResults"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Results</FormLabel>
+                        <SearchResultCountSelect value={field.value} onChange={field.onChange} />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
                 
                 <FormField
                   control={form.control}
@@ -361,7 +432,7 @@ export default function Home() {
                   <Button 
                     type="submit" 
                     className="bg-primary text-white px-8 py-3 font-medium hover:bg-blue-700 w-full sm:w-auto"
-                    disabled={isLoading}
+                    disabled={isLoading || !can("generate")}
                   >
                     {isLoading ? (
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -373,27 +444,35 @@ export default function Home() {
                   <Button 
                     type="button"
                     variant="outline"
-                    onClick={() => form.reset()}
+                    onClick={() => {
+                      form.reset();
+                      setSelectedPropertyId("none");
+                    }}
                     className="w-full sm:w-auto"
                     disabled={isLoading}
                   >
                     Clear Form
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={form.handleSubmit((values) => setScheduleCriteria(values))}
+                    className="w-full sm:w-auto"
+                    disabled={isLoading || !can("generate")}
+                  >
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                    Schedule This Search
+                  </Button>
                 </div>
                 
                 <div className="flex justify-center mt-4">
                   <Button 
                     type="button"
                     variant="secondary"
-                    onClick={fetchSavedLeads}
+                    onClick={() => setShowSavedLeads(true)}
                     className="bg-gray-100 text-gray-700 hover:bg-gray-200"
-                    disabled={isLoadingSaved}
                   >
-                    {isLoadingSaved ? (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    ) : (
-                      <Search className="mr-2 h-4 w-4" />
-                    )}
+                    <Search className="mr-2 h-4 w-4" />
                     View Saved Leads
                   </Button>
                 </div>
@@ -420,27 +499,29 @@ export default function Home() {
             <CardContent className="p-8">
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
                 <h2 className="text-2xl font-semibold text-gray-900">🎯 Suggested Tenants for Your Property</h2>
-                <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4 w-full sm:w-auto">
-                  <Button 
-                    onClick={handleCopyAll}
-                    variant="secondary"
-                    className="bg-gray-600 text-white hover:bg-gray-700 w-full sm:w-auto"
-                  >
-                    {copyAllStatus === 'success' ? (
-                      <Check className="mr-2 h-4 w-4" />
-                    ) : (
-                      <Copy className="mr-2 h-4 w-4" />
-                    )}
-                    {copyAllStatus === 'success' ? 'Copied!' : 'Copy All Leads'}
-                  </Button>
-                  <Button 
-                    onClick={handleDownloadCSV}
-                    className="bg-accent text-white hover:bg-green-600 w-full sm:w-auto"
-                  >
-                    <Download className="mr-2 h-4 w-4" />
-                    Download as CSV
-                  </Button>
-                </div>
+                {can("export") && (
+                  <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4 w-full sm:w-auto">
+                    <Button 
+                      onClick={handleCopyAll}
+                      variant="secondary"
+                      className="bg-gray-600 text-white hover:bg-gray-700 w-full sm:w-auto"
+                    >
+                      {copyAllStatus === 'success' ? (
+                        <Check className="mr-2 h-4 w-4" />
+                      ) : (
+                        <Copy className="mr-2 h-4 w-4" />
+                      )}
+                      {copyAllStatus === 'success' ? 'Copied!' : 'Copy All Leads'}
+                    </Button>
+                    <Button 
+                      onClick={handleDownloadCSV}
+                      className="bg-accent text-white hover:bg-green-600 w-full sm:w-auto"
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Download as CSV
+                    </Button>
+                  </div>
+                )}
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -451,15 +532,29 @@ export default function Home() {
                         <h3 className="text-lg font-bold text-gray-900">{lead.name}</h3>
                         {lead.isEnriched && (
                           <span className="bg-blue-600 text-white px-2 py-1 rounded-full text-xs font-medium">
-                            ✨ PDL Enhanced
+                            ✨ Enhanced
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <FitScoreBadge score={lead.fitScore} factors={lead.fitFactors} adjustments={lead.fitAdjustments} />
+                        {lead.distanceMiles != null && (
+                          <span className="text-sm text-gray-600 whitespace-nowrap" title="Distance from the search centre">
+                            {lead.distanceMiles} mi
                           </span>
                         )}
+                        <span className="bg-primary text-white px-3 py-1 rounded-full text-sm whitespace-nowrap">
+                          {lead.industry}
+                        </span>
                       </div>
-                      <span className="bg-primary text-white px-3 py-1 rounded-full text-sm whitespace-nowrap">
-                        {lead.industry}
-                      </span>
                     </div>
-                    <p className="text-gray-600 mb-4">{lead.reasoning}</p>
+                    {fannedOut && lead.foundBy && (
+                      <p className="text-xs text-gray-500 -mt-2 mb-3">
+                        Found by: {describeFoundBy(lead.foundBy)}
+                      </p>
+                    )}
+                    <LeadRationale rationale={lead.reasoning} claims={lead.rationaleClaims} className="mb-4" />
+                    <CompanySummary company={lead.company} />
                     
                     {/* Enhanced contact information */}
                     <div className="space-y-2 mb-4">
@@ -470,11 +565,15 @@ export default function Home() {
                             <User className="h-4 w-4 text-gray-500" />
                             <span className="font-medium text-gray-700">
                               {lead.enrichedName}
-                              {lead.title && (
-                                <span className="text-gray-500 ml-1">• {lead.title}</span>
-                              )}
                             </span>
+                            <FieldSource provenance={lead.sources?.enrichedName} />
                           </div>
+                          {lead.title && (
+                            <div className="flex items-center gap-2 ml-6 text-gray-500">
+                              {lead.title}
+                              <FieldSource provenance={lead.sources?.title} />
+                            </div>
+                          )}
                         </div>
                       )}
 
@@ -485,6 +584,7 @@ export default function Home() {
                             <Phone className="h-4 w-4 text-green-600" />
                             <span className="font-medium text-gray-700">Phone:</span>
                             <span className="text-gray-600">{lead.phone}</span>
+                            <FieldSource provenance={lead.sources?.phone} />
                             <Button
                               variant="ghost"
                               size="sm"
@@ -528,6 +628,7 @@ export default function Home() {
                             >
                               View Profile
                             </a>
+                            <FieldSource provenance={lead.sources?.linkedinUrl} />
                           </div>
                         </div>
                       )}
@@ -535,9 +636,22 @@ export default function Home() {
 
                     <div className="text-xs text-gray-400">
                       {lead.isEnriched ? (
-                        <span className="text-blue-500 font-medium">✨ Enhanced with PDL data</span>
+                        <span className="text-blue-500 font-medium">
+                          ✨ Enhanced with {Array.from(new Set(Object.values(lead.sources ?? {}).map(({ source }) => enrichmentSourceLabels[source] ?? source))).join(" + ") || "enrichment"} data
+                        </span>
+                      ) : lead.enrichmentStatus === "pending" ? (
+                        <span className="inline-flex items-center text-gray-500">
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                          Finding contact details...
+                        </span>
+                      ) : lead.enrichmentStatus === "failed" ? (
+                        <span className="text-red-500">⚠️ Enrichment failed after several attempts</span>
+                      ) : lead.enrichmentStatus === "over_budget" ? (
+                        <span className="text-orange-500">⚠️ Not enriched: the workspace's monthly credits are used up</span>
+                      ) : !lead.enrichmentStatus ? (
+                        <span className="text-gray-500">Not enriched - enrich it from Saved Leads</span>
                       ) : (
-                        <span className="text-orange-500">⚠️ No real PDL match found</span>
+                        <span className="text-orange-500">⚠️ No real match found by any enrichment provider</span>
                       )}
                     </div>
                   </div>
@@ -565,213 +679,7 @@ export default function Home() {
 
         {/* Saved Leads Section */}
         {showSavedLeads && (
-          <Card>
-            <CardContent className="p-8">
-              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
-                <h2 className="text-2xl font-semibold text-gray-900">💾 Saved Leads from Database</h2>
-                <Button 
-                  onClick={() => setShowSavedLeads(false)}
-                  variant="outline"
-                  className="w-full sm:w-auto"
-                >
-                  Hide Saved Leads
-                </Button>
-              </div>
-
-              {/* Filter Section */}
-              <div className="bg-gray-50 rounded-lg p-4 mb-6">
-                <h3 className="text-lg font-medium text-gray-900 mb-4">Filter Leads</h3>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Industry</label>
-                    <Input
-                      placeholder="e.g., Marketing, Coffee, Legal"
-                      value={filters.industry}
-                      onChange={(e) => setFilters(prev => ({ ...prev, industry: e.target.value }))}
-                      className="w-full"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Contact Name</label>
-                    <Input
-                      placeholder="e.g., Sarah, Mike, Alex"
-                      value={filters.contactName}
-                      onChange={(e) => setFilters(prev => ({ ...prev, contactName: e.target.value }))}
-                      className="w-full"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Keywords in Rationale</label>
-                    <Input
-                      placeholder="e.g., office, parking, visibility"
-                      value={filters.keywords}
-                      onChange={(e) => setFilters(prev => ({ ...prev, keywords: e.target.value }))}
-                      className="w-full"
-                    />
-                  </div>
-                </div>
-                <div className="flex justify-between items-center mt-4">
-                  <div className="text-sm text-gray-600">
-                    Showing {filteredLeads.length} of {savedLeads.length} leads
-                  </div>
-                  <Button
-                    onClick={clearFilters}
-                    variant="outline"
-                    size="sm"
-                    disabled={!filters.industry && !filters.contactName && !filters.keywords}
-                  >
-                    Clear Filters
-                  </Button>
-                </div>
-              </div>
-              
-              {isLoadingSaved ? (
-                <div className="text-center py-8">
-                  <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
-                  <p className="mt-4 text-gray-600">Loading saved leads...</p>
-                </div>
-              ) : savedLeads.length === 0 ? (
-                <div className="text-center py-8">
-                  <p className="text-gray-500">No saved leads found in database.</p>
-                </div>
-              ) : filteredLeads.length === 0 ? (
-                <div className="text-center py-8">
-                  <p className="text-gray-500">No leads match your current filters. Try adjusting the criteria above.</p>
-                </div>
-              ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {filteredLeads.map((lead) => (
-                    <div key={lead.id} className={`rounded-lg p-6 hover:shadow-md transition-shadow ${lead.isEnriched ? 'bg-gradient-to-br from-blue-50 to-green-50 border-2 border-blue-200' : 'bg-gray-50'}`}>
-                      <div className="flex flex-col sm:flex-row justify-between items-start mb-4 gap-2">
-                        <div className="flex items-center gap-2">
-                          <h3 className="text-lg font-bold text-gray-900">{lead.businessName}</h3>
-                          {lead.isEnriched && (
-                            <span className="bg-blue-600 text-white px-2 py-1 rounded-full text-xs font-medium">
-                              ✨ Enhanced
-                            </span>
-                          )}
-                        </div>
-                        <span className="bg-primary text-white px-3 py-1 rounded-full text-sm whitespace-nowrap">
-                          {lead.industry}
-                        </span>
-                      </div>
-                      <p className="text-gray-600 mb-4">{lead.rationale}</p>
-                      
-                      {/* Contact Information - Prioritize phone for enriched leads */}
-                      <div className="space-y-2 mb-4">
-                        {/* Display enriched name with title if available */}
-                        <div className="text-sm">
-                          <div className="flex items-center gap-2">
-                            <User className="h-4 w-4 text-gray-500" />
-                            <span className="font-medium text-gray-700">
-                              {lead.enrichedName || lead.contactName}
-                              {lead.title && (
-                                <span className="text-gray-500 ml-1">
-                                  • {lead.title}
-                                </span>
-                              )}
-                            </span>
-                          </div>
-                        </div>
-
-                        {/* Phone number (priority for enriched leads) */}
-                        {lead.phone && (
-                          <div className="text-sm">
-                            <div className="flex items-center gap-2">
-                              <Phone className="h-4 w-4 text-green-600" />
-                              <span className="font-medium text-gray-700">Phone:</span>
-                              <span className="text-gray-600">{lead.phone}</span>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleCopyContact(lead.phone)}
-                                className="p-1 h-6 w-6"
-                              >
-                                <Copy className="h-3 w-3" />
-                              </Button>
-                            </div>
-                          </div>
-                        )}
-
-                        {/* Email */}
-                        <div className="text-sm">
-                          <div className="flex items-center gap-2">
-                            <Mail className="h-4 w-4 text-blue-600" />
-                            <span className="font-medium text-gray-700">Email:</span>
-                            <span className="text-gray-600">{lead.email}</span>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleCopyContact(lead.email)}
-                              className="p-1 h-6 w-6"
-                            >
-                              <Copy className="h-3 w-3" />
-                            </Button>
-                          </div>
-                        </div>
-
-                        {/* Website */}
-                        {lead.website && (
-                          <div className="text-sm">
-                            <div className="flex items-center gap-2">
-                              <Globe className="h-4 w-4 text-purple-600" />
-                              <span className="font-medium text-gray-700">Website:</span>
-                              <a 
-                                href={lead.website} 
-                                target="_blank" 
-                                rel="noopener noreferrer" 
-                                className="text-primary hover:underline"
-                              >
-                                {lead.website.replace(/https?:\/\//, '')}
-                              </a>
-                            </div>
-                          </div>
-                        )}
-
-                        {/* LinkedIn */}
-                        {lead.linkedinUrl && (
-                          <div className="text-sm">
-                            <div className="flex items-center gap-2">
-                              <Linkedin className="h-4 w-4 text-blue-700" />
-                              <span className="font-medium text-gray-700">LinkedIn:</span>
-                              <a 
-                                href={lead.linkedinUrl} 
-                                target="_blank" 
-                                rel="noopener noreferrer" 
-                                className="text-blue-700 hover:underline"
-                              >
-                                View Profile
-                              </a>
-                            </div>
-                          </div>
-                        )}
-                      </div>
-
-                      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
-                        <div className="text-xs text-gray-400">
-                          Saved: {new Date(lead.createdAt).toLocaleDateString()}
-                          {lead.isEnriched ? (
-                            <span className="ml-2 text-blue-500 font-medium">• Enhanced with PDL</span>
-                          ) : (
-                            <span className="ml-2 text-orange-500 font-medium">• ⚠️ No real match found</span>
-                          )}
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleCopyContact(lead.phone || lead.email || '')}
-                          className="text-primary hover:text-blue-700 font-medium text-sm whitespace-nowrap"
-                        >
-                          <Copy className="mr-1 h-3 w-3" />
-                          Copy {lead.phone ? 'Phone' : 'Email'}
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          <SavedLeads onHide={() => setShowSavedLeads(false)} />
         )}
       </main>
 
@@ -802,6 +710,14 @@ export default function Home() {
           </div>
         </div>
       </footer>
+
+      <SavedSearchDialog
+        open={!!scheduleCriteria}
+        initialCriteria={scheduleCriteria ?? undefined}
+        initialPropertyId={selectedPropertyId !== "none" ? Number(selectedPropertyId) : undefined}
+        onOpenChange={(open) => !open && setScheduleCriteria(null)}
+        onSaved={() => queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] })}
+      />
     </div>
   );
 }
@@ -0,0 +1,87 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, Loader2, Users } from "lucide-react";
+import { WorkspaceMembership, WorkspaceRole } from "@shared/schema";
+
+type InvitePreview = {
+  workspaceId: number;
+  workspaceName: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+};
+
+export default function Invite() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { switchWorkspace } = useWorkspace();
+  const { toast } = useToast();
+
+  const { data: invite, isLoading, isError } = useQuery<InvitePreview>({
+    queryKey: ["/api/invites", token],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invites/${token}/accept`);
+      return (await res.json()) as WorkspaceMembership;
+    },
+    onSuccess: async (membership) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      switchWorkspace(membership.workspaceId);
+      toast({
+        title: "Invite Accepted",
+        description: `You joined ${invite?.workspaceName}.`,
+      });
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "You are already a member of this workspace."
+          : "Failed to accept invite.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-neutral flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardContent className="p-8 text-center">
+          {isLoading ? (
+            <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+          ) : isError || !invite ? (
+            <>
+              <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+              <h1 className="text-xl font-semibold text-gray-900 mb-2">Invite Unavailable</h1>
+              <p className="text-gray-500 mb-6">This invite is invalid, has expired or has already been used.</p>
+              <Button variant="outline" onClick={() => navigate("/")}>Go to Dashboard</Button>
+            </>
+          ) : (
+            <>
+              <Users className="mx-auto h-12 w-12 text-primary mb-4" />
+              <h1 className="text-xl font-semibold text-gray-900 mb-2">Join {invite.workspaceName}</h1>
+              <p className="text-gray-500 mb-6">
+                You have been invited as a <span className="font-medium capitalize">{invite.role}</span>.
+              </p>
+              <Button
+                className="bg-primary text-white hover:bg-blue-700"
+                onClick={() => acceptMutation.mutate()}
+                disabled={acceptMutation.isPending}
+              >
+                {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Accept Invite
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
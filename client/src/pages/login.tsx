@@ -0,0 +1,94 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, Redirect, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, LogIn } from "lucide-react";
+import { LoginData, loginSchema } from "@shared/schema";
+import { useAuth, getPostLoginPath } from "@/hooks/use-auth";
+
+export default function Login() {
+  const search = useSearch();
+  const { user, loginMutation } = useAuth();
+
+  const form = useForm<LoginData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  if (user) {
+    return <Redirect to={getPostLoginPath(search)} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral flex flex-col items-center justify-center px-4">
+      <div className="text-center mb-8">
+        <div className="text-3xl font-bold text-primary">REVA</div>
+        <div className="text-sm text-secondary">Real Estate Virtual Assistant</div>
+      </div>
+
+      <Card className="w-full max-w-md">
+        <CardContent className="p-8">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-6">Sign in to your account</h1>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => loginMutation.mutate(data))} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="bg-primary text-white w-full font-medium hover:bg-blue-700"
+                disabled={loginMutation.isPending}
+              >
+                {loginMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <LogIn className="mr-2 h-4 w-4" />
+                )}
+                Sign In
+              </Button>
+            </form>
+          </Form>
+
+          <p className="text-center text-sm text-gray-500 mt-6">
+            New to REVA?{" "}
+            <Link href={`/register${search ? `?${search}` : ""}`} className="text-primary hover:underline">
+              Create an account
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
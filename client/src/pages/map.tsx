@@ -0,0 +1,366 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AppHeader } from "@/components/app-header";
+import { LeadMap } from "@/components/lead-map";
+import { LeadDetailSheet } from "@/components/lead-detail-sheet";
+import { Lasso, Loader2, Sparkles, Trash2, X } from "lucide-react";
+import {
+  Lead,
+  LeadMapPoint,
+  LeadMapResponse,
+  LeadStage,
+  MapTileConfig,
+  PropertyWithLeadCount,
+  leadStages,
+  leadStageLabels,
+} from "@shared/schema";
+
+type ColorBy = "stage" | "score";
+
+// Same hues as the pipeline board's column borders
+const stageMarkerColors: Record<LeadStage, string> = {
+  new: "#9ca3af",
+  contacted: "#3b82f6",
+  touring: "#a855f7",
+  loi: "#f59e0b",
+  lease_signed: "#16a34a",
+  lost: "#ef4444",
+};
+
+// Same bands as the fit score badge
+const scoreBands = [
+  { min: 75, label: "Fit 75+", color: "#16a34a" },
+  { min: 50, label: "Fit 50–74", color: "#eab308" },
+  { min: 0, label: "Fit under 50", color: "#6b7280" },
+];
+const UNSCORED_COLOR = "#d1d5db";
+
+function colorByStage(point: LeadMapPoint): string {
+  return stageMarkerColors[point.stage];
+}
+
+function colorByScore(point: LeadMapPoint): string {
+  if (point.fitScore === null) {
+    return UNSCORED_COLOR;
+  }
+  return scoreBands.find(band => point.fitScore! >= band.min)!.color;
+}
+
+export default function LeadMapPage() {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const search = useSearch();
+  const requested = new URLSearchParams(search);
+  const searchRunId = requested.get("searchRunId");
+  const [propertyId, setPropertyId] = useState(requested.get("propertyId") ?? "all");
+  const [stage, setStage] = useState<string>("all");
+  const [colorBy, setColorBy] = useState<ColorBy>("stage");
+  const [lassoActive, setLassoActive] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [detailLead, setDetailLead] = useState<Lead | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isEnriching, setIsEnriching] = useState(false);
+
+  const params = new URLSearchParams();
+  if (searchRunId) params.set("searchRunId", searchRunId);
+  if (propertyId !== "all") params.set("propertyId", propertyId);
+  if (stage !== "all") params.set("stage", stage);
+  const paramString = params.toString();
+
+  const { data: tiles } = useQuery<MapTileConfig>({
+    queryKey: ["/api/map/tiles"],
+    staleTime: Infinity,
+  });
+
+  const { data: properties = [] } = useQuery<PropertyWithLeadCount[]>({
+    queryKey: ["/api/properties"],
+  });
+
+  // Keyed under /api/leads so edits, deletes and enrichment elsewhere refresh the map too
+  const { data, isLoading } = useQuery<LeadMapResponse>({
+    queryKey: ["/api/leads", "map", paramString],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/leads/map?${paramString}`);
+      return await res.json();
+    },
+  });
+  const points = data?.points ?? [];
+
+  // Only the subject property when one is chosen; otherwise every listing that has been located
+  const shownProperties = propertyId === "all"
+    ? properties
+    : properties.filter(property => String(property.id) === propertyId);
+
+  // Leads that drop out of the filters, or are deleted, drop out of the selection
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => points.some(point => point.id === id)));
+  }, [data]);
+
+  // Each lasso adds to the selection, so several areas can be combined
+  const handleLasso = useCallback((ids: string[]) => {
+    setSelectedIds(prev => Array.from(new Set([...prev, ...ids])));
+  }, []);
+
+  const openLead = useCallback(async (id: string) => {
+    try {
+      const res = await apiRequest("GET", `/api/leads/${id}`);
+      setDetailLead(await res.json());
+    } catch (error) {
+      console.error("Error opening lead:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load lead details.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const refreshLeads = () => queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+
+  // Deleted leads go to the trash and can be restored from the saved leads view
+  const deleteSelected = async () => {
+    setIsDeleting(true);
+    try {
+      const response = await apiRequest("POST", "/api/leads/bulk-delete", { ids: selectedIds });
+      const { deleted } = await response.json();
+      setSelectedIds([]);
+      await refreshLeads();
+      toast({
+        title: "Moved to Trash",
+        description: `${deleted} lead${deleted === 1 ? '' : 's'} moved to trash.`,
+      });
+    } catch (error) {
+      console.error("Error deleting leads:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete leads.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const enrichSelected = async () => {
+    setIsEnriching(true);
+    try {
+      const response = await apiRequest("POST", "/api/leads/enrich", { ids: selectedIds });
+      const { queued } = await response.json();
+      setSelectedIds([]);
+      await refreshLeads();
+      toast({
+        title: "Enrichment Queued",
+        description: `${queued} lead${queued === 1 ? '' : 's'} queued for enrichment.`,
+      });
+    } catch (error) {
+      console.error("Error queueing enrichment:", error);
+      const overBudget = error instanceof Error && error.message.startsWith("402");
+      toast({
+        title: "Error",
+        description: overBudget
+          ? "This workspace has used its monthly enrichment credits."
+          : "Failed to queue leads for enrichment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEnriching(false);
+    }
+  };
+
+  const selectedPoints = points.filter(point => selectedIds.includes(point.id));
+  const legend = colorBy === "stage"
+    ? leadStages.map(value => ({ label: leadStageLabels[value], color: stageMarkerColors[value] }))
+    : [...scoreBands, { label: "Not scored", color: UNSCORED_COLOR }];
+
+  return (
+    <div className="min-h-screen bg-neutral">
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Lead Map</h1>
+          <p className="text-sm text-gray-500">
+            {searchRunId ? `Leads from search run #${searchRunId}. ` : ""}
+            Click a lead to open it{can("edit") ? ", or draw around leads to act on them together" : ""}.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <div className="w-64">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Property</label>
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All properties</SelectItem>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={String(property.id)}>{property.address}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-48">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Stage</label>
+            <Select value={stage} onValueChange={setStage}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All stages</SelectItem>
+                {leadStages.map(value => (
+                  <SelectItem key={value} value={value}>{leadStageLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-48">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Colour By</label>
+            <Select value={colorBy} onValueChange={(value) => setColorBy(value as ColorBy)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="stage">Pipeline stage</SelectItem>
+                <SelectItem value="score">Fit score</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {can("edit") && (
+            <Button
+              variant={lassoActive ? "default" : "outline"}
+              onClick={() => setLassoActive(active => !active)}
+            >
+              <Lasso className="mr-2 h-4 w-4" />
+              {lassoActive ? "Done Selecting" : "Draw Selection"}
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4 text-xs text-gray-600">
+          {legend.map(item => (
+            <span key={item.label} className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-full" style={{ background: item.color }} />
+              {item.label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">🏢 Property</span>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3 relative">
+            {tiles ? (
+              <LeadMap
+                tiles={tiles}
+                points={points}
+                properties={shownProperties}
+                colorFor={colorBy === "stage" ? colorByStage : colorByScore}
+                selectedIds={selectedIds}
+                lassoActive={lassoActive}
+                fitKey={paramString}
+                onLasso={handleLasso}
+                onOpenLead={openLead}
+              />
+            ) : (
+              <div className="h-[600px] rounded-lg border bg-white" />
+            )}
+            {isLoading && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/60 z-[1000]">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            )}
+            {data && (
+              <p className="mt-2 text-xs text-gray-500">
+                {data.total > points.length
+                  ? `Showing the ${points.length} best-fitting of ${data.total} located leads. Narrow the filters to see the rest.`
+                  : `${data.total} located lead${data.total === 1 ? "" : "s"}. Leads saved before locations were stored are not shown.`}
+              </p>
+            )}
+          </div>
+
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="font-semibold text-gray-900">
+                  {selectedIds.length > 0 ? `${selectedIds.length} selected` : "No selection"}
+                </h2>
+                {selectedIds.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                    <X className="mr-1 h-4 w-4" />
+                    Clear
+                  </Button>
+                )}
+              </div>
+
+              {selectedIds.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {can("edit")
+                    ? "Choose Draw Selection, then drag around the leads you want."
+                    : "Your workspace role can view the map but not act on leads."}
+                </p>
+              ) : (
+                <>
+                  <div className="flex flex-col gap-2 mb-4">
+                    {can("generate") && (
+                      <Button size="sm" variant="outline" onClick={enrichSelected} disabled={isEnriching}>
+                        {isEnriching ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Sparkles className="mr-1 h-4 w-4" />
+                        )}
+                        Enrich Selected
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={deleteSelected}
+                      disabled={isDeleting}
+                    >
+                      {isDeleting ? (
+                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="mr-1 h-4 w-4" />
+                      )}
+                      Delete Selected
+                    </Button>
+                  </div>
+                  <ul className="max-h-[420px] overflow-y-auto divide-y text-sm">
+                    {selectedPoints.map(point => (
+                      <li key={point.id} className="py-2">
+                        <button
+                          type="button"
+                          onClick={() => openLead(point.id)}
+                          className="font-medium text-gray-900 text-left hover:text-primary hover:underline"
+                        >
+                          {point.businessName}
+                        </button>
+                        <div className="text-xs text-gray-500">
+                          {point.industry} • {leadStageLabels[point.stage]}
+                          {point.fitScore !== null && ` • Fit ${point.fitScore}`}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <LeadDetailSheet
+        lead={detailLead}
+        onOpenChange={(open) => !open && setDetailLead(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, type DragEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AppHeader } from "@/components/app-header";
+import { LeadStageHistory } from "@/components/lead-stage-history";
+import { LeadDetailSheet } from "@/components/lead-detail-sheet";
+import { Loader2, Mail, Phone } from "lucide-react";
+import { Lead, LeadListResponse, LeadWithCompany, LeadStage, leadStages, leadStageLabels } from "@shared/schema";
+
+// The API caps a page at 100 leads; older leads in a busy column stay reachable from saved-leads search
+const COLUMN_LIMIT = 100;
+
+const stageColors: Record<LeadStage, string> = {
+  new: "border-t-gray-400",
+  contacted: "border-t-blue-500",
+  touring: "border-t-purple-500",
+  loi: "border-t-amber-500",
+  lease_signed: "border-t-green-600",
+  lost: "border-t-red-500",
+};
+
+function columnParams(stage: LeadStage): string {
+  return new URLSearchParams({
+    stage,
+    sortBy: "stageChangedAt",
+    sortOrder: "desc",
+    limit: String(COLUMN_LIMIT),
+  }).toString();
+}
+
+type MoveLeadInput = {
+  lead: LeadWithCompany;
+  stage: LeadStage;
+};
+
+type PipelineColumnProps = {
+  stage: LeadStage;
+  canMove: boolean;
+  draggingLead: LeadWithCompany | null;
+  onDragStart: (lead: LeadWithCompany) => void;
+  onDragEnd: () => void;
+  onDropLead: (stage: LeadStage) => void;
+  onOpenLead: (lead: LeadWithCompany) => void;
+};
+
+function PipelineColumn({ stage, canMove, draggingLead, onDragStart, onDragEnd, onDropLead, onOpenLead }: PipelineColumnProps) {
+  const [isOver, setIsOver] = useState(false);
+  const params = columnParams(stage);
+
+  const { data, isLoading } = useQuery<LeadListResponse>({
+    queryKey: ["/api/leads", params],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/leads?${params}`);
+      return await res.json();
+    },
+  });
+  const leads = data?.leads ?? [];
+  const isDropTarget = !!draggingLead && draggingLead.stage !== stage;
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!isDropTarget) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setIsOver(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsOver(false);
+    onDropLead(stage);
+  };
+
+  return (
+    <Card className={`flex flex-col w-72 shrink-0 border-t-4 ${stageColors[stage]}`}>
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          {leadStageLabels[stage]}
+          <Badge variant="secondary">{data?.pagination.total ?? 0}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent
+        className={`flex-1 space-y-3 p-4 pt-2 min-h-[200px] rounded-b-lg transition-colors ${isOver ? "bg-blue-50" : ""}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsOver(false)}
+        onDrop={handleDrop}
+      >
+        {isLoading ? (
+          <div className="text-center py-4">
+            <Loader2 className="inline-block h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : leads.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-4">No leads</p>
+        ) : (
+          leads.map(lead => (
+            <div
+              key={lead.id}
+              draggable={canMove}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                e.dataTransfer.setData("text/plain", lead.id);
+                onDragStart(lead);
+              }}
+              onDragEnd={onDragEnd}
+              className={`rounded-md border bg-white p-3 shadow-sm ${canMove ? "cursor-grab active:cursor-grabbing" : ""} ${draggingLead?.id === lead.id ? "opacity-50" : ""}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <button
+                  type="button"
+                  onClick={() => onOpenLead(lead)}
+                  className="font-medium text-gray-900 text-sm text-left hover:text-primary hover:underline"
+                >
+                  {lead.businessName}
+                </button>
+                <LeadStageHistory leadId={lead.id} />
+              </div>
+              <div className="text-xs text-gray-500 mb-2">{lead.industry}</div>
+              <div className="space-y-1 text-xs text-gray-600">
+                <div className="flex items-center gap-1 truncate">
+                  <Mail className="h-3 w-3 text-blue-600 shrink-0" />
+                  {lead.email}
+                </div>
+                {lead.phone && (
+                  <div className="flex items-center gap-1">
+                    <Phone className="h-3 w-3 text-green-600 shrink-0" />
+                    {lead.phone}
+                  </div>
+                )}
+              </div>
+              <div className="text-[11px] text-gray-400 mt-2">
+                In stage since {new Date(lead.stageChangedAt).toLocaleDateString()}
+              </div>
+            </div>
+          ))
+        )}
+        {data && data.pagination.total > leads.length && (
+          <p className="text-xs text-gray-500 text-center">
+            Showing {leads.length} of {data.pagination.total}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Pipeline() {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [draggingLead, setDraggingLead] = useState<LeadWithCompany | null>(null);
+  const [detailLead, setDetailLead] = useState<LeadWithCompany | null>(null);
+
+  // Move the card between the cached columns straight away; the server response is reconciled on settle
+  const moveMutation = useMutation({
+    mutationFn: async ({ lead, stage }: MoveLeadInput) => {
+      const res = await apiRequest("PATCH", `/api/leads/${lead.id}/stage`, { stage });
+      return (await res.json()) as Lead;
+    },
+    onMutate: async ({ lead, stage }: MoveLeadInput) => {
+      const fromKey = ["/api/leads", columnParams(lead.stage)];
+      const toKey = ["/api/leads", columnParams(stage)];
+      await queryClient.cancelQueries({ queryKey: ["/api/leads"] });
+
+      const previousFrom = queryClient.getQueryData<LeadListResponse>(fromKey);
+      const previousTo = queryClient.getQueryData<LeadListResponse>(toKey);
+      const moved: LeadWithCompany = { ...lead, stage, stageChangedAt: new Date() };
+
+      if (previousFrom) {
+        queryClient.setQueryData<LeadListResponse>(fromKey, {
+          leads: previousFrom.leads.filter(item => item.id !== lead.id),
+          pagination: { ...previousFrom.pagination, total: previousFrom.pagination.total - 1 },
+        });
+      }
+      if (previousTo) {
+        queryClient.setQueryData<LeadListResponse>(toKey, {
+          leads: [moved, ...previousTo.leads],
+          pagination: { ...previousTo.pagination, total: previousTo.pagination.total + 1 },
+        });
+      }
+
+      return { fromKey, toKey, previousFrom, previousTo };
+    },
+    onError: (_error, _input, context) => {
+      if (context) {
+        queryClient.setQueryData(context.fromKey, context.previousFrom);
+        queryClient.setQueryData(context.toKey, context.previousTo);
+      }
+      toast({
+        title: "Error",
+        description: "Failed to move lead. Please try again.",
+        variant: "destructive",
+      });
+    },
+    // Also refreshes the moved lead's stage history, which is keyed under /api/leads
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    },
+  });
+
+  const handleDrop = (stage: LeadStage) => {
+    if (draggingLead && draggingLead.stage !== stage) {
+      moveMutation.mutate({ lead: draggingLead, stage });
+    }
+    setDraggingLead(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral">
+      <AppHeader />
+
+      <main className="max-w-full px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Lead Pipeline</h1>
+          <p className="text-sm text-gray-500">
+            {can("edit")
+              ? "Drag a lead to another column to move it through the pipeline."
+              : "Your workspace role can view the pipeline but not move leads."}
+          </p>
+        </div>
+
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {leadStages.map(stage => (
+            <PipelineColumn
+              key={stage}
+              stage={stage}
+              canMove={can("edit")}
+              draggingLead={draggingLead}
+              onDragStart={setDraggingLead}
+              onDragEnd={() => setDraggingLead(null)}
+              onDropLead={handleDrop}
+              onOpenLead={setDetailLead}
+            />
+          ))}
+        </div>
+      </main>
+
+      <LeadDetailSheet
+        lead={detailLead}
+        onOpenChange={(open) => !open && setDetailLead(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AppHeader } from "@/components/app-header";
+import { PropertyFormDialog } from "@/components/property-form-dialog";
+import { LeadListSheet } from "@/components/lead-list-sheet";
+import { Building2, Loader2, MapPin, Pencil, Plus, Search, Trash2, Users } from "lucide-react";
+import { Property, PropertyWithLeadCount, propertyUseTypeLabels } from "@shared/schema";
+
+export default function Properties() {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingProperty, setEditingProperty] = useState<Property | null>(null);
+  const [deletingProperty, setDeletingProperty] = useState<Property | null>(null);
+  const [leadsProperty, setLeadsProperty] = useState<Property | null>(null);
+
+  const { data: properties = [], isLoading, isError } = useQuery<PropertyWithLeadCount[]>({
+    queryKey: ["/api/properties"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (property: Property) => {
+      await apiRequest("DELETE", `/api/properties/${property.id}`);
+      return property;
+    },
+    onSuccess: (property) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({
+        title: "Property Deleted",
+        description: `${property.address} was removed. Its leads are still saved.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete property.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (property: Property | null) => {
+    setEditingProperty(property);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral">
+      <AppHeader />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Properties</h1>
+            <p className="text-sm text-gray-500">The spaces you are marketing and the prospects generated for each.</p>
+          </div>
+          {can("edit") && (
+            <Button className="bg-primary text-white hover:bg-blue-700" onClick={() => openForm(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Property
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+            <p className="mt-4 text-gray-600">Loading properties...</p>
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Failed to load properties.</p>
+          </div>
+        ) : properties.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Building2 className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+              <p className="text-gray-500">No properties yet. Add a listing to generate leads against it.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {properties.map(property => (
+              <Card key={property.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between gap-2 mb-3">
+                    <h3 className="flex items-start gap-2 text-lg font-bold text-gray-900">
+                      <MapPin className="h-5 w-5 text-primary shrink-0 mt-1" />
+                      {property.address}
+                    </h3>
+                    <Badge>{propertyUseTypeLabels[property.useType]}</Badge>
+                  </div>
+
+                  <div className="text-sm text-gray-600 space-y-1 mb-4">
+                    <div>{property.squareFootage.toLocaleString()} SF</div>
+                    {property.askingRent != null && (
+                      <div>${property.askingRent.toFixed(2)} / SF / yr</div>
+                    )}
+                    {property.latitude != null && property.longitude != null && (
+                      <div className="text-xs text-gray-400">
+                        {property.latitude.toFixed(5)}, {property.longitude.toFixed(5)}
+                      </div>
+                    )}
+                  </div>
+
+                  {property.features.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {property.features.map(feature => (
+                        <Badge key={feature} variant="secondary">{feature}</Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4">
+                    <Button variant="ghost" size="sm" onClick={() => setLeadsProperty(property)}>
+                      <Users className="mr-1 h-4 w-4" />
+                      {property.leadCount} lead{property.leadCount === 1 ? "" : "s"}
+                    </Button>
+                    <div className="flex items-center">
+                      {can("generate") && (
+                        <Button asChild variant="ghost" size="sm" className="text-primary">
+                          <Link href={`/?propertyId=${property.id}`}>
+                            <Search className="mr-1 h-4 w-4" />
+                            Generate Leads
+                          </Link>
+                        </Button>
+                      )}
+                      {can("edit") && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-1 h-8 w-8"
+                            title="Edit property"
+                            onClick={() => openForm(property)}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-1 h-8 w-8 text-red-600 hover:text-red-700"
+                            title="Delete property"
+                            onClick={() => setDeletingProperty(property)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <PropertyFormDialog
+        open={formOpen}
+        property={editingProperty}
+        onOpenChange={setFormOpen}
+        onSaved={() => queryClient.invalidateQueries({ queryKey: ["/api/properties"] })}
+      />
+
+      <LeadListSheet
+        open={!!leadsProperty}
+        title={leadsProperty?.address ?? ""}
+        description="Prospects generated for this listing"
+        filter={{ propertyId: String(leadsProperty?.id) }}
+        emptyMessage="No leads have been generated for this property yet."
+        onOpenChange={(open) => !open && setLeadsProperty(null)}
+      />
+
+      <AlertDialog open={!!deletingProperty} onOpenChange={(open) => !open && setDeletingProperty(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this property?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingProperty?.address} will be removed. Leads generated for it stay saved but are no longer linked to a listing.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deletingProperty && deleteMutation.mutate(deletingProperty)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
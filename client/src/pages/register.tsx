@@ -0,0 +1,129 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, Redirect, useSearch } from "wouter";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, UserPlus } from "lucide-react";
+import { loginSchema } from "@shared/schema";
+import { useAuth, getPostLoginPath } from "@/hooks/use-auth";
+
+// Username and password strength rules are enforced by the server; the form only checks the confirmation
+const registerFormSchema = loginSchema
+  .extend({
+    confirmPassword: z.string().min(1, "Please confirm your password"),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type RegisterFormData = z.infer<typeof registerFormSchema>;
+
+export default function Register() {
+  const search = useSearch();
+  const { user, registerMutation } = useAuth();
+
+  const form = useForm<RegisterFormData>({
+    resolver: zodResolver(registerFormSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  if (user) {
+    return <Redirect to={getPostLoginPath(search)} />;
+  }
+
+  const onSubmit = ({ username, password }: RegisterFormData) => {
+    registerMutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral flex flex-col items-center justify-center px-4">
+      <div className="text-center mb-8">
+        <div className="text-3xl font-bold text-primary">REVA</div>
+        <div className="text-sm text-secondary">Real Estate Virtual Assistant</div>
+      </div>
+
+      <Card className="w-full max-w-md">
+        <CardContent className="p-8">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-6">Create your broker account</h1>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <p className="text-xs text-gray-500">
+                      At least 8 characters with upper and lower case letters, a number and a special character.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="bg-primary text-white w-full font-medium hover:bg-blue-700"
+                disabled={registerMutation.isPending}
+              >
+                {registerMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <UserPlus className="mr-2 h-4 w-4" />
+                )}
+                Create Account
+              </Button>
+            </form>
+          </Form>
+
+          <p className="text-center text-sm text-gray-500 mt-6">
+            Already have an account?{" "}
+            <Link href={`/login${search ? `?${search}` : ""}`} className="text-primary hover:underline">
+              Sign in
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
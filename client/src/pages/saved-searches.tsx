@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AppHeader } from "@/components/app-header";
+import { LeadListSheet } from "@/components/lead-list-sheet";
+import { SavedSearchDialog, schedulePresets } from "@/components/saved-search-dialog";
+import { Loader2, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { SavedSearch, SavedSearchWithLastRun, SearchRunResult, describeSearch } from "@shared/schema";
+
+function describeSchedule(cronExpression: string) {
+  return schedulePresets.find(preset => preset.value === cronExpression)?.label ?? `Cron: ${cronExpression} (UTC)`;
+}
+
+export default function SavedSearches() {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const canManage = can("generate");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSearch, setEditingSearch] = useState<SavedSearch | null>(null);
+  const [deletingSearch, setDeletingSearch] = useState<SavedSearchWithLastRun | null>(null);
+  const [viewingSearch, setViewingSearch] = useState<SavedSearchWithLastRun | null>(null);
+
+  const { data: searches = [], isLoading, isError } = useQuery<SavedSearchWithLastRun[]>({
+    queryKey: ["/api/saved-searches"],
+    staleTime: 0,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      await apiRequest("PATCH", `/api/saved-searches/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update schedule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (search: SavedSearchWithLastRun) => {
+      const res = await apiRequest("POST", `/api/saved-searches/${search.id}/run`);
+      return (await res.json()) as SearchRunResult;
+    },
+    onSuccess: ({ run }, search) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      toast({
+        title: "Search Complete",
+        description: `"${search.name}" found ${run.leadsSaved} new business${run.leadsSaved === 1 ? "" : "es"} (${run.duplicatesSkipped} already saved).`,
+      });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Error",
+        description: "Failed to run search.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Saved Search Deleted",
+        description: "Past runs and their leads are kept in the search history.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete saved search.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (search: SavedSearch | null) => {
+    setEditingSearch(search);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral">
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Saved Searches</h1>
+            <p className="text-sm text-gray-500">Searches that re-run on a schedule and save only businesses you don't already have.</p>
+          </div>
+          {canManage && (
+            <Button className="bg-primary text-white hover:bg-blue-700" onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Saved Search
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="text-center py-12">
+                <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : isError ? (
+              <p className="text-center py-12 text-red-600">Failed to load saved searches.</p>
+            ) : searches.length === 0 ? (
+              <p className="text-center py-12 text-gray-500">No saved searches yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Search</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Last Run</TableHead>
+                    <TableHead>Next Run</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {searches.map(search => (
+                    <TableRow key={search.id}>
+                      <TableCell>
+                        <div className="font-medium">{search.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {describeSearch(search.criteria)} • {search.criteria.squareFootage} SF
+                        </div>
+                        {search.propertyAddress && (
+                          <div className="text-xs text-gray-400">For {search.propertyAddress}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{describeSchedule(search.cronExpression)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {search.lastRunAt ? (
+                          <div className="space-y-1">
+                            <div className="text-sm text-gray-600">{new Date(search.lastRunAt).toLocaleString()}</div>
+                            {search.lastRunStatus === "failed" ? (
+                              <Badge variant="destructive">Failed</Badge>
+                            ) : search.lastRunNewLeads ? (
+                              <Badge
+                                className="cursor-pointer"
+                                onClick={() => setViewingSearch(search)}
+                              >
+                                {search.lastRunNewLeads} new since last run
+                              </Badge>
+                            ) : (
+                              <Badge variant="secondary">No new businesses</Badge>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-400">Never</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600 whitespace-nowrap">
+                        {search.enabled && search.nextRunAt ? new Date(search.nextRunAt).toLocaleString() : "Paused"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={search.enabled}
+                          disabled={!canManage || toggleMutation.isPending}
+                          onCheckedChange={(enabled) => toggleMutation.mutate({ id: search.id, enabled })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {canManage && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-primary"
+                              onClick={() => runMutation.mutate(search)}
+                              disabled={runMutation.isPending}
+                            >
+                              {runMutation.isPending && runMutation.variables?.id === search.id ? (
+                                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                              ) : (
+                                <Play className="mr-1 h-4 w-4" />
+                              )}
+                              Run now
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => openDialog(search)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => setDeletingSearch(search)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <SavedSearchDialog
+        open={dialogOpen}
+        search={editingSearch}
+        onOpenChange={setDialogOpen}
+        onSaved={() => queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] })}
+      />
+
+      <LeadListSheet
+        open={!!viewingSearch}
+        title={viewingSearch ? `New from "${viewingSearch.name}"` : ""}
+        description="Businesses saved by the most recent run."
+        filter={{ searchRunId: String(viewingSearch?.lastRunId) }}
+        emptyMessage="None of the last run's leads are still saved."
+        onOpenChange={(open) => !open && setViewingSearch(null)}
+      />
+
+      <AlertDialog open={!!deletingSearch} onOpenChange={(open) => !open && setDeletingSearch(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved search?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingSearch?.name}" will stop running. Leads it already found are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deletingSearch && deleteMutation.mutate(deletingSearch.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AppHeader } from "@/components/app-header";
+import { ScoringProfileEditor } from "@/components/scoring-profile-editor";
+import { CheckCircle, Loader2, Pencil, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { ScoringProfile, ScoringProfileListResponse, fitFactorKeys, fitFactorLabels } from "@shared/schema";
+
+export default function Scoring() {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [editing, setEditing] = useState<ScoringProfile | "new" | null>(null);
+  const [deletingProfile, setDeletingProfile] = useState<ScoringProfile | null>(null);
+
+  const { data, isLoading, isError } = useQuery<ScoringProfileListResponse>({
+    queryKey: ["/api/scoring-profiles"],
+  });
+  const profiles = data?.profiles ?? [];
+
+  // Saved leads are re-scored in the background whenever the active profile changes
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+  };
+
+  const activateMutation = useMutation({
+    mutationFn: async (profile: ScoringProfile) => {
+      const res = await apiRequest("PATCH", `/api/scoring-profiles/${profile.id}`, { isActive: true });
+      return (await res.json()) as ScoringProfile;
+    },
+    onSuccess: (profile) => {
+      refresh();
+      toast({
+        title: "Profile Activated",
+        description: `Saved leads are being re-scored with ${profile.name}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to activate the scoring profile.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (profile: ScoringProfile) => {
+      await apiRequest("DELETE", `/api/scoring-profiles/${profile.id}`);
+      return profile;
+    },
+    onSuccess: (profile) => {
+      refresh();
+      toast({
+        title: "Profile Deleted",
+        description: profile.isActive
+          ? `${profile.name} was removed. Saved leads are being re-scored with the default weights.`
+          : `${profile.name} was removed.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete the scoring profile.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-neutral">
+      <AppHeader />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Fit Scoring</h1>
+            <p className="text-sm text-gray-500">How much each factor counts toward a lead's fit score, and rules that adjust it.</p>
+          </div>
+          {can("edit") && !editing && (
+            <Button className="bg-primary text-white hover:bg-blue-700" onClick={() => setEditing("new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Profile
+            </Button>
+          )}
+        </div>
+
+        {editing && data && (
+          <div className="mb-8">
+            <ScoringProfileEditor
+              key={editing === "new" ? "new" : editing.id}
+              profile={editing === "new" ? null : editing}
+              initialSettings={data.active}
+              onCancel={() => setEditing(null)}
+              onSaved={() => {
+                setEditing(null);
+                refresh();
+              }}
+            />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+            <p className="mt-4 text-gray-600">Loading scoring profiles...</p>
+          </div>
+        ) : isError || !data ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Failed to load scoring profiles.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!profiles.some(profile => profile.isActive) && (
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-2 mb-2">
+                    <SlidersHorizontal className="h-4 w-4 text-primary" />
+                    <h3 className="font-semibold text-gray-900">Default weights in use</h3>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {fitFactorKeys.map(key => `${fitFactorLabels[key]} ${data.active.weights[key]}`).join(" • ")}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {profiles.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">
+                No scoring profiles yet. Create one to weight the factors that matter for your listings.
+              </p>
+            ) : (
+              profiles.map(profile => (
+                <Card key={profile.id}>
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between gap-2 mb-3">
+                      <h3 className="text-lg font-bold text-gray-900">{profile.name}</h3>
+                      {profile.isActive && <Badge>Active</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">
+                      {fitFactorKeys.map(key => `${fitFactorLabels[key]} ${profile.weights[key]}`).join(" • ")}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {profile.rules.length === 0 ? "No rules" : `${profile.rules.length} rule${profile.rules.length === 1 ? "" : "s"}`}
+                    </p>
+
+                    {can("edit") && (
+                      <div className="flex items-center justify-end gap-1 border-t pt-4 mt-4">
+                        {!profile.isActive && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-primary"
+                            disabled={activateMutation.isPending}
+                            onClick={() => activateMutation.mutate(profile)}
+                          >
+                            <CheckCircle className="mr-1 h-4 w-4" />
+                            Activate
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="p-1 h-8 w-8"
+                          title="Edit profile"
+                          onClick={() => setEditing(profile)}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="p-1 h-8 w-8 text-red-600 hover:text-red-700"
+                          title="Delete profile"
+                          onClick={() => setDeletingProfile(profile)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={!!deletingProfile} onOpenChange={(open) => !open && setDeletingProfile(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this scoring profile?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingProfile?.isActive
+                ? `${deletingProfile.name} is in use. Saved leads will be re-scored with the default weights.`
+                : `${deletingProfile?.name} will be removed.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deletingProfile && deleteMutation.mutate(deletingProfile)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AppHeader } from "@/components/app-header";
+import { LeadListSheet } from "@/components/lead-list-sheet";
+import { Eye, Loader2, MapIcon, RotateCw } from "lucide-react";
+import { SearchRunListResponse, SearchRunResult, SearchRunStatus, SearchRunWithDetails, describeSearch } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+const statusVariants: Record<SearchRunStatus, "default" | "secondary" | "destructive"> = {
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+export default function SearchHistory() {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [page, setPage] = useState(1);
+  const [openRun, setOpenRun] = useState<SearchRunWithDetails | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) }).toString();
+  const { data, isLoading, isError } = useQuery<SearchRunListResponse>({
+    queryKey: ["/api/search-runs", params],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/search-runs?${params}`);
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+  const runs = data?.runs ?? [];
+  const pagination = data?.pagination;
+
+  const rerunMutation = useMutation({
+    mutationFn: async (run: SearchRunWithDetails) => {
+      const res = await apiRequest("POST", `/api/search-runs/${run.id}/rerun`);
+      return (await res.json()) as SearchRunResult;
+    },
+    onSuccess: ({ run }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/search-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      toast({
+        title: "Search Re-run",
+        description: `Run #${run.id} saved ${run.leadsSaved} new lead${run.leadsSaved === 1 ? "" : "s"} (${run.duplicatesSkipped} already saved).`,
+      });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/search-runs"] });
+      toast({
+        title: "Error",
+        description: "Failed to re-run search.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-neutral">
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Search History</h1>
+          <p className="text-sm text-gray-500">Every lead generation run in this workspace, with its criteria and API usage.</p>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="text-center py-12">
+                <Loader2 className="inline-block h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : isError ? (
+              <p className="text-center py-12 text-red-600">Failed to load search history.</p>
+            ) : runs.length === 0 ? (
+              <p className="text-center py-12 text-gray-500">No searches have been run yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Run</TableHead>
+                    <TableHead>Search</TableHead>
+                    <TableHead>Property</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Found</TableHead>
+                    <TableHead className="text-right">Saved</TableHead>
+                    <TableHead className="text-right">Enriched</TableHead>
+                    <TableHead className="text-right">Google / PDL calls</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id}>
+                      <TableCell className="whitespace-nowrap">
+                        <div className="font-medium">#{run.id}</div>
+                        <div className="text-xs text-gray-500">{new Date(run.createdAt).toLocaleString()}</div>
+                        <div className="text-xs text-gray-500">{run.username ?? "Former member"}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{describeSearch(run.criteria)}</div>
+                        <div className="text-xs text-gray-500">
+                          {run.criteria.squareFootage} SF
+                          {run.criteria.features.length > 0 && ` • ${run.criteria.features.join(", ")}`}
+                        </div>
+                        {run.rerunOfId && (
+                          <div className="text-xs text-gray-400">Re-run of #{run.rerunOfId}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{run.propertyAddress ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[run.status]} className="capitalize" title={run.error ?? undefined}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {run.placesFound}
+                        {(run.closedSkipped > 0 || run.detailErrors > 0) && (
+                          <div className="text-xs text-gray-500 whitespace-nowrap">
+                            {[
+                              run.closedSkipped > 0 && `${run.closedSkipped} closed`,
+                              run.detailErrors > 0 && `${run.detailErrors} failed`,
+                            ].filter(Boolean).join(", ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{run.leadsSaved}</TableCell>
+                      <TableCell className="text-right">{run.enrichedCount}</TableCell>
+                      <TableCell className="text-right">{run.googleCalls} / {run.pdlCalls}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setOpenRun(run)}
+                            disabled={run.leadsSaved === 0}
+                          >
+                            <Eye className="mr-1 h-4 w-4" />
+                            Results
+                          </Button>
+                          {run.leadsSaved > 0 && (
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link href={`/map?searchRunId=${run.id}`}>
+                                <MapIcon className="mr-1 h-4 w-4" />
+                                Map
+                              </Link>
+                            </Button>
+                          )}
+                          {can("generate") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-primary"
+                              onClick={() => rerunMutation.mutate(run)}
+                              disabled={rerunMutation.isPending}
+                            >
+                              {rerunMutation.isPending && rerunMutation.variables?.id === run.id ? (
+                                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                              ) : (
+                                <RotateCw className="mr-1 h-4 w-4" />
+                              )}
+                              Re-run
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {pagination && pagination.pages > 1 && (
+          <div className="flex justify-center items-center gap-4 mt-6">
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">Page {pagination.page} of {pagination.pages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={page >= pagination.pages}>
+              Next
+            </Button>
+          </div>
+        )}
+      </main>
+
+      <LeadListSheet
+        open={!!openRun}
+        title={openRun ? `Run #${openRun.id} results` : ""}
+        description={openRun ? describeSearch(openRun.criteria) : ""}
+        filter={{ searchRunId: String(openRun?.id) }}
+        emptyMessage="None of this run's leads are still saved."
+        onOpenChange={(open) => !open && setOpenRun(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { normalizeBusinessName } from "../leadDedupe";
+import { distanceMiles } from "../leadScoring";
+import type { BusinessSearchQuery, BusinessSearchStats, BusinessSourceProvider, SourceBusiness } from "./types";
+
+export const DEFAULT_FIXTURE_PATH = "server/businessSources/fixtures/businesses.json";
+
+const fixtureBusinessSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  address: z.string().min(1),
+  types: z.array(z.string()).min(1),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  rating: z.number().min(0).max(5).optional(),
+  ratingCount: z.number().int().min(0).optional(),
+  website: z.string().url().optional(),
+  phone: z.string().optional(),
+  closed: z.boolean().optional(),
+  businessStatus: z.enum(["OPERATIONAL", "CLOSED_TEMPORARILY"]).optional(),
+});
+
+const fixtureFileSchema = z.array(fixtureBusinessSchema);
+
+type FixtureBusiness = z.infer<typeof fixtureBusinessSchema>;
+
+function matchesType(business: FixtureBusiness, businessType: string, placeTypes: string[]): boolean {
+  if (placeTypes[0] !== "establishment") {
+    return business.types.some(type => placeTypes.includes(type));
+  }
+
+  // Unmapped business types fall back to a text match on the name and types
+  const needle = businessType.toLowerCase();
+  return business.name.toLowerCase().includes(needle) || business.types.some(type => type.replace(/_/g, " ").includes(needle));
+}
+
+// Every word of the location ("Austin TX", "Austin, TX") must appear in the address
+function matchesLocation(business: FixtureBusiness, location: string): boolean {
+  const address = business.address.toLowerCase();
+  return location
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .every(word => address.includes(word));
+}
+
+function withinArea(business: FixtureBusiness, area: NonNullable<BusinessSearchQuery["area"]>): boolean {
+  return business.latitude != null && business.longitude != null &&
+    distanceMiles(area, { latitude: business.latitude, longitude: business.longitude }) <= area.radiusMiles;
+}
+
+// Offline source backed by a JSON file of businesses, for development, demos and tests. The file is read on
+// every search so edits apply without a restart.
+export function createFixtureProvider(fixturePath: string = DEFAULT_FIXTURE_PATH): BusinessSourceProvider {
+  const resolvedPath = path.resolve(process.cwd(), fixturePath);
+
+  return {
+    name: "fixture",
+
+    async search({ businessType, placeTypes, location, maxResults, area }: BusinessSearchQuery, stats: BusinessSearchStats): Promise<SourceBusiness[]> {
+      const businesses = fixtureFileSchema.parse(JSON.parse(await readFile(resolvedPath, "utf-8")));
+      const found = businesses.filter(business =>
+        matchesType(business, businessType, placeTypes) &&
+        (area ? withinArea(business, area) : matchesLocation(business, location))
+      );
+      const matches = found.filter(business => !business.closed);
+
+      stats.placesFound += found.length;
+      stats.closedSkipped += found.length - matches.length;
+      console.log(`🗂️ Fixture source matched ${matches.length} open businesses for "${businessType} in ${location}"`);
+
+      const locationCount = (business: { name: string }) =>
+        matches.filter(match => normalizeBusinessName(match.name) === normalizeBusinessName(business.name)).length;
+
+      return matches
+        .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0))
+        .slice(0, maxResults)
+        .map(({ id, closed, ...business }) => ({ sourceId: id, ...business, locationCount: locationCount(business) }));
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { GeoPoint } from "../leadScoring";
+
+type Place = { city: string; state: string; latitude: number; longitude: number };
+
+// City centres used when the business source cannot geocode (offline fixtures, no API key, geocoder outage).
+// Good to a few miles, which is enough to centre a radius search on a city.
+const places: Place[] = [
+  { city: "New York", state: "NY", latitude: 40.7128, longitude: -74.0060 },
+  { city: "Los Angeles", state: "CA", latitude: 34.0522, longitude: -118.2437 },
+  { city: "Chicago", state: "IL", latitude: 41.8781, longitude: -87.6298 },
+  { city: "Houston", state: "TX", latitude: 29.7604, longitude: -95.3698 },
+  { city: "Phoenix", state: "AZ", latitude: 33.4484, longitude: -112.0740 },
+  { city: "Philadelphia", state: "PA", latitude: 39.9526, longitude: -75.1652 },
+  { city: "San Antonio", state: "TX", latitude: 29.4241, longitude: -98.4936 },
+  { city: "San Diego", state: "CA", latitude: 32.7157, longitude: -117.1611 },
+  { city: "Dallas", state: "TX", latitude: 32.7767, longitude: -96.7970 },
+  { city: "Fort Worth", state: "TX", latitude: 32.7555, longitude: -97.3308 },
+  { city: "San Jose", state: "CA", latitude: 37.3382, longitude: -121.8863 },
+  { city: "San Francisco", state: "CA", latitude: 37.7749, longitude: -122.4194 },
+  { city: "Sacramento", state: "CA", latitude: 38.5816, longitude: -121.4944 },
+  { city: "Austin", state: "TX", latitude: 30.2672, longitude: -97.7431 },
+  { city: "Round Rock", state: "TX", latitude: 30.5083, longitude: -97.6789 },
+  { city: "Cedar Park", state: "TX", latitude: 30.5052, longitude: -97.8203 },
+  { city: "Jacksonville", state: "FL", latitude: 30.3322, longitude: -81.6557 },
+  { city: "Miami", state: "FL", latitude: 25.7617, longitude: -80.1918 },
+  { city: "Tampa", state: "FL", latitude: 27.9506, longitude: -82.4572 },
+  { city: "Orlando", state: "FL", latitude: 28.5383, longitude: -81.3792 },
+  { city: "Atlanta", state: "GA", latitude: 33.7490, longitude: -84.3880 },
+  { city: "Charlotte", state: "NC", latitude: 35.2271, longitude: -80.8431 },
+  { city: "Raleigh", state: "NC", latitude: 35.7796, longitude: -78.6382 },
+  { city: "Nashville", state: "TN", latitude: 36.1627, longitude: -86.7816 },
+  { city: "Columbus", state: "OH", latitude: 39.9612, longitude: -82.9988 },
+  { city: "Indianapolis", state: "IN", latitude: 39.7684, longitude: -86.1581 },
+  { city: "Detroit", state: "MI", latitude: 42.3314, longitude: -83.0458 },
+  { city: "Minneapolis", state: "MN", latitude: 44.9778, longitude: -93.2650 },
+  { city: "Kansas City", state: "MO", latitude: 39.0997, longitude: -94.5786 },
+  { city: "St Louis", state: "MO", latitude: 38.6270, longitude: -90.1994 },
+  { city: "Pittsburgh", state: "PA", latitude: 40.4406, longitude: -79.9959 },
+  { city: "Baltimore", state: "MD", latitude: 39.2904, longitude: -76.6122 },
+  { city: "Washington", state: "DC", latitude: 38.9072, longitude: -77.0369 },
+  { city: "Boston", state: "MA", latitude: 42.3601, longitude: -71.0589 },
+  { city: "Denver", state: "CO", latitude: 39.7392, longitude: -104.9903 },
+  { city: "Boulder", state: "CO", latitude: 40.0150, longitude: -105.2705 },
+  { city: "Salt Lake City", state: "UT", latitude: 40.7608, longitude: -111.8910 },
+  { city: "Las Vegas", state: "NV", latitude: 36.1699, longitude: -115.1398 },
+  { city: "Seattle", state: "WA", latitude: 47.6062, longitude: -122.3321 },
+  { city: "Portland", state: "OR", latitude: 45.5152, longitude: -122.6784 },
+];
+
+const normalize = (text: string) => ` ${text.toLowerCase().replace(/\bsaint\b|\bst\./g, "st").replace(/[^a-z0-9]+/g, " ").trim()} `;
+
+// Literal coordinates, e.g. "30.2672, -97.7431"
+function parseCoordinates(location: string): GeoPoint | null {
+  const match = location.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : null;
+}
+
+// Coordinates for "City", "City, ST" or an address containing "City, ST"; null for anywhere not listed above
+export function lookupGazetteer(location: string): GeoPoint | null {
+  const coordinates = parseCoordinates(location);
+  if (coordinates) {
+    return coordinates;
+  }
+
+  const text = normalize(location);
+  // Longest names first, so the most specific city in an address wins
+  const match = [...places]
+    .sort((a, b) => b.city.length - a.city.length)
+    .find(place => {
+      const city = normalize(place.city);
+      return text.includes(`${city}${place.state.toLowerCase()} `) || text === city;
+    });
+  return match ? { latitude: match.latitude, longitude: match.longitude } : null;
+}
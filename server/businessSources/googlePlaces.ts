@@ -0,0 +1,250 @@
+import { normalizeBusinessName } from "../leadDedupe";
+import { KM_PER_MILE, distanceMiles, type GeoPoint } from "../leadScoring";
+import type { BusinessSearchQuery, BusinessSearchStats, BusinessSourceProvider, SourceBusiness } from "./types";
+
+interface GooglePlaceResult {
+  place_id: string;
+  name: string;
+  formatted_address: string;
+  business_status: string;
+  types: string[];
+  rating?: number;
+  user_ratings_total?: number;
+  geometry: {
+    location: {
+      lat: number;
+      lng: number;
+    };
+  };
+  vicinity?: string;
+  website?: string;
+  formatted_phone_number?: string;
+  international_phone_number?: string;
+}
+
+interface PlaceDetails {
+  name: string;
+  formatted_address: string;
+  website?: string;
+  formatted_phone_number?: string;
+  international_phone_number?: string;
+  business_status: string;
+  types: string[];
+  rating?: number;
+  user_ratings_total?: number;
+}
+
+// Largest radius Places text search accepts, in metres
+const MAX_SEARCH_RADIUS_METERS = 50000;
+// Text search returns 20 places a page and at most three pages
+const MAX_SEARCH_PAGES = 3;
+// A next_page_token only becomes valid a short while after it is issued; until then Google answers INVALID_REQUEST
+const PAGE_TOKEN_DELAY_MS = 2000;
+const PAGE_TOKEN_ATTEMPTS = 3;
+// Place details requests in flight at once
+const DETAILS_CONCURRENCY = 5;
+
+const DETAILS_FIELDS = "name,formatted_address,website,formatted_phone_number,international_phone_number,business_status,types,rating,user_ratings_total";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Read at search time so the server can start (and use another source) without a key
+function getApiKey(): string {
+  const apiKey = process.env.GOOGLE_PLACES_API_KEY;
+  if (!apiKey) {
+    throw new Error("GOOGLE_PLACES_API_KEY environment variable is required for the Google Places business source");
+  }
+  return apiKey;
+}
+
+type TextSearchPage = {
+  results: GooglePlaceResult[];
+  nextPageToken?: string;
+};
+
+async function fetchTextSearchPage(url: string, stats: BusinessSearchStats): Promise<{ status: string; page: TextSearchPage }> {
+  stats.googleCalls++;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Google Places API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return {
+    status: data.status,
+    page: { results: data.results ?? [], nextPageToken: data.next_page_token },
+  };
+}
+
+// Follows next_page_token until enough places are in hand, the pages run out or Google's three-page limit is hit
+async function textSearch(firstPageUrl: string, enough: (places: GooglePlaceResult[]) => boolean, apiKey: string, stats: BusinessSearchStats): Promise<GooglePlaceResult[]> {
+  const places: GooglePlaceResult[] = [];
+  let url: string | null = firstPageUrl;
+
+  for (let pageNumber = 1; url && pageNumber <= MAX_SEARCH_PAGES; pageNumber++) {
+    let response = await fetchTextSearchPage(url, stats);
+    // Later pages are requested after the token's warm-up delay, and again if Google says it is not ready yet
+    for (let attempt = 1; pageNumber > 1 && response.status === "INVALID_REQUEST" && attempt < PAGE_TOKEN_ATTEMPTS; attempt++) {
+      await sleep(PAGE_TOKEN_DELAY_MS);
+      response = await fetchTextSearchPage(url, stats);
+    }
+
+    const { status, page } = response;
+    if (status !== "OK" && status !== "ZERO_RESULTS") {
+      // Places already found are still worth returning when a later page fails
+      if (pageNumber > 1) {
+        console.warn(`Google Places API error on page ${pageNumber}, keeping the first ${places.length} places:`, status);
+        break;
+      }
+      console.error("Google Places API error:", status);
+      throw new Error(`Google Places API error: ${status}`);
+    }
+
+    places.push(...page.results);
+    if (!page.nextPageToken || enough(places)) {
+      break;
+    }
+
+    await sleep(PAGE_TOKEN_DELAY_MS);
+    url = `https://maps.googleapis.com/maps/api/place/textsearch/json?pagetoken=${encodeURIComponent(page.nextPageToken)}&key=${apiKey}`;
+  }
+
+  return places;
+}
+
+// Details for one place; null when it has closed or its details could not be fetched, which stats records
+async function fetchBusiness(place: GooglePlaceResult, locationCount: number, apiKey: string, stats: BusinessSearchStats): Promise<SourceBusiness | null> {
+  try {
+    const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${place.place_id}&fields=${DETAILS_FIELDS}&key=${apiKey}`;
+
+    stats.googleCalls++;
+    const detailsResponse = await fetch(detailsUrl);
+    if (!detailsResponse.ok) {
+      console.warn(`Failed to get details for ${place.name}`);
+      stats.detailErrors++;
+      return null;
+    }
+
+    const detailsData = await detailsResponse.json();
+    if (detailsData.status !== 'OK') {
+      console.warn(`Details API error for ${place.name}:`, detailsData.status);
+      stats.detailErrors++;
+      return null;
+    }
+
+    const details = detailsData.result as PlaceDetails;
+
+    // The listing may have closed since the text search index was built
+    if (details.business_status === 'CLOSED_PERMANENTLY') {
+      stats.closedSkipped++;
+      return null;
+    }
+
+    console.log(`📍 Added business: ${details.name}`);
+    return {
+      sourceId: place.place_id,
+      name: details.name,
+      address: details.formatted_address,
+      types: details.types,
+      latitude: place.geometry?.location.lat,
+      longitude: place.geometry?.location.lng,
+      rating: details.rating,
+      ratingCount: details.user_ratings_total,
+      website: details.website,
+      phone: details.formatted_phone_number,
+      businessStatus: details.business_status,
+      locationCount,
+    };
+  } catch (error) {
+    console.warn(`Error processing place ${place.name}:`, error);
+    stats.detailErrors++;
+    return null;
+  }
+}
+
+export const googlePlacesProvider: BusinessSourceProvider = {
+  name: "google",
+
+  async search({ businessType, placeTypes, location, maxResults, area }: BusinessSearchQuery, stats: BusinessSearchStats): Promise<SourceBusiness[]> {
+    const apiKey = getApiKey();
+    // A radius search is biased to the circle by location/radius; the results are then trimmed to it below
+    const query = area ? businessType : `${businessType} in ${location}`;
+    const areaParams = area
+      ? `&location=${area.latitude},${area.longitude}&radius=${Math.min(Math.round(area.radiusMiles * KM_PER_MILE * 1000), MAX_SEARCH_RADIUS_METERS)}`
+      : "";
+    // Text search takes a single type, so the query text finds candidates and every mapped type is checked below
+    const searchUrl = `https://maps.googleapis.com/maps/api/place/textsearch/json?query=${encodeURIComponent(query)}&key=${apiKey}${areaParams}`;
+
+    console.log(`🔍 Searching Google Places for: "${query}" (up to ${maxResults} results)`);
+
+    const inArea = (place: GooglePlaceResult) =>
+      !area || distanceMiles(area, { latitude: place.geometry.location.lat, longitude: place.geometry.location.lng }) <= area.radiusMiles;
+    const isType = (place: GooglePlaceResult) =>
+      placeTypes[0] === "establishment" || (place.types ?? []).some(type => placeTypes.includes(type));
+    const isOpen = (place: GooglePlaceResult) => place.business_status !== 'CLOSED_PERMANENTLY';
+    const matches = (place: GooglePlaceResult) => inArea(place) && isType(place);
+    // Fetch a page beyond the bare minimum only when the open matches so far fall short
+    const places = (await textSearch(searchUrl, found => found.filter(place => matches(place) && isOpen(place)).length >= maxResults, apiKey, stats))
+      .filter(matches);
+    if (places.length === 0) {
+      console.log(`❌ No businesses found for "${query}"${area ? ` within ${area.radiusMiles} mi` : ""}`);
+      return [];
+    }
+
+    stats.placesFound += places.length;
+    const candidates = places.filter(isOpen);
+    stats.closedSkipped += places.length - candidates.length;
+    console.log(`✅ Found ${places.length} businesses (${places.length - candidates.length} closed)`);
+
+    // Chains show up once per branch; count them so a lead can say how many locations it has
+    const locationCounts = new Map<string, number>();
+    for (const place of places) {
+      const name = normalizeBusinessName(place.name);
+      if (name) {
+        locationCounts.set(name, (locationCounts.get(name) ?? 0) + 1);
+      }
+    }
+
+    // A small pool of workers takes candidates in ranking order, never asking for more details than are still needed;
+    // places that fail or turn out closed are replaced by the next candidates
+    const fetched: (SourceBusiness | null)[] = [];
+    let nextCandidate = 0;
+    let added = 0;
+    let inFlight = 0;
+    const worker = async () => {
+      while (nextCandidate < candidates.length && added + inFlight < maxResults) {
+        const index = nextCandidate++;
+        const place = candidates[index];
+        inFlight++;
+        const business = await fetchBusiness(place, locationCounts.get(normalizeBusinessName(place.name) ?? "") ?? 1, apiKey, stats);
+        inFlight--;
+        fetched[index] = business;
+        if (business) {
+          added++;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(DETAILS_CONCURRENCY, candidates.length) }, worker));
+
+    return fetched.filter((business): business is SourceBusiness => !!business);
+  },
+
+  async geocode(location: string, stats: BusinessSearchStats): Promise<GeoPoint | null> {
+    const apiKey = getApiKey();
+    stats.googleCalls++;
+    const response = await fetch(`https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(location)}&key=${apiKey}`);
+    if (!response.ok) {
+      throw new Error(`Google Geocoding API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.status === "ZERO_RESULTS") {
+      return null;
+    }
+    if (data.status !== "OK") {
+      throw new Error(`Google Geocoding API error: ${data.status}`);
+    }
+    const { lat, lng } = data.results[0].geometry.location;
+    return { latitude: lat, longitude: lng };
+  },
+};
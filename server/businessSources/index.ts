@@ -0,0 +1,235 @@
+import { BusinessTaxonomy, LeadToSave, ScoringSettings, defaultSearchResultCount, maxSearchResultCount } from "@shared/schema";
+import { distanceMiles, scoreLead, type FitCriteria, type GeoPoint, type SearchOrigin } from "../leadScoring";
+import { buildRationale } from "../rationale";
+import { googlePlacesProvider } from "./googlePlaces";
+import { createFixtureProvider } from "./fixture";
+import { lookupGazetteer } from "./gazetteer";
+import { defaultBusinessTaxonomy, featuresValuedBy, industryFromTypes, placeTypesFor } from "./taxonomy";
+import type { BusinessSearchStats, BusinessSourceProvider, SourceBusiness } from "./types";
+
+export type { BusinessSearchStats, BusinessSourceProvider, SourceBusiness } from "./types";
+
+// Where the search is centred and how found businesses are scored: distances are measured from origin (the property
+// being leased, or the target location) when it is known, and factors weighted by the workspace's scoring profile.
+// With radiusMiles, only businesses that close to origin are searched for. maxResults caps the leads returned.
+// taxonomy is the workspace's, saying which Google place types a business type stands for (the built-in one if omitted).
+export type SearchContext = {
+  origin?: SearchOrigin | null;
+  radiusMiles?: number;
+  maxResults?: number;
+  settings?: ScoringSettings;
+  taxonomy?: BusinessTaxonomy;
+};
+
+// How many leads a search keeps, across all of its queries
+function resultLimit(context: Pick<SearchContext, "maxResults">): number {
+  return Math.min(context.maxResults ?? defaultSearchResultCount, maxSearchResultCount);
+}
+
+// One query of a fan-out search: a business type in a target location, centred on origin when it is known. A radius
+// query also stands for alsoCovers, the other target locations sharing its origin.
+export type BusinessQuery = {
+  businessType: string;
+  location: string;
+  origin?: SearchOrigin | null;
+  alsoCovers?: string[];
+};
+
+// Queries of a fan-out search running at once; each Google query also fetches several place details in parallel
+const QUERY_CONCURRENCY = 3;
+
+// A radius search was asked for around a location that could not be found
+export class LocationNotFoundError extends Error {
+  constructor(readonly location: string) {
+    super(`Could not find "${location}" to search around`);
+    this.name = "LocationNotFoundError";
+  }
+}
+
+// BUSINESS_SOURCE picks the directory to search: "google" (default) or "fixture" (BUSINESS_SOURCE_FIXTURES file)
+const providerFactories: Record<string, () => BusinessSourceProvider> = {
+  google: () => googlePlacesProvider,
+  fixture: () => createFixtureProvider(process.env.BUSINESS_SOURCE_FIXTURES),
+};
+
+let activeProvider: BusinessSourceProvider | undefined;
+
+export function getBusinessSourceProvider(): BusinessSourceProvider {
+  if (!activeProvider) {
+    const name = (process.env.BUSINESS_SOURCE || "google").toLowerCase();
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown BUSINESS_SOURCE "${name}" (expected one of: ${Object.keys(providerFactories).join(", ")})`);
+    }
+    activeProvider = factory();
+  }
+  return activeProvider;
+}
+
+// Coordinates for a place name or address: the business source's own geocoder when it has one, then the built-in
+// gazetteer of US city centres (which also accepts "lat, lng")
+export async function geocodeLocation(location: string, stats: BusinessSearchStats): Promise<GeoPoint | null> {
+  const provider = getBusinessSourceProvider();
+  if (provider.geocode) {
+    try {
+      const point = await provider.geocode(location, stats);
+      if (point) {
+        return point;
+      }
+    } catch (error) {
+      console.warn(`Geocoding "${location}" with the ${provider.name} source failed, using the gazetteer:`, error);
+    }
+  }
+  return lookupGazetteer(location);
+}
+
+function toLead(business: SourceBusiness, source: string, criteria: FitCriteria, settings?: ScoringSettings): LeadToSave {
+  const { origin, features, taxonomy } = criteria;
+  const industry = industryFromTypes(taxonomy, business.types);
+  const distance = origin && business.latitude != null && business.longitude != null
+    ? Math.round(distanceMiles(origin, { latitude: business.latitude, longitude: business.longitude }) * 100) / 100
+    : null;
+  // Generate contact email (we'll try to find real ones via PDL)
+  const businessDomain = business.website ?
+    new URL(business.website).hostname.replace('www.', '') :
+    `${business.name.toLowerCase().replace(/[^a-z0-9]/g, '')}.com`;
+
+  return {
+    businessName: business.name,
+    placeId: business.sourceId,
+    industry,
+    placeTypes: business.types,
+    ...buildRationale({
+      businessName: business.name,
+      industry,
+      placeTypes: business.types,
+      source,
+      businessStatus: business.businessStatus,
+      rating: business.rating,
+      ratingCount: business.ratingCount,
+      distanceMiles: distance,
+      distanceFrom: origin?.label,
+      locationCount: business.locationCount,
+      valuedFeatures: featuresValuedBy(taxonomy, business.types, features),
+    }),
+    // Generate contact name (will be enhanced by PDL if found)
+    contactName: `${business.name} Manager`,
+    email: `info@${businessDomain}`,
+    website: business.website || `https://${businessDomain}`,
+    linkedinUrl: `https://linkedin.com/company/${business.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}`,
+    latitude: business.latitude ?? null,
+    longitude: business.longitude ?? null,
+    rating: business.rating ?? null,
+    ratingCount: business.ratingCount ?? null,
+    distanceMiles: distance,
+    ...scoreLead({ ...business, businessName: business.name, industry }, criteria, settings),
+  };
+}
+
+// Search the configured business source and turn the results into unsaved leads, best fit first
+export async function searchBusinesses(
+  businessType: string,
+  location: string,
+  squareFootage: string,
+  features: string[],
+  stats: BusinessSearchStats = { placesFound: 0, googleCalls: 0, closedSkipped: 0, detailErrors: 0 },
+  context: SearchContext = {}
+): Promise<LeadToSave[]> {
+  try {
+    const { origin, radiusMiles, settings, taxonomy = defaultBusinessTaxonomy } = context;
+    const maxResults = resultLimit(context);
+    if (radiusMiles && !origin) {
+      throw new LocationNotFoundError(location);
+    }
+
+    const provider = getBusinessSourceProvider();
+    const area = radiusMiles && origin ? { latitude: origin.latitude, longitude: origin.longitude, radiusMiles } : undefined;
+    const placeTypes = placeTypesFor(taxonomy, businessType);
+    const businesses = await provider.search({ businessType, placeTypes, location, maxResults, area }, stats);
+
+    const leads: LeadToSave[] = [];
+    for (const business of businesses) {
+      try {
+        leads.push(toLead(business, provider.name, { businessType, squareFootage, features, origin, taxonomy }, settings));
+      } catch (error) {
+        console.warn(`Error processing business ${business.name}:`, error);
+      }
+    }
+
+    leads.sort((a, b) => (b.fitScore ?? 0) - (a.fitScore ?? 0));
+    console.log(`🎯 Generated ${leads.length} real business leads from ${provider.name} source`);
+    return leads;
+
+  } catch (error) {
+    console.error('Error searching businesses:', error);
+    throw error;
+  }
+}
+
+// Runs fn over items with at most limit calls in flight, keeping the results in item order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Run several business type/location queries, a few at a time, and merge their leads best fit first, keeping the
+// maxResults best across all of them. A place found by more than one query is kept once, from the query it fits best,
+// and tagged with every business type and location that found it. A failing query only fails the search when every query fails or a radius
+// search location cannot be found.
+export async function searchBusinessesAcross(
+  queries: BusinessQuery[],
+  squareFootage: string,
+  features: string[],
+  stats: BusinessSearchStats,
+  context: Omit<SearchContext, "origin"> = {}
+): Promise<LeadToSave[]> {
+  const outcomes = await mapWithConcurrency(queries, QUERY_CONCURRENCY, async (query) => {
+    try {
+      const leads = await searchBusinesses(query.businessType, query.location, squareFootage, features, stats, { ...context, origin: query.origin });
+      const foundBy = [query.location, ...(query.alsoCovers ?? [])].map(location => ({ businessType: query.businessType, location }));
+      return { leads: leads.map(lead => ({ ...lead, foundBy })) };
+    } catch (error) {
+      console.warn(`Search for "${query.businessType}" in "${query.location}" failed:`, error);
+      return { error };
+    }
+  });
+
+  const notFound = outcomes.find(outcome => outcome.error instanceof LocationNotFoundError);
+  if (notFound) {
+    throw notFound.error;
+  }
+  if (outcomes.every(outcome => outcome.error)) {
+    throw outcomes[0].error;
+  }
+
+  const byPlace = new Map<string, LeadToSave>();
+  const unplaced: LeadToSave[] = [];
+  for (const lead of outcomes.flatMap(outcome => outcome.leads ?? [])) {
+    if (!lead.placeId) {
+      unplaced.push(lead);
+      continue;
+    }
+    const kept = byPlace.get(lead.placeId);
+    if (!kept) {
+      byPlace.set(lead.placeId, lead);
+      continue;
+    }
+    const foundBy = [...(kept.foundBy ?? []), ...(lead.foundBy ?? [])];
+    byPlace.set(lead.placeId, { ...((lead.fitScore ?? 0) > (kept.fitScore ?? 0) ? lead : kept), foundBy });
+  }
+
+  const merged = [...Array.from(byPlace.values()), ...unplaced].sort((a, b) => (b.fitScore ?? 0) - (a.fitScore ?? 0));
+  const leads = merged.slice(0, resultLimit(context));
+  if (queries.length > 1) {
+    console.log(`🧩 Merged ${merged.length} distinct businesses from ${queries.length} queries, keeping the best ${leads.length}`);
+  }
+  return leads;
+}
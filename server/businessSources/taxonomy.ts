@@ -0,0 +1,225 @@
+import type { BusinessTaxonomy, BusinessTypeSuggestion } from "@shared/schema";
+
+// Built-in taxonomy each workspace starts from: business types brokers search for, mapped onto the Google Places type
+// vocabulary every source uses, and the industry shown for a lead's place types
+export const defaultBusinessTaxonomy: BusinessTaxonomy = {
+  categories: [
+    {
+      name: "Restaurant",
+      synonyms: ["restaurants", "dining", "eatery", "diner", "takeout", "fast food", "pizza"],
+      placeTypes: ["restaurant", "meal_takeaway", "food"],
+      valuedFeatures: ["Parking", "Loading Dock", "Retail Visibility", "Walk-In Traffic", "Storage Space"],
+    },
+    {
+      name: "Cafe",
+      synonyms: ["coffee", "coffee shop", "coffee house", "espresso bar", "tea house", "bakery"],
+      placeTypes: ["cafe", "bakery"],
+      valuedFeatures: ["Parking", "Retail Visibility", "Walk-In Traffic"],
+    },
+    {
+      name: "Retail",
+      synonyms: ["store", "shop", "retail store", "boutique", "clothing store", "shopping"],
+      placeTypes: ["clothing_store", "store", "shopping_mall", "electronics_store"],
+      valuedFeatures: ["Parking", "Loading Dock", "Retail Visibility", "Walk-In Traffic", "Storage Space"],
+    },
+    {
+      name: "Office",
+      synonyms: ["professional services", "law firm", "lawyer", "attorney", "accountant", "accounting", "insurance", "real estate"],
+      placeTypes: ["real_estate_agency", "accounting", "lawyer", "insurance_agency"],
+      valuedFeatures: ["Office Space"],
+    },
+    {
+      name: "Medical",
+      synonyms: ["doctor", "physician", "clinic", "healthcare", "health care", "medical office", "urgent care", "dentist", "dental", "dental office", "pharmacy", "physical therapy"],
+      placeTypes: ["hospital", "doctor", "dentist", "pharmacy", "health", "physiotherapist"],
+      valuedFeatures: ["Parking", "Office Space", "Walk-In Traffic", "Storage Space"],
+    },
+    {
+      name: "Fitness",
+      synonyms: ["gym", "health club", "fitness center", "yoga", "pilates", "crossfit", "spa"],
+      placeTypes: ["gym", "spa", "beauty_salon"],
+      valuedFeatures: ["Parking", "Retail Visibility", "Walk-In Traffic"],
+    },
+    {
+      name: "Beauty",
+      synonyms: ["salon", "hair salon", "barber", "barbershop", "nail salon", "day spa"],
+      placeTypes: ["beauty_salon", "hair_care", "spa"],
+      valuedFeatures: ["Parking", "Retail Visibility", "Walk-In Traffic"],
+    },
+    {
+      name: "Child Care",
+      synonyms: ["daycare", "day care", "childcare", "preschool", "nursery", "early learning"],
+      placeTypes: ["child_care_agency", "preschool", "school"],
+      valuedFeatures: ["Parking"],
+    },
+    {
+      name: "Automotive",
+      synonyms: ["car dealer", "auto repair", "mechanic", "car wash", "gas station", "tire shop"],
+      placeTypes: ["car_dealer", "car_repair", "gas_station", "car_wash"],
+      valuedFeatures: ["Parking", "Loading Dock", "Retail Visibility", "Storage Space"],
+    },
+    {
+      name: "Entertainment",
+      synonyms: ["movie theater", "cinema", "bowling", "arcade", "amusement"],
+      placeTypes: ["movie_theater", "amusement_park", "tourist_attraction", "bowling_alley"],
+      valuedFeatures: ["Parking", "Retail Visibility"],
+    },
+    {
+      name: "Financial",
+      synonyms: ["bank", "credit union", "finance", "financial services", "atm"],
+      placeTypes: ["bank", "atm", "finance"],
+      valuedFeatures: ["Retail Visibility", "Office Space", "Walk-In Traffic"],
+    },
+    {
+      name: "Education",
+      synonyms: ["school", "tutoring", "learning center", "college", "university", "library"],
+      placeTypes: ["school", "university", "library"],
+      valuedFeatures: ["Parking", "Office Space"],
+    },
+    {
+      name: "Pet Services",
+      synonyms: ["veterinarian", "vet", "animal hospital", "pet store", "pet grooming", "groomer"],
+      placeTypes: ["veterinary_care", "pet_store"],
+      valuedFeatures: ["Parking", "Retail Visibility", "Walk-In Traffic"],
+    },
+    {
+      name: "Technology",
+      synonyms: ["tech", "software", "it services", "computer", "electronics"],
+      placeTypes: ["electronics_store", "computer_store"],
+      valuedFeatures: ["Loading Dock", "Office Space", "Storage Space"],
+    },
+  ],
+  industries: [
+    { placeType: "restaurant", industry: "Restaurant and Food Service" },
+    { placeType: "meal_takeaway", industry: "Restaurant and Food Service" },
+    { placeType: "food", industry: "Restaurant and Food Service" },
+    { placeType: "cafe", industry: "Cafe and Coffee" },
+    { placeType: "bakery", industry: "Bakery" },
+    { placeType: "clothing_store", industry: "Retail and Fashion" },
+    { placeType: "store", industry: "Retail Store" },
+    { placeType: "shopping_mall", industry: "Retail and Shopping" },
+    { placeType: "electronics_store", industry: "Electronics and Technology" },
+    { placeType: "real_estate_agency", industry: "Real Estate Services" },
+    { placeType: "accounting", industry: "Professional Services" },
+    { placeType: "lawyer", industry: "Legal Services" },
+    { placeType: "insurance_agency", industry: "Insurance Services" },
+    { placeType: "hospital", industry: "Healthcare Services" },
+    { placeType: "doctor", industry: "Medical Practice" },
+    { placeType: "dentist", industry: "Dental Services" },
+    { placeType: "pharmacy", industry: "Healthcare and Pharmacy" },
+    { placeType: "physiotherapist", industry: "Physical Therapy" },
+    { placeType: "gym", industry: "Health and Wellness" },
+    { placeType: "spa", industry: "Health and Wellness" },
+    { placeType: "beauty_salon", industry: "Beauty and Wellness" },
+    { placeType: "hair_care", industry: "Beauty and Wellness" },
+    { placeType: "child_care_agency", industry: "Child Care" },
+    { placeType: "preschool", industry: "Child Care" },
+    { placeType: "car_dealer", industry: "Automotive Sales" },
+    { placeType: "car_repair", industry: "Automotive Services" },
+    { placeType: "car_wash", industry: "Automotive Services" },
+    { placeType: "gas_station", industry: "Automotive and Fuel" },
+    { placeType: "movie_theater", industry: "Entertainment" },
+    { placeType: "bowling_alley", industry: "Entertainment" },
+    { placeType: "bank", industry: "Financial Services" },
+    { placeType: "school", industry: "Educational Services" },
+    { placeType: "university", industry: "Higher Education" },
+    { placeType: "veterinary_care", industry: "Veterinary Services" },
+    { placeType: "pet_store", industry: "Pet Supplies" },
+  ],
+};
+
+// Industry for businesses none of whose place types has one
+const FALLBACK_INDUSTRY = "Professional Services";
+
+// Lower case words with simple plurals folded, so "Coffee Shops" and "coffee shop" match
+function termWords(term: string): string[] {
+  return term
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+}
+
+function categoryTerms(category: BusinessTaxonomy["categories"][number]): string[] {
+  return [category.name, ...category.synonyms, ...category.placeTypes];
+}
+
+// Google place types for a searched-for business type. A category whose name, synonym or place type is the whole
+// search wins outright; otherwise the categories whose longest term appears in it are combined, so "dental office"
+// prefers the "dental office" synonym over "office". Unknown types search every establishment.
+export function placeTypesFor(taxonomy: BusinessTaxonomy, businessType: string): string[] {
+  const wanted = termWords(businessType);
+  const phrase = wanted.join(" ");
+
+  const exact = taxonomy.categories.find(category => categoryTerms(category).some(term => termWords(term).join(" ") === phrase));
+  if (exact) {
+    return exact.placeTypes;
+  }
+
+  let bestLength = 0;
+  let best: string[] = [];
+  for (const category of taxonomy.categories) {
+    const length = Math.max(0, ...categoryTerms(category)
+      .map(termWords)
+      .filter(words => words.length > 0 && words.every(word => wanted.includes(word)))
+      .map(words => words.length));
+    if (length > bestLength) {
+      bestLength = length;
+      best = [...category.placeTypes];
+    } else if (length > 0 && length === bestLength) {
+      best.push(...category.placeTypes.filter(type => !best.includes(type)));
+    }
+  }
+
+  return best.length > 0 ? best : ["establishment"];
+}
+
+// The requested property features that businesses of these Google place types tend to need
+export function featuresValuedBy(taxonomy: BusinessTaxonomy, types: string[], features: string[]): string[] {
+  const valued = taxonomy.categories
+    .filter(category => category.placeTypes.some(type => types.includes(type)))
+    .flatMap(category => category.valuedFeatures.map(feature => feature.toLowerCase()));
+  return features.filter(feature => valued.includes(feature.toLowerCase()));
+}
+
+export function industryFromTypes(taxonomy: BusinessTaxonomy, types: string[]): string {
+  for (const type of types) {
+    const mapped = taxonomy.industries.find(entry => entry.placeType === type);
+    if (mapped) {
+      return mapped.industry;
+    }
+  }
+  return FALLBACK_INDUSTRY;
+}
+
+// Business Type autocomplete: category names and synonyms starting with (or with a word starting with) the text
+// typed, category names first. With nothing typed, every category name.
+export function suggestBusinessTypes(taxonomy: BusinessTaxonomy, query: string, limit: number): BusinessTypeSuggestion[] {
+  const typed = query.trim().toLowerCase();
+  const ranked: { suggestion: BusinessTypeSuggestion; rank: number }[] = [];
+
+  for (const category of taxonomy.categories) {
+    const candidates = typed ? [category.name, ...category.synonyms] : [category.name];
+    candidates.forEach((value, index) => {
+      const lower = value.toLowerCase();
+      const rank = lower.startsWith(typed) ? 0 : lower.split(/\s+/).some(word => word.startsWith(typed)) ? 2 : -1;
+      if (rank >= 0) {
+        ranked.push({ suggestion: { value, category: category.name, placeTypes: category.placeTypes }, rank: rank + (index === 0 ? 0 : 1) });
+      }
+    });
+  }
+
+  const seen = new Set<string>();
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.suggestion.value.localeCompare(b.suggestion.value))
+    .map(entry => entry.suggestion)
+    .filter(suggestion => {
+      const key = suggestion.value.toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
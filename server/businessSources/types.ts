@@ -0,0 +1,44 @@
+import type { GeoPoint } from "../leadScoring";
+
+// A business as returned by any source, before it is turned into a lead
+export interface SourceBusiness {
+  sourceId: string; // Stable per-source identifier (the Google place_id), stored as the lead's place_id
+  name: string;
+  address: string;
+  types: string[]; // Google Places type vocabulary, e.g. "dentist", "gym"
+  latitude?: number;
+  longitude?: number;
+  rating?: number;
+  ratingCount?: number;
+  website?: string;
+  phone?: string;
+  businessStatus?: string; // e.g. "OPERATIONAL" or "CLOSED_TEMPORARILY" (permanently closed businesses are never returned)
+  locationCount?: number; // Locations of the same business among all of the source's matches for the query
+}
+
+export interface BusinessSearchQuery {
+  businessType: string;
+  placeTypes: string[]; // Google place types the business type stands for in the workspace taxonomy; ["establishment"] when unknown
+  location: string;
+  maxResults: number;
+  // Search around this point instead of by location name, keeping only businesses within the radius
+  area?: GeoPoint & { radiusMiles: number };
+}
+
+// Counters filled in while a search runs so callers can record API usage and what was left out
+export interface BusinessSearchStats {
+  placesFound: number;
+  googleCalls: number;
+  closedSkipped: number; // Matches left out because they have closed permanently
+  detailErrors: number; // Matches left out because their details could not be fetched
+}
+
+// A directory of businesses that lead generation can search
+export interface BusinessSourceProvider {
+  readonly name: string;
+  // Open businesses matching the query, best first and at most query.maxResults of them
+  search(query: BusinessSearchQuery, stats: BusinessSearchStats): Promise<SourceBusiness[]>;
+  // Coordinates for a place name or street address, or null when the source cannot find it. Sources without a
+  // geocoder leave this out and the built-in gazetteer is used.
+  geocode?(location: string, stats: BusinessSearchStats): Promise<GeoPoint | null>;
+}
@@ -0,0 +1,13 @@
+import { defaultBusinessTaxonomy } from "./businessSources/taxonomy";
+import { storage } from "./storage";
+import type { BusinessTaxonomyResponse } from "@shared/schema";
+
+// The workspace's business type taxonomy. A workspace that has never used it gets a copy of the built-in one first,
+// so its admins edit real rows and deleting every category does not bring the defaults back.
+export async function getBusinessTaxonomy(workspaceId: number): Promise<BusinessTaxonomyResponse> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (workspace && !workspace.taxonomySeededAt) {
+    await storage.seedBusinessTaxonomy(workspaceId, defaultBusinessTaxonomy);
+  }
+  return await storage.getBusinessTaxonomy(workspaceId);
+}
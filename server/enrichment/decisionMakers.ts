@@ -0,0 +1,19 @@
+// Titles of the people who sign (or shape) a lease, most senior first. A title scores the rank of the first
+// pattern it matches; anything unmatched is not treated as a decision maker.
+const seniorityRanks: Array<[RegExp, number]> = [
+  [/\b(owner|co-?owner|founder|co-?founder|proprietor|managing partner)\b/i, 100],
+  [/\b(ceo|chief executive|(?<!vice )president)\b/i, 90],
+  [/\b(coo|chief operating|cfo|chief financial)\b/i, 80],
+  [/\breal estate\b/i, 70],
+  [/\b(facilities|facility|workplace)\b/i, 60],
+  [/\b(general manager|managing director|practice manager)\b/i, 50],
+  [/\b(office manager|office administrator)\b/i, 40],
+  [/\b(director|head) of operations\b|\boperations (director|manager)\b/i, 30],
+];
+
+export function titleSeniority(title: string | null | undefined): number {
+  if (!title) {
+    return 0;
+  }
+  return seniorityRanks.find(([pattern]) => pattern.test(title))?.[1] ?? 0;
+}
@@ -0,0 +1,176 @@
+import type { EnrichmentField, InsertContact, InsertLeadEnrichment } from "@shared/schema";
+import { titleSeniority } from "./decisionMakers";
+import { pdlProvider } from "./pdl";
+import { stubEnrichmentProvider } from "./stub";
+import type { CompanyEnrichmentResult, EnrichmentInput, EnrichmentProvider, EnrichmentResult, EnrichmentUsage, PeopleSearchResult, RetryHint } from "./types";
+
+export type { CompanyEnrichmentResult, EnrichmentInput, EnrichmentProvider, EnrichmentResult, EnrichmentUsage, PeopleSearchResult, PersonMatch, ProviderCall } from "./types";
+export { titleSeniority } from "./decisionMakers";
+
+const providers: Record<string, EnrichmentProvider> = {
+  pdl: pdlProvider,
+  stub: stubEnrichmentProvider,
+};
+
+// Nothing matched and at least one provider failed in a way that may clear up (rate limit, outage); the
+// enrichment queue retries the job later instead of recording "no match"
+export class TransientEnrichmentError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "TransientEnrichmentError";
+  }
+}
+
+function throwIfTransient(results: Array<RetryHint & { source: string; error?: string }>): void {
+  const retryable = results.filter(result => result.retryable);
+  if (retryable.length === 0) {
+    return;
+  }
+
+  const retryAfterMs = Math.max(0, ...retryable.map(result => result.retryAfterMs ?? 0));
+  throw new TransientEnrichmentError(
+    retryable.map(result => `${result.source}: ${result.error ?? "temporary failure"}`).join("; "),
+    retryAfterMs || undefined
+  );
+}
+
+// ENRICHMENT_PROVIDERS is the waterfall order, e.g. "pdl,stub" (ENRICHMENT_PROVIDER, a single name, is also accepted)
+export function getEnrichmentProviders(): EnrichmentProvider[] {
+  const names = (process.env.ENRICHMENT_PROVIDERS || process.env.ENRICHMENT_PROVIDER || "pdl")
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.map(name => {
+    const provider = providers[name];
+    if (!provider) {
+      throw new Error(`Unknown enrichment provider "${name}" (expected any of: ${Object.keys(providers).join(", ")})`);
+    }
+    return provider;
+  });
+}
+
+// Fields taken from the first provider that has them, versus the most confident provider's answer
+const firstValueFields: EnrichmentField[] = ["phone", "linkedinUrl"];
+const bestConfidenceFields: EnrichmentField[] = ["enrichedName", "title"];
+
+function fieldValue(result: EnrichmentResult, field: EnrichmentField): string | undefined {
+  const value = field === "enrichedName" ? result.fullName : result[field];
+  return value?.trim() || undefined;
+}
+
+export type WaterfallResult = {
+  success: boolean;
+  source?: string; // First provider that matched
+  fields: InsertLeadEnrichment[];
+  attempts: EnrichmentResult[];
+};
+
+// Try each provider in order until every field has a value, then merge: first non-empty phone and LinkedIn URL,
+// highest-confidence name and title (earlier providers win ties). Throws TransientEnrichmentError when nothing
+// matched but a provider may succeed on a later attempt.
+export async function enrichWithWaterfall(
+  input: EnrichmentInput,
+  waterfall: EnrichmentProvider[] = getEnrichmentProviders(),
+  usage?: EnrichmentUsage
+): Promise<WaterfallResult> {
+  const attempts: EnrichmentResult[] = [];
+  const chosen = new Map<EnrichmentField, InsertLeadEnrichment>();
+
+  for (const provider of waterfall) {
+    const result = await provider.enrich(input, usage);
+    attempts.push(result);
+    if (!result.success) {
+      continue;
+    }
+
+    const confidence = result.confidence ?? null;
+    for (const field of [...firstValueFields, ...bestConfidenceFields]) {
+      const value = fieldValue(result, field);
+      if (!value) {
+        continue;
+      }
+      const current = chosen.get(field);
+      const better = !current || (bestConfidenceFields.includes(field) && (confidence ?? 0) > (current.confidence ?? 0));
+      if (better) {
+        chosen.set(field, { field, value, source: result.source, confidence });
+      }
+    }
+
+    if (chosen.size === firstValueFields.length + bestConfidenceFields.length) {
+      break;
+    }
+  }
+
+  const fields = Array.from(chosen.values());
+  if (fields.length === 0) {
+    throwIfTransient(attempts);
+  }
+  return {
+    success: fields.length > 0,
+    source: attempts.find(attempt => attempt.success)?.source,
+    fields,
+    attempts,
+  };
+}
+
+// Company enrichment uses the same waterfall order, stopping at the first provider that knows the domain
+export async function enrichCompany(domain: string, usage?: EnrichmentUsage): Promise<CompanyEnrichmentResult> {
+  const results: CompanyEnrichmentResult[] = [];
+
+  for (const provider of getEnrichmentProviders()) {
+    if (!provider.enrichCompany) {
+      continue;
+    }
+    const result = await provider.enrichCompany(domain, usage);
+    if (result.success) {
+      return result;
+    }
+    results.push(result);
+  }
+
+  throwIfTransient(results);
+  return results[results.length - 1] ?? { success: false, source: "none", error: "No company enrichment provider configured" };
+}
+
+// Decision makers at the company with this domain, best first: people are taken from the first provider in the
+// waterfall that finds anyone with a real estate decision-making title, then ranked by title seniority
+export async function findDecisionMakers(domain: string, limit: number = 5, usage?: EnrichmentUsage): Promise<InsertContact[]> {
+  const misses: PeopleSearchResult[] = [];
+
+  for (const provider of getEnrichmentProviders()) {
+    if (!provider.findPeople) {
+      continue;
+    }
+
+    const result = await provider.findPeople(domain, usage);
+    const ranked = result.people
+      .map(person => ({ person, seniority: titleSeniority(person.title) }))
+      .filter(({ seniority }) => seniority > 0)
+      .sort((a, b) => b.seniority - a.seniority);
+    if (ranked.length === 0) {
+      misses.push(result);
+      continue;
+    }
+
+    const seen = new Set<string>();
+    return ranked
+      .filter(({ person }) => {
+        const key = person.fullName.trim().toLowerCase();
+        return !seen.has(key) && !!seen.add(key);
+      })
+      .slice(0, limit)
+      .map(({ person, seniority }) => ({
+        fullName: person.fullName,
+        title: person.title ?? null,
+        email: person.email ?? null,
+        phone: person.phone ?? null,
+        linkedinUrl: person.linkedinUrl ?? null,
+        seniority,
+        source: result.source,
+      }));
+  }
+
+  throwIfTransient(misses);
+  return [];
+}
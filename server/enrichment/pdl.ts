@@ -0,0 +1,405 @@
+import { cache } from '../middleware/cache';
+import type { EnrichmentOperation } from '@shared/schema';
+import type { CompanyEnrichmentResult, EnrichmentInput, EnrichmentProvider, EnrichmentResult, EnrichmentUsage, PeopleSearchResult, PersonMatch, RetryHint } from './types';
+
+// People Data Labs API integration
+interface PDLPersonResponse {
+  status: number;
+  likelihood?: number; // 1-10 match likelihood
+  data?: {
+    full_name?: string;
+    first_name?: string;
+    last_name?: string;
+    job_title?: string;
+    job_company_name?: string;
+    emails?: Array<{
+      address: string;
+      type?: string;
+    }>;
+    phone_numbers?: Array<{
+      number: string;
+      type?: string;
+    }>;
+    linkedin_url?: string;
+    profiles?: Array<{
+      network: string;
+      url: string;
+    }>;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+interface PDLCompanyResponse {
+  status: number;
+  name?: string;
+  employee_count?: number;
+  employee_growth_rate?: {
+    "12_month"?: number;
+  };
+  founded?: number;
+  industry?: string;
+  location?: {
+    name?: string;
+  };
+  total_funding_raised?: number;
+  latest_funding_stage?: string;
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+interface PDLPersonSearchResponse {
+  status: number;
+  data?: Array<{
+    full_name?: string;
+    job_title?: string;
+    work_email?: string;
+    mobile_phone?: string;
+    linkedin_url?: string;
+  }>;
+  total?: number;
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+const PDL_API_KEY = process.env.PDL_API_KEY;
+const PDL_ENDPOINT = "https://api.peopledatalabs.com/v5/person/enrich";
+const PDL_COMPANY_ENDPOINT = "https://api.peopledatalabs.com/v5/company/enrich";
+const PDL_PERSON_SEARCH_ENDPOINT = "https://api.peopledatalabs.com/v5/person/search";
+// Seniority levels worth paying for; titleSeniority() does the finer ranking
+const PDL_DECISION_MAKER_LEVELS = ["owner", "cxo", "vp", "director", "manager"];
+const PDL_PEOPLE_SEARCH_SIZE = 10;
+const SOURCE = "pdl";
+
+// PDL bills per matched record; misses and errors are free but still counted as calls
+function recordCall(usage: EnrichmentUsage | undefined, operation: EnrichmentOperation, credits: number): void {
+  usage?.calls.push({ provider: SOURCE, operation, credits });
+}
+
+// Rate limits and server errors clear up on their own; anything else (bad key, bad request) will not
+function retryHint(response: Response): RetryHint {
+  const retryAfterSeconds = Number(response.headers.get("retry-after"));
+  return {
+    retryable: response.status === 429 || response.status >= 500,
+    retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined,
+  };
+}
+
+// Matches on email only: the other inputs are generated placeholders that would hurt PDL's match rate
+async function enrichPersonWithPDL({ email }: EnrichmentInput, usage?: EnrichmentUsage): Promise<EnrichmentResult> {
+  try {
+    // Security: Validate email format before API call
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      return {
+        success: false,
+        source: SOURCE,
+        error: 'Invalid email format',
+      };
+    }
+
+    // Security: Check API key availability without logging it
+    if (!PDL_API_KEY) {
+      console.error('❌ PDL API key not configured in environment variables');
+      return {
+        success: false,
+        source: SOURCE,
+        error: 'PDL API key not configured',
+      };
+    }
+
+    // Performance: Check cache first
+    const cacheKey = `pdl:${email}`;
+    const cachedResult = cache.get<EnrichmentResult>(cacheKey);
+    if (cachedResult) {
+      console.log(`📋 Using cached PDL data for ${email.substring(0, 3)}***`);
+      return cachedResult;
+    }
+
+    console.log(`🔍 Making PDL API request for email: ${email.substring(0, 3)}***`);
+    console.log(`📡 PDL Endpoint: ${PDL_ENDPOINT}`);
+
+    const requestBody = {
+      email: email,
+      min_likelihood: 3,
+    };
+    console.log(`📤 Request body:`, JSON.stringify(requestBody, null, 2));
+
+    const response = await fetch(PDL_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Api-Key": PDL_API_KEY,
+      },
+      body: JSON.stringify(requestBody),
+    });
+    recordCall(usage, "person", response.status === 200 ? 1 : 0);
+
+    console.log(`📥 PDL Response status: ${response.status}`);
+    console.log(`📥 PDL Response headers:`, Object.fromEntries(response.headers.entries()));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ PDL API error (${response.status}):`, errorText);
+      return {
+        success: false,
+        source: SOURCE,
+        error: `PDL API returned ${response.status}: ${errorText}`,
+        ...retryHint(response),
+      };
+    }
+
+    const result: PDLPersonResponse = await response.json();
+
+    // Log full response for debugging
+    console.log("📋 FULL PDL API RESPONSE:", JSON.stringify(result, null, 2));
+
+    if (result.status === 200 && result.data) {
+      const data = result.data;
+
+      // Extract phone number (prioritize mobile/work numbers)
+      let phone: string | undefined;
+      if (data.phone_numbers && data.phone_numbers.length > 0) {
+        // Look for mobile first, then work, then any
+        const mobilePhone = data.phone_numbers.find(p => p.type?.toLowerCase().includes('mobile'));
+        const workPhone = data.phone_numbers.find(p => p.type?.toLowerCase().includes('work'));
+        phone = mobilePhone?.number || workPhone?.number || data.phone_numbers[0].number;
+      }
+
+      // Extract LinkedIn URL
+      let linkedinUrl: string | undefined;
+      if (data.linkedin_url) {
+        linkedinUrl = data.linkedin_url;
+      } else if (data.profiles) {
+        const linkedinProfile = data.profiles.find(p => p.network.toLowerCase() === 'linkedin');
+        linkedinUrl = linkedinProfile?.url;
+      }
+
+      const enrichedData: EnrichmentResult = {
+        phone,
+        fullName: data.full_name,
+        title: data.job_title,
+        linkedinUrl,
+        confidence: result.likelihood !== undefined ? result.likelihood / 10 : undefined,
+        source: SOURCE,
+        success: true,
+      };
+
+      console.log(`✅ PDL enrichment successful for ${email}:`, enrichedData);
+
+      // Performance: Cache successful results for 1 hour
+      cache.set(cacheKey, enrichedData, 60 * 60 * 1000);
+
+      return enrichedData;
+    } else {
+      console.log(`⚠️ No real match found for ${email} (status: ${result.status})`);
+      const failureResult: EnrichmentResult = {
+        success: false,
+        source: SOURCE,
+        error: result.error?.message || '⚠️ No real match found',
+      };
+
+      // Performance: Cache negative results for 30 minutes to reduce API calls
+      cache.set(cacheKey, failureResult, 30 * 60 * 1000);
+
+      return failureResult;
+    }
+  } catch (error) {
+    console.error(`💥 PDL API request failed for ${email}:`, error);
+    return {
+      success: false,
+      source: SOURCE,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retryable: true,
+    };
+  }
+}
+
+async function enrichCompanyWithPDL(domain: string, usage?: EnrichmentUsage): Promise<CompanyEnrichmentResult> {
+  try {
+    // Security: Check API key availability without logging it
+    if (!PDL_API_KEY) {
+      return {
+        success: false,
+        source: SOURCE,
+        error: 'PDL API key not configured',
+      };
+    }
+
+    // Performance: Check cache first
+    const cacheKey = `pdl-company:${domain}`;
+    const cachedResult = cache.get<CompanyEnrichmentResult>(cacheKey);
+    if (cachedResult) {
+      console.log(`📋 Using cached PDL company data for ${domain}`);
+      return cachedResult;
+    }
+
+    console.log(`🏢 Making PDL company request for domain: ${domain}`);
+
+    const response = await fetch(`${PDL_COMPANY_ENDPOINT}?${new URLSearchParams({ website: domain, min_likelihood: "3" })}`, {
+      headers: {
+        "X-Api-Key": PDL_API_KEY,
+      },
+    });
+    recordCall(usage, "company", response.status === 200 ? 1 : 0);
+
+    // 404 is PDL's "no match", which is an answer rather than a failure
+    if (!response.ok && response.status !== 404) {
+      const errorText = await response.text();
+      console.error(`❌ PDL company API error (${response.status}):`, errorText);
+      return {
+        success: false,
+        source: SOURCE,
+        error: `PDL API returned ${response.status}: ${errorText}`,
+        ...retryHint(response),
+      };
+    }
+
+    const result: PDLCompanyResponse = await response.json();
+
+    if (result.status === 200 && result.name) {
+      const companyData: CompanyEnrichmentResult = {
+        success: true,
+        name: result.name,
+        employeeCount: result.employee_count,
+        headcountGrowth: result.employee_growth_rate?.["12_month"],
+        foundedYear: result.founded,
+        industry: result.industry,
+        hqLocation: result.location?.name,
+        totalFunding: result.total_funding_raised,
+        latestFundingStage: result.latest_funding_stage,
+        source: SOURCE,
+      };
+
+      console.log(`✅ PDL company enrichment successful for ${domain}: ${companyData.name}`);
+
+      // Performance: Cache successful results for 1 hour
+      cache.set(cacheKey, companyData, 60 * 60 * 1000);
+      return companyData;
+    }
+
+    console.log(`⚠️ No company match found for ${domain} (status: ${result.status})`);
+    const failureResult: CompanyEnrichmentResult = {
+      success: false,
+      source: SOURCE,
+      error: result.error?.message || 'No company match found',
+    };
+
+    // Performance: Cache negative results for 30 minutes to reduce API calls
+    cache.set(cacheKey, failureResult, 30 * 60 * 1000);
+    return failureResult;
+  } catch (error) {
+    console.error(`💥 PDL company request failed for ${domain}:`, error);
+    return {
+      success: false,
+      source: SOURCE,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retryable: true,
+    };
+  }
+}
+
+// Person search bills per record returned, so the query is narrowed to senior people at the domain
+async function findPeopleWithPDL(domain: string, usage?: EnrichmentUsage): Promise<PeopleSearchResult> {
+  try {
+    // Security: Check API key availability without logging it
+    if (!PDL_API_KEY) {
+      return {
+        success: false,
+        people: [],
+        source: SOURCE,
+        error: 'PDL API key not configured',
+      };
+    }
+
+    // Performance: Check cache first
+    const cacheKey = `pdl-people:${domain}`;
+    const cachedResult = cache.get<PeopleSearchResult>(cacheKey);
+    if (cachedResult) {
+      console.log(`📋 Using cached PDL people for ${domain}`);
+      return cachedResult;
+    }
+
+    console.log(`👥 Making PDL person search for domain: ${domain}`);
+
+    const response = await fetch(PDL_PERSON_SEARCH_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Api-Key": PDL_API_KEY,
+      },
+      body: JSON.stringify({
+        query: {
+          bool: {
+            must: [
+              { term: { job_company_website: domain } },
+              { terms: { job_title_levels: PDL_DECISION_MAKER_LEVELS } },
+            ],
+          },
+        },
+        size: PDL_PEOPLE_SEARCH_SIZE,
+      }),
+    });
+
+    // 404 is PDL's "nobody found", which is an answer rather than a failure
+    if (!response.ok && response.status !== 404) {
+      const errorText = await response.text();
+      console.error(`❌ PDL person search error (${response.status}):`, errorText);
+      recordCall(usage, "people_search", 0);
+      return {
+        success: false,
+        people: [],
+        source: SOURCE,
+        error: `PDL API returned ${response.status}: ${errorText}`,
+        ...retryHint(response),
+      };
+    }
+
+    const result: PDLPersonSearchResponse = await response.json();
+    const people: PersonMatch[] = (result.data ?? [])
+      .filter(person => person.full_name)
+      .map(person => ({
+        fullName: person.full_name!,
+        title: person.job_title,
+        email: person.work_email,
+        phone: person.mobile_phone,
+        linkedinUrl: person.linkedin_url,
+      }));
+
+    // Search is billed per record returned
+    recordCall(usage, "people_search", result.data?.length ?? 0);
+    console.log(`✅ PDL person search found ${people.length} people at ${domain}`);
+    const searchResult: PeopleSearchResult = {
+      success: people.length > 0,
+      people,
+      source: SOURCE,
+      error: people.length === 0 ? result.error?.message || 'No people found' : undefined,
+    };
+
+    // Performance: Cache results for 1 hour, empty ones for 30 minutes
+    cache.set(cacheKey, searchResult, (people.length > 0 ? 60 : 30) * 60 * 1000);
+    return searchResult;
+  } catch (error) {
+    console.error(`💥 PDL person search failed for ${domain}:`, error);
+    return {
+      success: false,
+      people: [],
+      source: SOURCE,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retryable: true,
+    };
+  }
+}
+
+export const pdlProvider: EnrichmentProvider = {
+  name: SOURCE,
+  enrich: enrichPersonWithPDL,
+  enrichCompany: enrichCompanyWithPDL,
+  findPeople: findPeopleWithPDL,
+};
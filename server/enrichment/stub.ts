@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+import type { CompanyEnrichmentResult, EnrichmentInput, EnrichmentProvider, EnrichmentResult, PeopleSearchResult } from "./types";
+
+const SOURCE = "stub";
+
+const FIRST_NAMES = ["Avery", "Jordan", "Morgan", "Riley", "Casey", "Taylor", "Quinn", "Reese", "Drew", "Skyler"];
+const LAST_NAMES = ["Nguyen", "Patel", "Garcia", "Johnson", "Kim", "Okafor", "Rossi", "Schmidt", "Haddad", "Lopez"];
+const TITLES = ["Owner", "General Manager", "Operations Director", "Founder", "Practice Manager", "Head of Real Estate"];
+// Staff lists deliberately include people who would not sign a lease, so ranking and filtering have work to do
+const STAFF_TITLES = ["Owner", "CEO", "COO", "Office Manager", "Facilities Coordinator", "Director of Real Estate", "Sales Associate", "Barista", "Marketing Specialist"];
+
+const INDUSTRIES = ["health, wellness and fitness", "restaurants", "retail", "legal services", "accounting", "financial services"];
+const HQ_LOCATIONS = ["austin, texas, united states", "denver, colorado, united states", "dallas, texas, united states", "boulder, colorado, united states"];
+const FUNDING_STAGES = ["seed", "series_a", "series_b"];
+
+// Roughly this share of emails "match", so both enriched and unmatched leads show up in development
+const MATCH_RATE = 0.6;
+
+// Offline provider for development and demos: the same email always yields the same made-up person,
+// with 555 phone numbers so nothing it returns can be mistaken for real contact data
+export const stubEnrichmentProvider: EnrichmentProvider = {
+  name: SOURCE,
+
+  async enrich({ email }: EnrichmentInput): Promise<EnrichmentResult> {
+    const digest = createHash("sha256").update(email.trim().toLowerCase()).digest();
+
+    if (digest[0] / 255 >= MATCH_RATE) {
+      return { success: false, source: SOURCE, error: "No stub match for this email" };
+    }
+
+    const firstName = FIRST_NAMES[digest[1] % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[digest[2] % LAST_NAMES.length];
+    const lineNumber = String(100 + (digest.readUInt16BE(3) % 100)).padStart(4, "0");
+
+    return {
+      success: true,
+      phone: `(555) 555-${lineNumber}`,
+      fullName: `${firstName} ${lastName}`,
+      title: TITLES[digest[5] % TITLES.length],
+      linkedinUrl: `https://www.linkedin.com/in/${firstName}-${lastName}-${digest.toString("hex", 6, 9)}`.toLowerCase(),
+      confidence: 0.5 + (digest[9] % 46) / 100,
+      source: SOURCE,
+    };
+  },
+
+  // Same idea for companies: a stable made-up profile per domain, with a mix of shrinking and fast-growing teams
+  async enrichCompany(domain: string): Promise<CompanyEnrichmentResult> {
+    const digest = createHash("sha256").update(`company:${domain.trim().toLowerCase()}`).digest();
+
+    if (digest[0] / 255 >= MATCH_RATE) {
+      return { success: false, source: SOURCE, error: "No stub match for this domain" };
+    }
+
+    const funded = digest[6] % 3 === 0;
+    return {
+      success: true,
+      name: domain.split(".")[0].replace(/-/g, " "),
+      employeeCount: 5 + digest.readUInt16BE(1) % 496,
+      headcountGrowth: ((digest[3] % 71) - 10) / 100, // -10% to +60%
+      foundedYear: 1970 + digest[4] % 53,
+      industry: INDUSTRIES[digest[5] % INDUSTRIES.length],
+      hqLocation: HQ_LOCATIONS[digest[7] % HQ_LOCATIONS.length],
+      totalFunding: funded ? (1 + digest[8] % 40) * 500_000 : undefined,
+      latestFundingStage: funded ? FUNDING_STAGES[digest[9] % FUNDING_STAGES.length] : undefined,
+      source: SOURCE,
+    };
+  },
+
+  async findPeople(domain: string): Promise<PeopleSearchResult> {
+    const digest = createHash("sha256").update(`people:${domain.trim().toLowerCase()}`).digest();
+    const count = digest[0] % 5; // 0-4 people
+
+    const people = Array.from({ length: count }, (_, index) => {
+      const firstName = FIRST_NAMES[digest[1 + index * 3] % FIRST_NAMES.length];
+      const lastName = LAST_NAMES[digest[2 + index * 3] % LAST_NAMES.length];
+      const lineNumber = String(100 + (digest[3 + index * 3] % 100)).padStart(4, "0");
+      return {
+        fullName: `${firstName} ${lastName}`,
+        title: STAFF_TITLES[(digest[16] + index * 4) % STAFF_TITLES.length], // Distinct titles within a business
+        email: `${firstName}.${lastName}@${domain}`.toLowerCase(),
+        phone: `(555) 555-${lineNumber}`,
+      };
+    });
+
+    return count > 0
+      ? { success: true, people, source: SOURCE }
+      : { success: false, people: [], source: SOURCE, error: "No stub people for this domain" };
+  },
+};
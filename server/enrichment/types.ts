@@ -0,0 +1,78 @@
+import type { EnrichmentOperation } from "@shared/schema";
+
+// What we know about a lead's contact before enrichment; providers use whichever fields they support
+export interface EnrichmentInput {
+  email: string;
+  fullName?: string;
+  companyName?: string;
+  domain?: string;
+}
+
+// Set by providers when a failure is worth retrying later: rate limits, server errors and network failures
+export interface RetryHint {
+  retryable?: boolean;
+  retryAfterMs?: number; // From the provider's Retry-After header, when it sends one
+}
+
+export interface EnrichmentResult extends RetryHint {
+  success: boolean;
+  phone?: string;
+  fullName?: string;
+  title?: string;
+  linkedinUrl?: string;
+  confidence?: number; // 0-1, how sure the provider is that this is the right person
+  source: string; // Provider name, stored as leads.enrichment_source
+  error?: string;
+}
+
+export interface CompanyEnrichmentResult extends RetryHint {
+  success: boolean;
+  name?: string;
+  employeeCount?: number;
+  headcountGrowth?: number; // 12-month employee growth rate, e.g. 0.15 = +15%
+  foundedYear?: number;
+  industry?: string;
+  hqLocation?: string;
+  totalFunding?: number; // USD
+  latestFundingStage?: string;
+  source: string;
+  error?: string;
+}
+
+// Someone a provider says works at a company
+export interface PersonMatch {
+  fullName: string;
+  title?: string;
+  email?: string;
+  phone?: string;
+  linkedinUrl?: string;
+}
+
+export interface PeopleSearchResult extends RetryHint {
+  success: boolean;
+  people: PersonMatch[];
+  source: string;
+  error?: string;
+}
+
+// One request actually sent to a vendor (cache hits are free), with the credits it was billed
+export interface ProviderCall {
+  provider: string;
+  operation: EnrichmentOperation;
+  credits: number;
+}
+
+// Collects vendor requests so callers can record API usage and charge the workspace's credit budget
+export interface EnrichmentUsage {
+  calls: ProviderCall[];
+}
+
+// A contact-enrichment vendor that the enrichment queue can call
+export interface EnrichmentProvider {
+  readonly name: string;
+  enrich(input: EnrichmentInput, usage?: EnrichmentUsage): Promise<EnrichmentResult>;
+  // Company-level enrichment keyed on a website domain, for providers that offer it
+  enrichCompany?(domain: string, usage?: EnrichmentUsage): Promise<CompanyEnrichmentResult>;
+  // People currently working at the company with this website domain, for providers that offer it
+  findPeople?(domain: string, usage?: EnrichmentUsage): Promise<PeopleSearchResult>;
+}
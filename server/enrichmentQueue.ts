@@ -0,0 +1,286 @@
+import { EventEmitter } from "events";
+import { enrichCompany, enrichWithWaterfall, findDecisionMakers, TransientEnrichmentError, type EnrichmentUsage } from "./enrichment";
+import { normalizeDomain } from "./leadDedupe";
+import { rescoreLead } from "./leadScoring";
+import { withCompanyFacts } from "./rationale";
+import { getScoringSettings } from "./scoringProfiles";
+import { storage, type LeadEnrichmentUpdate } from "./storage";
+import type { Company, EnrichmentCreditSummary, EnrichmentField, EnrichmentJob, Lead, LeadEnrichmentEvent } from "@shared/schema";
+
+// Decision makers kept per business
+const CONTACTS_PER_LEAD = 5;
+// The most credits one job can cost: a people search returning CONTACTS_PER_LEAD people, then a person and a company match
+const CREDITS_PER_JOB = CONTACTS_PER_LEAD + 2;
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// Jobs worked on at once; provider rate limits matter more than throughput here
+const JOBS_PER_BATCH = 3;
+const MAX_ATTEMPTS = 5;
+// Backoff doubles from 30s per failed attempt, capped at 30 minutes
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+// A running job not finished within this long is assumed to belong to a crashed process and is picked up again
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+// How long company data is trusted before it is fetched again; misses are retried sooner
+const COMPANY_REFRESH_DAYS = 30;
+const COMPANY_MISS_RETRY_DAYS = 7;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+// Progress events for the browser, per workspace. In-process, so only clients of this server instance hear them.
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+export function onLeadEnrichment(workspaceId: number, listener: (event: LeadEnrichmentEvent) => void): () => void {
+  const eventName = `workspace:${workspaceId}`;
+  events.on(eventName, listener);
+  return () => {
+    events.off(eventName, listener);
+  };
+}
+
+async function publish(workspaceId: number, lead: Lead): Promise<void> {
+  if (!lead.enrichmentStatus) {
+    return;
+  }
+  const [withEnrichments] = await storage.getLeadsWithEnrichments([lead]);
+  const event: LeadEnrichmentEvent = { leadId: lead.id, status: lead.enrichmentStatus, lead: withEnrichments };
+  events.emit(`workspace:${workspaceId}`, event);
+}
+
+// Firmographics for a website domain, from the companies table while fresh, otherwise from the providers
+async function resolveCompany(domain: string, usage: EnrichmentUsage): Promise<Company> {
+  const existing = await storage.getCompanyByDomain(domain);
+  if (existing && existing.enrichedAt > daysAgo(existing.matched ? COMPANY_REFRESH_DAYS : COMPANY_MISS_RETRY_DAYS)) {
+    return existing;
+  }
+
+  const result = await enrichCompany(domain, usage);
+  if (!result.success && existing?.matched) {
+    // Keep what we knew rather than forgetting a company because of one failed refresh
+    return existing;
+  }
+
+  return await storage.upsertCompany(domain, {
+    matched: result.success,
+    name: result.name ?? null,
+    employeeCount: result.employeeCount ?? null,
+    headcountGrowth: result.headcountGrowth ?? null,
+    foundedYear: result.foundedYear ?? null,
+    industry: result.industry ?? null,
+    hqLocation: result.hqLocation ?? null,
+    totalFunding: result.totalFunding ?? null,
+    latestFundingStage: result.latestFundingStage ?? null,
+    source: result.success ? result.source : null,
+    enrichedAt: new Date(),
+  });
+}
+
+// The company's headcount feeds the fit score, judged against the square footage of the search that found the lead
+async function rescoreWithCompany(lead: Lead, company?: Company): Promise<LeadEnrichmentUpdate["fit"]> {
+  if (!company?.matched || !lead.fitFactors || !lead.searchRunId || !lead.workspaceId) {
+    return undefined;
+  }
+  const run = await storage.getSearchRun(lead.workspaceId, lead.searchRunId);
+  if (!run) {
+    return undefined;
+  }
+  return rescoreLead({ ...lead, company }, await getScoringSettings(lead.workspaceId), run.criteria.squareFootage);
+}
+
+// Decision makers first, so person enrichment runs against a real name and email rather than the generated
+// "<name> Manager" / info@ placeholder; then the provider waterfall; then the company behind the website
+async function enrichLead(lead: Lead, usage: EnrichmentUsage): Promise<LeadEnrichmentUpdate> {
+  const domain = normalizeDomain(lead.website);
+  const leadContacts = domain ? await findDecisionMakers(domain, CONTACTS_PER_LEAD, usage) : [];
+  const [primary] = leadContacts;
+
+  const enrichment = await enrichWithWaterfall(
+    {
+      email: primary?.email ?? lead.email,
+      fullName: primary?.fullName ?? lead.contactName,
+      companyName: lead.businessName,
+      domain: domain ?? undefined,
+    },
+    undefined,
+    usage
+  );
+  const value = (field: EnrichmentField) => enrichment.fields.find(entry => entry.field === field)?.value;
+
+  const company = domain ? await resolveCompany(domain, usage) : undefined;
+
+  return {
+    status: enrichment.success ? "enriched" : "not_found",
+    fields: {
+      ...(enrichment.success ? {
+        phone: value("phone"),
+        enrichedName: value("enrichedName"),
+        title: value("title"),
+        linkedinUrl: value("linkedinUrl"),
+        isEnriched: true,
+        enrichmentSource: enrichment.source,
+      } : {}),
+      companyId: company?.matched ? company.id : undefined,
+    },
+    enrichments: enrichment.fields,
+    contacts: leadContacts,
+    fit: await rescoreWithCompany(lead, company),
+    rationale: withCompanyFacts(lead, company),
+  };
+}
+
+// Credits reset on the first of each month (UTC)
+function creditPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export async function getEnrichmentCredits(workspaceId: number): Promise<EnrichmentCreditSummary | undefined> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace) {
+    return undefined;
+  }
+
+  const periodStart = creditPeriodStart();
+  const byProvider = await storage.getEnrichmentUsage(workspaceId, periodStart);
+  const used = byProvider.reduce((total, row) => total + row.credits, 0);
+  const reserved = await storage.getReservedEnrichmentCredits(workspaceId);
+  return {
+    periodStart: periodStart.toISOString(),
+    monthlyCredits: workspace.enrichmentMonthlyCredits,
+    used,
+    reserved,
+    remaining: Math.max(workspace.enrichmentMonthlyCredits - used - reserved, 0),
+    autoEnrichCount: workspace.autoEnrichCount,
+    byProvider,
+  };
+}
+
+// How many more leads the remaining credits can pay for, each at the most a job can cost
+export function affordableEnrichmentCount(credits: EnrichmentCreditSummary): number {
+  return Math.floor(credits.remaining / CREDITS_PER_JOB);
+}
+
+function backoffMs(attempts: number, retryAfterMs?: number): number {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return Math.max(exponential, retryAfterMs ?? 0);
+}
+
+async function processJob(job: EnrichmentJob): Promise<void> {
+  const usage: EnrichmentUsage = { calls: [] };
+  const pdlCalls = () => usage.calls.filter(call => call.provider === "pdl").length;
+
+  try {
+    const lead = await storage.getLead(job.workspaceId, job.leadId);
+    if (!lead || lead.deletedAt) {
+      // Nothing to enrich any more; finishing the job is enough
+      await storage.completeEnrichmentJob(job, { status: "not_found", fields: {}, enrichments: [], contacts: [] });
+      return;
+    }
+
+    // Claiming reserved the job's credits if the month's budget had room, so jobs running side by side cannot overspend it
+    if (job.reservedCredits === 0) {
+      console.log(`💳 Workspace ${job.workspaceId} is out of enrichment credits, skipping lead ${lead.id}`);
+      const skipped = await storage.completeEnrichmentJob(job, { status: "over_budget", fields: {}, enrichments: [], contacts: [] });
+      if (skipped) {
+        await publish(job.workspaceId, skipped);
+      }
+      return;
+    }
+
+    console.log(`📞 Enriching lead ${lead.id} (${lead.businessName}), attempt ${job.attempts}`);
+    const update = await enrichLead(lead, usage);
+    await storage.recordEnrichmentUsage(job.workspaceId, lead.id, usage.calls);
+    const enriched = await storage.completeEnrichmentJob(job, update);
+    if (job.searchRunId) {
+      await storage.addSearchRunUsage(job.searchRunId, { pdlCalls: pdlCalls(), enrichedCount: update.status === "enriched" ? 1 : 0 });
+    }
+    if (enriched) {
+      await publish(job.workspaceId, enriched);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // Failed attempts still cost whatever the provider charged before the failure
+    await storage.recordEnrichmentUsage(job.workspaceId, job.leadId, usage.calls);
+    if (job.searchRunId && pdlCalls() > 0) {
+      await storage.addSearchRunUsage(job.searchRunId, { pdlCalls: pdlCalls(), enrichedCount: 0 });
+    }
+
+    if (job.attempts < MAX_ATTEMPTS) {
+      const delay = backoffMs(job.attempts, error instanceof TransientEnrichmentError ? error.retryAfterMs : undefined);
+      console.warn(`⏳ Enrichment job ${job.id} failed (attempt ${job.attempts}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+      await storage.rescheduleEnrichmentJob(job.id, new Date(Date.now() + delay), message);
+      return;
+    }
+
+    console.error(`❌ Enrichment job ${job.id} gave up after ${job.attempts} attempts: ${message}`);
+    const failed = await storage.failEnrichmentJob(job, message);
+    if (failed) {
+      await publish(job.workspaceId, failed);
+    }
+  }
+}
+
+let workInProgress = false;
+
+// Work through due jobs until none are left
+async function drainQueue(): Promise<void> {
+  if (workInProgress) {
+    return;
+  }
+  workInProgress = true;
+  try {
+    for (;;) {
+      const jobs = await storage.claimEnrichmentJobs(JOBS_PER_BATCH, new Date(Date.now() - STALE_LOCK_MS), {
+        creditsPerJob: CREDITS_PER_JOB,
+        periodStart: creditPeriodStart(),
+      });
+      if (jobs.length === 0) {
+        break;
+      }
+      await Promise.all(jobs.map(processJob));
+    }
+  } catch (error) {
+    console.error("Error processing enrichment queue:", error);
+  } finally {
+    workInProgress = false;
+  }
+}
+
+// Queue the first of a batch of newly saved leads for background enrichment, as many as the workspace's
+// auto-enrich setting allows. Returns the batch with the queued leads marked pending, in the original order.
+export async function enqueueLeadEnrichment(workspaceId: number, savedLeads: Lead[], searchRunId?: number): Promise<Lead[]> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  const autoEnrichCount = workspace?.autoEnrichCount ?? 0;
+  if (autoEnrichCount === 0 || savedLeads.length === 0) {
+    return savedLeads;
+  }
+
+  const queued = await storage.enqueueEnrichmentJobs(
+    workspaceId,
+    savedLeads.slice(0, autoEnrichCount).map(lead => lead.id),
+    searchRunId
+  );
+  if (queued.length > 0) {
+    console.log(`🚀 Queued ${queued.length} leads for enrichment`);
+    void drainQueue();
+  }
+  return savedLeads.map(lead => queued.find(item => item.id === lead.id) ?? lead);
+}
+
+// Queue leads a user asked to enrich. Leads already waiting are skipped; returns the leads that were queued.
+export async function queueLeadsForEnrichment(workspaceId: number, leadIds: string[]): Promise<Lead[]> {
+  const queued = await storage.enqueueEnrichmentJobs(workspaceId, leadIds);
+  if (queued.length > 0) {
+    console.log(`🚀 Queued ${queued.length} leads for on-demand enrichment`);
+    void drainQueue();
+  }
+  return queued;
+}
+
+// In-process worker: polls for due jobs (retries, and work left over from a restart) every few seconds
+export function startEnrichmentWorker(): NodeJS.Timeout {
+  console.log("🔁 Enrichment worker started");
+  void drainQueue();
+  return setInterval(() => void drainQueue(), POLL_INTERVAL_MS);
+}
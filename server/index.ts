@@ -6,6 +6,11 @@ import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { monitoringMiddleware } from "./middleware/monitoring";
+import { startSearchScheduler } from "./scheduler";
+import { startEnrichmentWorker } from "./enrichmentQueue";
+import { storage } from "./storage";
+import { getBusinessSourceProvider } from "./businessSources";
+import { serveMapTiles } from "./mapTiles";
 
 const app = express();
 
@@ -67,6 +72,8 @@ app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 // Performance: Add monitoring middleware
 app.use(monitoringMiddleware);
 
+serveMapTiles(app);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -127,5 +134,13 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    log(`business source: ${getBusinessSourceProvider().name}`);
+    startSearchScheduler();
+    startEnrichmentWorker();
+
+    // Leads saved before deduplication have no dedupe keys yet
+    storage.backfillLeadDedupeKeys()
+      .then(updated => updated > 0 && log(`derived dedupe keys for ${updated} leads`))
+      .catch(error => console.error("Error backfilling lead dedupe keys:", error));
   });
 })();
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { findSameBusiness, leadDedupeKeys } from "./leadDedupe";
+
+function savedLead(id: string, placeId: string | null, website: string, createdAt = new Date("2024-01-01")) {
+  return { id, placeId, ...leadDedupeKeys({ businessName: "Joe's Coffee", website }), deletedAt: null as Date | null, createdAt };
+}
+
+test("branches with the same domain and different place IDs are separate businesses", () => {
+  const downtown = savedLead("downtown", "place-downtown", "https://joescoffee.com");
+  const incoming = { placeId: "place-north", ...leadDedupeKeys({ businessName: "Joe's Coffee", website: "https://www.joescoffee.com/north" }) };
+
+  assert.equal(findSameBusiness(incoming, [downtown]), undefined);
+});
+
+test("a branch matches its own place ID over another branch sharing its domain", () => {
+  const downtown = savedLead("downtown", "place-downtown", "https://joescoffee.com");
+  const north = savedLead("north", "place-north", "https://joescoffee.com", new Date("2024-02-01"));
+
+  assert.equal(findSameBusiness({ placeId: "place-north", domain: "joescoffee.com" }, [downtown, north])?.id, "north");
+});
+
+test("domain and name still match when one side has no place ID", () => {
+  const imported = savedLead("imported", null, "https://joescoffee.com");
+  const incoming = { placeId: "place-north", ...leadDedupeKeys({ businessName: "Joe's Coffee", website: "joescoffee.com" }) };
+
+  assert.equal(findSameBusiness(incoming, [imported])?.id, "imported");
+  assert.equal(findSameBusiness({ placeId: null, domain: "joescoffee.com" }, [savedLead("downtown", "place-downtown", "joescoffee.com")])?.id, "downtown");
+});
+
+test("live leads are preferred to trashed ones, then older to newer", () => {
+  const trashed = { ...savedLead("trashed", null, "joescoffee.com", new Date("2023-01-01")), deletedAt: new Date("2024-03-01") };
+  const older = savedLead("older", null, "joescoffee.com", new Date("2024-01-01"));
+  const newer = savedLead("newer", null, "joescoffee.com", new Date("2024-02-01"));
+
+  assert.equal(findSameBusiness({ domain: "joescoffee.com" }, [newer, trashed, older])?.id, "older");
+});
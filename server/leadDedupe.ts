@@ -0,0 +1,94 @@
+// Hosts shared by many unrelated businesses, so matching on them would merge strangers
+const SHARED_HOSTS = new Set([
+  "facebook.com",
+  "instagram.com",
+  "linkedin.com",
+  "yelp.com",
+  "google.com",
+  "sites.google.com",
+  "business.site",
+  "wixsite.com",
+  "squarespace.com",
+  "godaddysites.com",
+]);
+
+// Legal and filler words that differ between listings of the same business
+const NAME_NOISE_WORDS = new Set(["the", "inc", "incorporated", "llc", "llp", "ltd", "co", "corp", "corporation", "company", "pllc", "pc"]);
+
+// "https://www.Example.com/about" -> "example.com"; null for missing, unparseable or shared hosts
+export function normalizeDomain(website: string | null | undefined): string | null {
+  if (!website) {
+    return null;
+  }
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, "").replace(/\.$/, "");
+    if (!host.includes(".") || SHARED_HOSTS.has(host) || Array.from(SHARED_HOSTS).some(shared => host.endsWith(`.${shared}`))) {
+      return null;
+    }
+    return host;
+  } catch {
+    return null;
+  }
+}
+
+// "The Joe's Coffee Co., LLC" -> "joes coffee"; null when nothing meaningful is left
+export function normalizeBusinessName(name: string | null | undefined): string | null {
+  if (!name) {
+    return null;
+  }
+
+  const words = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !NAME_NOISE_WORDS.has(word));
+
+  return words.length > 0 ? words.join(" ") : null;
+}
+
+// Dedupe keys stored alongside a lead; only recomputed for the fields being written
+export function leadDedupeKeys(lead: { businessName?: string | null; website?: string | null }) {
+  return {
+    ...(lead.businessName !== undefined && { normalizedName: normalizeBusinessName(lead.businessName) }),
+    ...(lead.website !== undefined && { domain: normalizeDomain(lead.website) }),
+  };
+}
+
+type DedupeKeys = { placeId?: string | null; domain?: string | null; normalizedName?: string | null };
+
+// Branches of a chain share a website and a name but each has its own place ID, so leads with different place IDs
+// are never the same business
+export function differentPlaces(a: DedupeKeys, b: DedupeKeys): boolean {
+  return !!a.placeId && !!b.placeId && a.placeId !== b.placeId;
+}
+
+// The saved lead an incoming one is the same business as: matched by place ID, then domain, then normalised name,
+// preferring live leads to trashed ones and older to newer
+export function findSameBusiness<T extends DedupeKeys & { deletedAt: Date | null; createdAt: Date }>(incoming: DedupeKeys, saved: T[]): T | undefined {
+  const rank = (lead: T) => {
+    if (lead.placeId && lead.placeId === incoming.placeId) {
+      return 0;
+    }
+    if (differentPlaces(lead, incoming)) {
+      return -1;
+    }
+    if (lead.domain && lead.domain === incoming.domain) {
+      return 1;
+    }
+    return lead.normalizedName && lead.normalizedName === incoming.normalizedName ? 2 : -1;
+  };
+
+  return saved
+    .map(lead => ({ lead, rank: rank(lead) }))
+    .filter(match => match.rank >= 0)
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      Number(!!a.lead.deletedAt) - Number(!!b.lead.deletedAt) ||
+      a.lead.createdAt.getTime() - b.lead.createdAt.getTime())
+    .map(match => match.lead)[0];
+}
@@ -0,0 +1,245 @@
+import { featuresValuedBy, placeTypesFor } from "./businessSources/taxonomy";
+import {
+  defaultFitWeights,
+  fitFactorKeys,
+  scoringRuleFieldLabels,
+  scoringRuleOperatorLabels,
+  type Company,
+  type FitAdjustment,
+  type FitFactor,
+  type FitFactorKey,
+  type BusinessTaxonomy,
+  type Lead,
+  type ScoringRule,
+  type ScoringSettings,
+} from "@shared/schema";
+
+// Used when the workspace has no active scoring profile
+export const defaultScoringSettings: ScoringSettings = { weights: defaultFitWeights, rules: [] };
+
+// Full marks within this many miles of the target, nothing beyond the far limit
+const NEAR_MILES = 0.5;
+const FAR_MILES = 15;
+
+export const KM_PER_MILE = 1.609344;
+
+// Review count that earns full marks; counts are scored on a log scale below that
+const REVIEWS_FOR_FULL_SCORE = 500;
+
+// Rough office planning figure used to size a business's team against the space
+const SQUARE_FEET_PER_EMPLOYEE = 200;
+
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+// Where distances are measured from, and how to name it, e.g. "the property" or "Austin, TX"
+export type SearchOrigin = GeoPoint & { label: string };
+
+// What the broker searched for
+export type FitCriteria = {
+  businessType: string;
+  squareFootage: string;
+  features: string[];
+  origin?: SearchOrigin | null; // The property's location, or the target location's, when it could be geocoded
+  taxonomy: BusinessTaxonomy; // The workspace's business types, for judging a business's type and the features it needs
+};
+
+// What is known about the business
+export type FitSubject = {
+  businessName: string;
+  industry: string;
+  types: string[];
+  latitude?: number | null;
+  longitude?: number | null;
+  rating?: number | null;
+  ratingCount?: number | null;
+  company?: Pick<Company, "matched" | "employeeCount" | "headcountGrowth"> | null;
+};
+
+export type FitResult = Pick<Lead, "fitScore" | "fitFactors" | "fitAdjustments">;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function distanceMiles(from: GeoPoint, to: GeoPoint): number {
+  return distanceKm(from, to) / KM_PER_MILE;
+}
+
+// Weights are filled in from the scoring profile when the factors are combined
+function factor(key: FitFactorKey, score: number | null, detail: string): FitFactor {
+  return { key, weight: 0, score: score === null ? null : Math.round(clamp(score) * 100) / 100, detail };
+}
+
+function industryFactor(subject: FitSubject, businessType: string, taxonomy: BusinessTaxonomy): FitFactor {
+  const wanted = placeTypesFor(taxonomy, businessType);
+  const exactType = businessType.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const primary = [exactType, wanted[0]].find(type => subject.types.includes(type));
+  if (primary) {
+    return factor("industry", 1, `Listed on Google as ${primary.replace(/_/g, " ")}`);
+  }
+  if (wanted[0] === "establishment") {
+    return factor("industry", null, `"${businessType}" is not a known business type`);
+  }
+  const related = wanted.find(type => subject.types.includes(type));
+  if (related) {
+    return factor("industry", 0.75, `Related business type (${related.replace(/_/g, " ")})`);
+  }
+  return factor("industry", 0.2, `Not listed as ${businessType}`);
+}
+
+function distanceFactor(subject: FitSubject, origin?: SearchOrigin | null): FitFactor {
+  if (!origin || subject.latitude == null || subject.longitude == null) {
+    return factor("distance", null, "No location to measure from");
+  }
+  const miles = distanceMiles(origin, { latitude: subject.latitude, longitude: subject.longitude });
+  return factor("distance", 1 - (miles - NEAR_MILES) / (FAR_MILES - NEAR_MILES), `${miles.toFixed(1)} mi from ${origin.label}`);
+}
+
+function ratingFactor(subject: FitSubject): FitFactor {
+  if (subject.rating == null) {
+    return factor("rating", null, "No Google rating");
+  }
+  // 3 stars or less earns nothing, 5 stars everything
+  return factor("rating", (subject.rating - 3) / 2, `Rated ${subject.rating.toFixed(1)} on Google`);
+}
+
+function reviewsFactor(subject: FitSubject): FitFactor {
+  if (subject.ratingCount == null) {
+    return factor("reviews", null, "Review count unknown");
+  }
+  return factor(
+    "reviews",
+    Math.log10(subject.ratingCount + 1) / Math.log10(REVIEWS_FOR_FULL_SCORE + 1),
+    `${subject.ratingCount.toLocaleString("en-US")} Google reviews`
+  );
+}
+
+// A team that would fill the space well scores highest; a growing one gets a boost since it will need room
+function headcountFactor(subject: FitSubject, squareFootage: string): FitFactor {
+  const company = subject.company;
+  if (!company?.matched || company.employeeCount == null) {
+    return factor("headcount", null, "Headcount not known yet");
+  }
+
+  const fits = Math.max(parseInt(squareFootage) || 1000, SQUARE_FEET_PER_EMPLOYEE) / SQUARE_FEET_PER_EMPLOYEE;
+  const ratio = company.employeeCount / fits;
+  let score = ratio < 0.5 ? ratio / 0.5 : ratio > 2 ? 2 / ratio : 1;
+  let detail = `${company.employeeCount.toLocaleString("en-US")} employees for space that fits about ${Math.round(fits)}`;
+  if (company.headcountGrowth != null && company.headcountGrowth > 0.1) {
+    score += 0.2;
+    detail += `, growing ${Math.round(company.headcountGrowth * 100)}% a year`;
+  }
+  return factor("headcount", score, detail);
+}
+
+
+function featuresFactor(subject: FitSubject, features: string[], taxonomy: BusinessTaxonomy): FitFactor {
+  if (features.length === 0) {
+    return factor("features", null, "No property features requested");
+  }
+  const relevant = featuresValuedBy(taxonomy, subject.types, features);
+  return factor(
+    "features",
+    relevant.length / features.length,
+    relevant.length > 0 ? `Likely to value ${relevant.join(", ").toLowerCase()}` : "Requested features matter little to this business"
+  );
+}
+
+// Lead values the rules look at; headcount growth is compared in percent, as it is entered
+function ruleValue(rule: ScoringRule, subject: Omit<FitSubject, "types">): string | number | null | undefined {
+  switch (rule.field) {
+    case "industry":
+      return subject.industry;
+    case "businessName":
+      return subject.businessName;
+    case "rating":
+      return subject.rating;
+    case "ratingCount":
+      return subject.ratingCount;
+    case "employeeCount":
+      return subject.company?.matched ? subject.company.employeeCount : null;
+    case "headcountGrowth":
+      return subject.company?.matched && subject.company.headcountGrowth != null ? subject.company.headcountGrowth * 100 : null;
+  }
+}
+
+function ruleMatches(rule: ScoringRule, subject: Omit<FitSubject, "types">): boolean {
+  const actual = ruleValue(rule, subject);
+  if (actual == null) {
+    return false; // Rules never fire on data we do not have
+  }
+  if (typeof actual === "string" || typeof rule.value === "string") {
+    const text = String(actual).toLowerCase();
+    const wanted = String(rule.value).toLowerCase();
+    return rule.operator === "contains" ? text.includes(wanted) : text === wanted;
+  }
+  switch (rule.operator) {
+    case "lt": return actual < rule.value;
+    case "lte": return actual <= rule.value;
+    case "gt": return actual > rule.value;
+    case "gte": return actual >= rule.value;
+    default: return actual === rule.value;
+  }
+}
+
+export function describeRule(rule: ScoringRule): string {
+  const value = typeof rule.value === "string" ? rule.value : rule.value.toLocaleString("en-US");
+  return `${scoringRuleFieldLabels[rule.field]} ${scoringRuleOperatorLabels[rule.operator]} ${value}`;
+}
+
+// Weight the factor scores by the profile (scaled to shares of 100 points), then apply its rules
+function combine(factors: FitFactor[], subject: Omit<FitSubject, "types">, settings: ScoringSettings): FitResult {
+  const weightTotal = fitFactorKeys.reduce((sum, key) => sum + (settings.weights[key] ?? 0), 0) || 1;
+  const fitFactors = factors.map(entry => ({
+    ...entry,
+    weight: Math.round((settings.weights[entry.key] ?? 0) / weightTotal * 1000) / 10,
+  }));
+  const base = fitFactors.reduce((sum, entry) => sum + entry.weight * (entry.score ?? 0.5), 0);
+
+  const fitAdjustments: FitAdjustment[] = settings.rules
+    .filter(rule => ruleMatches(rule, subject))
+    .map(rule => ({ rule: describeRule(rule), points: rule.adjustment }));
+  const adjusted = fitAdjustments.reduce((sum, entry) => sum + entry.points, base);
+
+  return { fitScore: Math.round(Math.min(Math.max(adjusted, 0), 100)), fitFactors, fitAdjustments };
+}
+
+// 0-100 fit of a business for the space being searched for, with the breakdown behind it
+export function scoreLead(subject: FitSubject, criteria: FitCriteria, settings: ScoringSettings = defaultScoringSettings): FitResult {
+  const factors = [
+    industryFactor(subject, criteria.businessType, criteria.taxonomy),
+    distanceFactor(subject, criteria.origin),
+    ratingFactor(subject),
+    reviewsFactor(subject),
+    headcountFactor(subject, criteria.squareFootage),
+    featuresFactor(subject, criteria.features, criteria.taxonomy),
+  ];
+  return combine(factors, subject, settings);
+}
+
+// Re-score a saved lead under a (possibly changed) profile from the factor scores stored with it. Passing the
+// search's square footage also re-judges the headcount factor against the lead's company, e.g. after enrichment.
+export function rescoreLead(
+  lead: Lead & { company: FitSubject["company"] },
+  settings: ScoringSettings,
+  squareFootage?: string
+): FitResult | undefined {
+  if (!lead.fitFactors) {
+    return undefined;
+  }
+  const subject = { ...lead, types: [] };
+  const factors = squareFootage === undefined
+    ? lead.fitFactors
+    : lead.fitFactors.map(entry => entry.key === "headcount" ? headcountFactor(subject, squareFootage) : entry);
+  return combine(factors, subject, settings);
+}
@@ -0,0 +1,29 @@
+import express, { type Express } from "express";
+import type { MapTileConfig } from "@shared/schema";
+
+const OPENSTREETMAP_TILES: MapTileConfig = {
+  url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+};
+
+// Tile layer the map page draws: MAP_TILE_URL if set, else tiles under MAP_TILES_DIR, else OpenStreetMap
+export function getMapTileConfig(): MapTileConfig {
+  const url = process.env.MAP_TILE_URL || (process.env.MAP_TILES_DIR ? "/tiles/{z}/{x}/{y}.png" : null);
+  if (!url) {
+    return OPENSTREETMAP_TILES;
+  }
+
+  return {
+    url,
+    attribution: process.env.MAP_TILE_ATTRIBUTION ?? OPENSTREETMAP_TILES.attribution,
+    maxZoom: parseInt(process.env.MAP_TILE_MAX_ZOOM ?? "", 10) || OPENSTREETMAP_TILES.maxZoom,
+  };
+}
+
+// Serve a local tile set (e.g. an extract for offline development) at /tiles; a missing tile is a 404, not the app
+export function serveMapTiles(app: Express) {
+  if (process.env.MAP_TILES_DIR) {
+    app.use("/tiles", express.static(process.env.MAP_TILES_DIR, { fallthrough: false, maxAge: "7d" }));
+  }
+}
@@ -0,0 +1,54 @@
+import { Response, NextFunction } from 'express';
+import { hasPermission, type WorkspacePermission, type WorkspaceRole } from '@shared/schema';
+import { storage } from '../storage';
+import type { AuthenticatedRequest } from './auth';
+
+// Security: Requests that act on a workspace carry the caller's verified membership
+export interface WorkspaceRequest extends AuthenticatedRequest {
+  workspace?: {
+    id: number;
+    role: WorkspaceRole;
+  };
+}
+
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+// Resolves the workspace from a :workspaceId route param, the X-Workspace-Id header or the user's
+// default workspace, and rejects the request unless the authenticated user is a member.
+// Must run after authenticateToken.
+export const resolveWorkspace = async (req: WorkspaceRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.id;
+    const requestedId = req.params.workspaceId ?? req.headers[WORKSPACE_HEADER];
+
+    let membership;
+    if (requestedId) {
+      const workspaceId = parseInt(String(requestedId));
+      if (isNaN(workspaceId)) {
+        return res.status(400).json({ error: 'Invalid workspace id' });
+      }
+      membership = await storage.getMembership(workspaceId, userId);
+    } else {
+      membership = await storage.getDefaultMembership(userId);
+    }
+
+    if (!membership) {
+      return res.status(403).json({ error: 'You are not a member of this workspace' });
+    }
+
+    req.workspace = { id: membership.workspaceId, role: membership.role };
+    next();
+  } catch (error) {
+    console.error('Error resolving workspace:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Security: Role-based guard - must run after resolveWorkspace
+export const requirePermission = (permission: WorkspacePermission) =>
+  (req: WorkspaceRequest, res: Response, next: NextFunction) => {
+    if (!req.workspace || !hasPermission(req.workspace.role, permission)) {
+      return res.status(403).json({ error: 'Your workspace role does not allow this action' });
+    }
+    next();
+  };
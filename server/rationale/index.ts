@@ -0,0 +1,144 @@
+import { enrichmentSourceLabels, type Lead, type RationaleClaim } from "@shared/schema";
+import { rationaleTemplateFor } from "./templates";
+import type { RationaleFacts } from "./types";
+
+export type { RationaleFacts, RationaleTemplate } from "./types";
+export { defaultRationaleTemplate, rationaleTemplates } from "./templates";
+
+// Reviews it takes to call a business busy, and the rating (over at least WELL_RATED_MIN_REVIEWS) to call it well rated
+const BUSY_REVIEW_COUNT = 100;
+const WELL_RATED = 4.5;
+const WELL_RATED_MIN_REVIEWS = 20;
+// Year-on-year headcount growth that counts as growing
+const GROWING_HEADCOUNT = 0.1;
+
+// Claims that rest on company data, replaced whenever the company is (re-)enriched
+const companyClaimKeys = ["employeeCount", "headcountGrowth", "growing"];
+
+// Display names for the business sources behind observed listing facts
+const businessSourceLabels: Record<string, string> = {
+  google: "Google",
+  fixture: "the business directory",
+};
+
+export type RationaleResult = Pick<Lead, "rationale" | "rationaleClaims">;
+
+function observed(key: string, text: string, source: string | null): RationaleClaim {
+  return { key, text, basis: "observed", source };
+}
+
+function inferred(key: string, text: string): RationaleClaim {
+  return { key, text, basis: "inferred", source: null };
+}
+
+function listingClaims(facts: RationaleFacts): RationaleClaim[] {
+  const where = businessSourceLabels[facts.source] ?? facts.source;
+  const claims: RationaleClaim[] = [];
+
+  if (facts.businessStatus === "OPERATIONAL") {
+    claims.push(observed("businessStatus", `Open for business according to ${where}.`, facts.source));
+  } else if (facts.businessStatus === "CLOSED_TEMPORARILY") {
+    claims.push(observed("businessStatus", `Listed as temporarily closed on ${where}.`, facts.source));
+  }
+  if (facts.rating != null) {
+    claims.push(observed("rating", `Rated ${facts.rating.toFixed(1)} out of 5 on ${where}.`, facts.source));
+  }
+  if (facts.ratingCount != null) {
+    const count = facts.ratingCount.toLocaleString("en-US");
+    claims.push(observed("reviews", `${count} review${facts.ratingCount === 1 ? "" : "s"} on ${where}.`, facts.source));
+  }
+  if (facts.distanceMiles != null) {
+    const from = facts.distanceFrom ?? "the property";
+    claims.push(observed("distance", `${facts.distanceMiles.toFixed(1)} miles from ${from}.`, facts.source));
+  }
+  if (facts.locationCount != null && facts.locationCount > 1) {
+    claims.push(observed("locations", `${facts.locationCount} locations of this business turned up in the search.`, facts.source));
+  }
+  return claims;
+}
+
+function companyClaims(facts: Pick<RationaleFacts, "company">): RationaleClaim[] {
+  const company = facts.company;
+  if (!company?.matched) {
+    return [];
+  }
+
+  const from = company.source ? ` (${enrichmentSourceLabels[company.source] ?? company.source})` : "";
+  const claims: RationaleClaim[] = [];
+  if (company.employeeCount != null) {
+    claims.push(observed("employeeCount", `About ${company.employeeCount.toLocaleString("en-US")} employees${from}.`, company.source));
+  }
+  if (company.headcountGrowth != null) {
+    const percent = Math.round(Math.abs(company.headcountGrowth) * 100);
+    const text = percent === 0
+      ? `Headcount flat over the past year${from}.`
+      : `Headcount ${company.headcountGrowth > 0 ? "grew" : "shrank"} ${percent}% over the past year${from}.`;
+    claims.push(observed("headcountGrowth", text, company.source));
+  }
+  return claims;
+}
+
+// Our reading of the observed facts, worded for the kind of business
+function inferredClaims(facts: RationaleFacts): RationaleClaim[] {
+  const template = rationaleTemplateFor(facts.placeTypes);
+  const claims: RationaleClaim[] = [];
+
+  if (facts.ratingCount != null && facts.ratingCount >= BUSY_REVIEW_COUNT) {
+    claims.push(inferred("busy", template.busy));
+  }
+  if (facts.rating != null && facts.rating >= WELL_RATED && (facts.ratingCount ?? 0) >= WELL_RATED_MIN_REVIEWS) {
+    claims.push(inferred("wellRated", template.wellRated));
+  }
+  if (facts.locationCount != null && facts.locationCount > 1) {
+    claims.push(inferred("multiLocation", template.multiLocation));
+  }
+  claims.push(...growthClaims(facts));
+  if (facts.valuedFeatures && facts.valuedFeatures.length > 0) {
+    claims.push(inferred("features", template.features(joinList(facts.valuedFeatures.map(feature => feature.toLowerCase())))));
+  }
+  return claims;
+}
+
+function growthClaims(facts: Pick<RationaleFacts, "placeTypes" | "company">): RationaleClaim[] {
+  const growth = facts.company?.matched ? facts.company.headcountGrowth : null;
+  return growth != null && growth >= GROWING_HEADCOUNT ? [inferred("growing", rationaleTemplateFor(facts.placeTypes).growing)] : [];
+}
+
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+// Observed claims first, then the inferences under their own heading so a reader of the plain text (exports,
+// forwarded emails) can tell them apart
+export function renderRationale(claims: RationaleClaim[]): string {
+  const observedText = claims.filter(claim => claim.basis === "observed").map(claim => claim.text).join(" ");
+  const inferredText = claims.filter(claim => claim.basis === "inferred").map(claim => claim.text).join(" ");
+  return inferredText ? `${observedText} Inferred: ${inferredText}` : observedText;
+}
+
+// A rationale made only of facts a source reported about the business, plus inferences labelled as such
+export function buildRationale(facts: RationaleFacts): RationaleResult {
+  const claims = [...listingClaims(facts), ...companyClaims(facts), ...inferredClaims(facts)];
+  if (!claims.some(claim => claim.basis === "observed")) {
+    const where = businessSourceLabels[facts.source] ?? facts.source;
+    claims.unshift(observed("listing", `Listed on ${where} under ${facts.industry}.`, facts.source));
+  }
+  return { rationale: renderRationale(claims), rationaleClaims: claims };
+}
+
+// Swap the company-based claims of a generated rationale for ones from freshly enriched company data. Rationales a
+// broker has rewritten (no stored claims) are left alone.
+export function withCompanyFacts(
+  lead: Pick<Lead, "placeTypes" | "rationaleClaims">,
+  company: RationaleFacts["company"]
+): RationaleResult | undefined {
+  if (!lead.rationaleClaims || !company?.matched) {
+    return undefined;
+  }
+  const claims = [
+    ...lead.rationaleClaims.filter(claim => !companyClaimKeys.includes(claim.key)),
+    ...companyClaims({ company }),
+    ...growthClaims({ placeTypes: lead.placeTypes ?? [], company }),
+  ];
+  return { rationale: renderRationale(claims), rationaleClaims: claims };
+}
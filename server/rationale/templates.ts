@@ -0,0 +1,84 @@
+import type { RationaleTemplate } from "./types";
+
+export const defaultRationaleTemplate: RationaleTemplate = {
+  busy: "A steady stream of customers suggests the business could support more room or a second site.",
+  wellRated: "Consistently strong reviews suggest an established operator.",
+  multiLocation: "Already runs more than one site, so it may be open to another.",
+  growing: "A growing team is likely to need more space soon.",
+  features: (features) => `Likely to value ${features}.`,
+};
+
+const foodService: Partial<RationaleTemplate> = {
+  busy: "Heavy diner traffic suggests demand for a larger dining room or another location.",
+  multiLocation: "Already operating more than one location, so it may be looking for its next one.",
+  features: (features) => `${capitalize(features)} would likely help with deliveries and diners.`,
+};
+
+const retail: Partial<RationaleTemplate> = {
+  busy: "Strong shopper traffic suggests the store could use a bigger floor or another storefront.",
+  multiLocation: "Already has more than one storefront, so it may be scouting another.",
+  features: (features) => `${capitalize(features)} would likely matter to a storefront like this.`,
+};
+
+const healthcare: Partial<RationaleTemplate> = {
+  busy: "A large patient following suggests the practice may need more treatment rooms.",
+  wellRated: "Highly rated by patients, suggesting an established practice.",
+  multiLocation: "Already practises from more than one location, so it may be adding another.",
+  growing: "A growing clinical team is likely to need more rooms soon.",
+  features: (features) => `${capitalize(features)} would likely matter to patients and staff.`,
+};
+
+const wellness: Partial<RationaleTemplate> = {
+  busy: "A large client following suggests demand for more studio or treatment space.",
+  multiLocation: "Already runs more than one studio, so it may be open to another.",
+};
+
+const professional: Partial<RationaleTemplate> = {
+  busy: "A large client base suggests the firm may need more office or meeting space.",
+  growing: "A growing team is likely to need more desks and meeting rooms soon.",
+  features: (features) => `${capitalize(features)} would likely suit client visits and staff.`,
+};
+
+const automotive: Partial<RationaleTemplate> = {
+  busy: "Steady customer traffic suggests demand for more bays or another site.",
+  features: (features) => `${capitalize(features)} would likely suit vehicles and deliveries.`,
+};
+
+// Keyed by Google place type, which workspaces cannot rename the way they can their industries and business types;
+// add an entry to give a kind of business its own wording
+export const rationaleTemplates: Record<string, Partial<RationaleTemplate>> = {
+  restaurant: foodService,
+  meal_takeaway: foodService,
+  food: foodService,
+  clothing_store: retail,
+  store: retail,
+  shopping_mall: retail,
+  electronics_store: retail,
+  hospital: healthcare,
+  doctor: healthcare,
+  dentist: healthcare,
+  pharmacy: healthcare,
+  gym: wellness,
+  spa: wellness,
+  beauty_salon: wellness,
+  hair_care: wellness,
+  accounting: professional,
+  lawyer: professional,
+  insurance_agency: professional,
+  real_estate_agency: professional,
+  bank: professional,
+  car_dealer: automotive,
+  car_repair: automotive,
+  car_wash: automotive,
+  gas_station: automotive,
+};
+
+// The wording for the first of the business's place types that has its own
+export function rationaleTemplateFor(placeTypes: string[]): RationaleTemplate {
+  const placeType = placeTypes.find(type => rationaleTemplates[type]);
+  return { ...defaultRationaleTemplate, ...(placeType ? rationaleTemplates[placeType] : {}) };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,27 @@
+import type { Company } from "@shared/schema";
+
+// Everything the rationale may state about a business. Anything not here is never claimed.
+export interface RationaleFacts {
+  businessName: string;
+  industry: string;
+  placeTypes: string[]; // Google place types, which pick the wording of inferences
+  source: string; // Business source that reported the listing, e.g. "google"
+  businessStatus?: string | null; // The source's business status, e.g. "OPERATIONAL" or "CLOSED_TEMPORARILY"
+  rating?: number | null;
+  ratingCount?: number | null;
+  distanceMiles?: number | null;
+  distanceFrom?: string; // What the distance is measured from, e.g. "the property" or "Austin, TX"
+  locationCount?: number | null; // Locations of the same business among the search's results
+  valuedFeatures?: string[]; // Requested property features this kind of business tends to need
+  company?: Pick<Company, "matched" | "employeeCount" | "headcountGrowth" | "source"> | null;
+}
+
+// How one kind of business words the inferences drawn from observed facts. Each is only used when the fact it rests
+// on was observed; anything a template leaves out comes from the default template.
+export interface RationaleTemplate {
+  busy: string; // Many reviews
+  wellRated: string; // High rating across a fair number of reviews
+  multiLocation: string; // Several locations in the search results
+  growing: string; // Headcount growing year on year
+  features: (features: string) => string; // Requested features this kind of business tends to need
+}
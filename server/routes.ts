@@ -1,13 +1,64 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { body, validationResult } from "express-validator";
-import { searchBusinesses } from "./googlePlaces";
+import { body, param, query, validationResult } from "express-validator";
+import { LocationNotFoundError, searchBusinesses } from "./businessSources";
 import { storage } from "./storage";
-import { enrichTopLeads } from "./pdl";
-import { insertLeadSchema } from "@shared/schema";
+import { executeSearchRun } from "./searchRuns";
+import { affordableEnrichmentCount, enqueueLeadEnrichment, getEnrichmentCredits, onLeadEnrichment, queueLeadsForEnrichment } from "./enrichmentQueue";
+import { runSavedSearch } from "./scheduler";
+import { getScoringSettings, previewScoring, scheduleRescore } from "./scoringProfiles";
+import { getBusinessTaxonomy } from "./businessTaxonomy";
+import { suggestBusinessTypes } from "./businessSources/taxonomy";
+import { CronExpressionError, nextCronRun } from "./cron";
+import { getMapTileConfig } from "./mapTiles";
+import { randomBytes } from "crypto";
+import {
+  insertLeadSchema,
+  updateLeadSchema,
+  updateLeadStageSchema,
+  leadStageLabels,
+  describeFoundBy,
+  insertActivitySchema,
+  updateActivitySchema,
+  insertPropertySchema,
+  updatePropertySchema,
+  createSearchRunSchema,
+  insertSavedSearchSchema,
+  updateSavedSearchSchema,
+  leadFormSchema,
+  leadIdsSchema,
+  mergeLeadsSchema,
+  leadQuerySchema,
+  insertWorkspaceSchema,
+  assignableRoleSchema,
+  updateEnrichmentSettingsSchema,
+  insertScoringProfileSchema,
+  updateScoringProfileSchema,
+  scoringSettingsSchema,
+  insertBusinessCategorySchema,
+  updateBusinessCategorySchema,
+  insertPlaceTypeIndustrySchema,
+  updatePlaceTypeIndustrySchema,
+  loginSchema,
+  type Lead,
+  type ScoringProfileListResponse,
+  type BusinessTaxonomyResponse,
+  type User,
+  type SafeUser,
+} from "@shared/schema";
 import { z } from "zod";
 import rateLimit from "express-rate-limit";
 import { healthCheck } from "./middleware/monitoring";
+import {
+  authenticateToken,
+  generateToken,
+  hashPassword,
+  verifyPassword,
+  passwordSchema,
+  usernameSchema,
+  type AuthenticatedRequest,
+} from "./middleware/auth";
+import { resolveWorkspace, requirePermission, type WorkspaceRequest } from "./middleware/workspace";
 
 // Security: Enhanced rate limiting for lead generation (resource-intensive operation)
 const leadGenerationLimiter = rateLimit({
@@ -20,145 +71,1626 @@ const leadGenerationLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Security: Strict rate limiting for credential endpoints to slow brute-force attempts
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 login/register attempts per window
+  message: {
+    error: 'Too many authentication attempts. Please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const registerSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+});
+
+// Security: Strip the password hash before a user leaves the server
+function toSafeUser(user: User): SafeUser {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+// Security: Reply 400 with express-validator failures; returns true when the request was rejected
+function rejectInvalidInput(req: Request, res: Response): boolean {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    error: 'Validation failed',
+    details: errors.array().map(err => ({
+      field: err.type === 'field' ? err.path : err.type,
+      message: err.msg
+    }))
+  });
+  return true;
+}
+
+// Security: Clamp page/limit query parameters to sane bounds
+function parsePagination(req: Request) {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Invites expire after 7 days
+const MAP_POINT_LIMIT = 2000; // Markers beyond this slow the browser down; the map asks the broker to filter instead
+const BUSINESS_TYPE_SUGGESTION_LIMIT = 8; // Business Type autocomplete entries returned unless limit asks for fewer or more
+
+function toCSV(leads: Lead[]): string {
+  const rows = [
+    ['Business Name', 'Industry', 'Fit Score', 'Distance (mi)', 'Rationale', 'Contact Name', 'Email', 'Phone', 'Website', 'LinkedIn', 'Stage', 'Found By', 'Saved'],
+    ...leads.map(lead => [
+      lead.businessName,
+      lead.industry,
+      lead.fitScore === null ? '' : String(lead.fitScore),
+      lead.distanceMiles === null ? '' : lead.distanceMiles.toFixed(1),
+      lead.rationale,
+      lead.enrichedName || lead.contactName,
+      lead.email,
+      lead.phone || '',
+      lead.website || '',
+      lead.linkedinUrl || '',
+      leadStageLabels[lead.stage],
+      lead.foundBy ? describeFoundBy(lead.foundBy) : '',
+      lead.createdAt.toISOString(),
+    ])
+  ];
+
+  return rows.map(row =>
+    row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint for monitoring
   app.get('/api/health', healthCheck);
+
+  // API route to create a new broker account
+  app.post("/api/auth/register", authLimiter, async (req, res) => {
+    try {
+      const { username, password } = registerSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      // Every account starts with a personal workspace it owns
+      await storage.createWorkspace(`${user.username}'s Workspace`, user.id);
+
+      console.log(`👤 Registered new user: ${user.username}`);
+      res.status(201).json({ user: toSafeUser(user), token: generateToken(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error registering user:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to exchange credentials for a JWT
+  app.post("/api/auth/login", authLimiter, async (req, res) => {
+    try {
+      const { username, password } = loginSchema.parse(req.body);
+
+      // Security: Same response for unknown users and wrong passwords to avoid username enumeration
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      // Accounts created before workspaces existed get their personal workspace on first login
+      if (!(await storage.getDefaultMembership(user.id))) {
+        await storage.createWorkspace(`${user.username}'s Workspace`, user.id);
+      }
+
+      res.json({ user: toSafeUser(user), token: generateToken(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Username and password are required" });
+      }
+
+      console.error("Error logging in:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to fetch the currently authenticated user
+  app.get("/api/auth/me", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(401).json({ error: "User no longer exists" });
+      }
+
+      res.json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Tokens are stateless, so logout only confirms the session is over - the client discards its token
+  app.post("/api/auth/logout", authenticateToken, (_req, res) => {
+    res.status(204).end();
+  });
+
+  // Security: Input validation rules shared by lead creation (array body) and lead edits (single
+  // object body) so a saved lead can never be edited into a shape we would have rejected on create
+  const leadValidationRules = (prefix: string, partial: boolean) => {
+    const field = (name: string) => partial
+      ? body(`${prefix}${name}`).optional()
+      : body(`${prefix}${name}`);
+
+    return [
+      field('businessName')
+        .isLength({ min: 1, max: 255 })
+        .withMessage('Business name must be between 1 and 255 characters'),
+      field('industry')
+        .isLength({ min: 1, max: 100 })
+        .withMessage('Industry must be between 1 and 100 characters'),
+      field('rationale')
+        .isLength({ min: 1, max: 1000 })
+        .withMessage('Rationale must be between 1 and 1000 characters'),
+      field('contactName')
+        .isLength({ min: 1, max: 255 })
+        .withMessage('Contact name must be between 1 and 255 characters'),
+      field('email')
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Invalid email format'),
+      body(`${prefix}website`)
+        .optional({ values: 'null' })
+        .isURL()
+        .withMessage('Invalid website URL'),
+      body(`${prefix}linkedinUrl`)
+        .optional({ values: 'null' })
+        .isURL()
+        .withMessage('Invalid LinkedIn URL'),
+    ];
+  };
+
   // Security: Input validation middleware for lead creation
-  const validateLeadInput = [
-    body('*.businessName')
-      .isLength({ min: 1, max: 255 })
-      .withMessage('Business name must be between 1 and 255 characters'),
-    body('*.industry')
-      .isLength({ min: 1, max: 100 })
-      .withMessage('Industry must be between 1 and 100 characters'),
-    body('*.rationale')
-      .isLength({ min: 1, max: 1000 })
-      .withMessage('Rationale must be between 1 and 1000 characters'),
-    body('*.contactName')
-      .isLength({ min: 1, max: 255 })
-      .withMessage('Contact name must be between 1 and 255 characters'),
-    body('*.email')
-      .isEmail()
-      .normalizeEmail()
-      .withMessage('Invalid email format'),
-    body('*.website')
-      .optional()
-      .isURL()
-      .withMessage('Invalid website URL'),
-    body('*.linkedinUrl')
-      .optional()
-      .isURL()
-      .withMessage('Invalid LinkedIn URL'),
+  const validateLeadInput = leadValidationRules('*.', false);
+
+  // Security: Optional listing the saved leads belong to
+  const validatePropertyQuery = [
+    query('propertyId').optional().isInt({ min: 1 }).withMessage('Invalid property id'),
   ];
 
-  // API route to save generated leads to database
-  app.post("/api/leads", leadGenerationLimiter, validateLeadInput, async (req, res) => {
+  // Security: Input validation middleware for lead edits - every field is optional
+  const validateLeadUpdate = [
+    param('id').isUUID().withMessage('Invalid lead id'),
+    ...leadValidationRules('', true),
+  ];
+
+  const validateLeadId = param('id').isUUID().withMessage('Invalid lead id');
+  const validatePropertyId = param('id').isInt({ min: 1 }).withMessage('Invalid property id');
+  const validateActivityId = [validateLeadId, param('activityId').isInt({ min: 1 }).withMessage('Invalid activity id')];
+  const validateContactId = [validateLeadId, param('contactId').isInt({ min: 1 }).withMessage('Invalid contact id')];
+
+  // API route to list the workspaces the current user belongs to, with their role in each
+  app.get("/api/workspaces", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      // Security: Check validation results
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
+      res.json(await storage.getWorkspacesForUser(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching workspaces:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to create a new workspace owned by the current user
+  app.post("/api/workspaces", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { name } = insertWorkspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace(name, req.user!.id);
+      res.status(201).json(workspace);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+
+      console.error("Error creating workspace:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/members", authenticateToken, resolveWorkspace, async (req: WorkspaceRequest, res) => {
+    try {
+      res.json(await storage.getWorkspaceMembers(req.workspace!.id));
+    } catch (error) {
+      console.error("Error fetching workspace members:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  const validateMemberUserId = param('userId').isInt({ min: 1 }).withMessage('Invalid user id');
+
+  // API route to change a member's role - owners cannot be demoted and ownership cannot be granted
+  app.patch("/api/workspaces/:workspaceId/members/:userId", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), validateMemberUserId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const role = assignableRoleSchema.parse(req.body.role);
+      const userId = parseInt(req.params.userId);
+
+      const membership = await storage.getMembership(req.workspace!.id, userId);
+      if (!membership) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (membership.role === "owner") {
+        return res.status(403).json({ error: "The workspace owner's role cannot be changed" });
+      }
+
+      res.json(await storage.updateMemberRole(req.workspace!.id, userId, role));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Role must be one of admin, broker or viewer" });
+      }
+
+      console.error("Error updating member role:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/workspaces/:workspaceId/members/:userId", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), validateMemberUserId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const userId = parseInt(req.params.userId);
+
+      const membership = await storage.getMembership(req.workspace!.id, userId);
+      if (!membership) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (membership.role === "owner") {
+        return res.status(403).json({ error: "The workspace owner cannot be removed" });
+      }
+
+      await storage.removeMember(req.workspace!.id, userId);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to change the workspace's monthly enrichment credit budget and how many new leads are enriched automatically
+  app.patch("/api/workspaces/:workspaceId/enrichment-settings", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), async (req: WorkspaceRequest, res) => {
+    try {
+      const settings = updateEnrichmentSettingsSchema.parse(req.body);
+      await storage.updateEnrichmentSettings(req.workspace!.id, settings);
+      res.json(await getEnrichmentCredits(req.workspace!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
         return res.status(400).json({
-          error: 'Validation failed',
-          details: errors.array().map(err => ({
-            field: err.param,
-            message: err.msg
+          error: "Invalid enrichment settings",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
           }))
         });
       }
 
-      // Security: Additional Zod validation for type safety
-      const leadsData = z.array(insertLeadSchema).parse(req.body);
-      
-      // Enrich top 5 leads with PDL data to ensure we get 3 real matches
-      console.log("🔍 Starting PDL enrichment for top 5 leads to get 3 real matches...");
-      const enrichedData = await enrichTopLeads(
-        leadsData.map(lead => ({
-          email: lead.email,
-          contactName: lead.contactName,
-          businessName: lead.businessName
-        })),
-        5
-      );
-      
-      // Merge enrichment data back into leads - prioritize successful enrichments
-      const successfulEnrichments = enrichedData.filter(e => e.enrichment.success);
-      console.log(`🎯 Found ${successfulEnrichments.length} successful PDL enrichments`);
-      
-      const leadsWithEnrichment = leadsData.map((lead, index) => {
-        if (index < 5) { // Check first 5 leads for enrichment
-          const enrichment = enrichedData[index]?.enrichment;
-          if (enrichment?.success) {
-            return {
-              ...lead,
-              phone: enrichment.phone,
-              enrichedName: enrichment.fullName,
-              title: enrichment.title,
-              linkedinUrl: enrichment.linkedinUrl || lead.linkedinUrl,
-              isEnriched: true
-            };
-          }
-        }
-        return {
-          ...lead,
-          isEnriched: false
-        };
+      console.error("Error updating enrichment settings:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to create a single-use invite link for the workspace
+  app.post("/api/workspaces/:workspaceId/invites", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), async (req: WorkspaceRequest, res) => {
+    try {
+      const role = assignableRoleSchema.parse(req.body.role ?? "broker");
+
+      const invite = await storage.createWorkspaceInvite({
+        workspaceId: req.workspace!.id,
+        token: randomBytes(24).toString("hex"),
+        role,
+        invitedBy: req.user!.id,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      });
+
+      res.status(201).json({
+        token: invite.token,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
       });
-      
-      // Count and log successful enrichments
-      const enrichedCount = leadsWithEnrichment.filter(lead => lead.isEnriched).length;
-      console.log(`✨ Successfully enriched ${enrichedCount} leads with PDL data`);
-      
-      const savedLeads = await storage.createLeads(leadsWithEnrichment);
-      
-      console.log(`Successfully saved ${savedLeads.length} leads to database (${enrichedData.filter(e => e.enrichment.success).length} enriched)`);
-      res.json(savedLeads);
     } catch (error) {
-      console.error("Error saving leads:", error);
-      
-      // Security: Don't expose sensitive error details to client
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          error: "Invalid lead data format",
+        return res.status(400).json({ error: "Role must be one of admin, broker or viewer" });
+      }
+
+      console.error("Error creating invite:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to preview an invite before accepting it
+  app.get("/api/invites/:token", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const invite = await storage.getWorkspaceInvite(req.params.token);
+      if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+        return res.status(404).json({ error: "This invite is invalid or has expired" });
+      }
+
+      res.json({
+        workspaceId: invite.workspaceId,
+        workspaceName: invite.workspaceName,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
+      });
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invites/:token/accept", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const invite = await storage.getWorkspaceInvite(req.params.token);
+      if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+        return res.status(404).json({ error: "This invite is invalid or has expired" });
+      }
+
+      if (await storage.getMembership(invite.workspaceId, req.user!.id)) {
+        return res.status(409).json({ error: "You are already a member of this workspace" });
+      }
+
+      const membership = await storage.acceptWorkspaceInvite(invite, req.user!.id);
+      res.status(201).json(membership);
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to list the workspace's property listings with how many live leads each has
+  app.get("/api/properties", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const properties = await storage.getProperties(req.workspace!.id);
+      res.json(properties);
+    } catch (error) {
+      console.error("Error fetching properties:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/properties/:id", authenticateToken, resolveWorkspace, requirePermission("read"), validatePropertyId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const property = await storage.getProperty(req.workspace!.id, Number(req.params.id));
+      if (!property) {
+        return res.status(404).json({ error: "Property not found" });
+      }
+
+      res.json(property);
+    } catch (error) {
+      console.error("Error fetching property:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to add a listing the workspace is marketing
+  app.post("/api/properties", authenticateToken, resolveWorkspace, requirePermission("edit"), async (req: WorkspaceRequest, res) => {
+    try {
+      const property = insertPropertySchema.parse(req.body);
+      const created = await storage.createProperty(req.workspace!.id, req.user!.id, property);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid property data",
           details: error.errors.map(err => ({
             field: err.path.join('.'),
             message: err.message
           }))
         });
       }
-      
-      // Generic error response for security
+
+      console.error("Error creating property:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // API route to get all saved leads with pagination and filtering
-  app.get("/api/leads", async (req, res) => {
+  app.patch("/api/properties/:id", authenticateToken, resolveWorkspace, requirePermission("edit"), validatePropertyId, async (req: WorkspaceRequest, res: Response) => {
     try {
-      // Security: Validate query parameters
-      const page = Math.max(1, parseInt(req.query.page as string) || 1);
-      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
-      const offset = (page - 1) * limit;
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
 
-      const leads = await storage.getAllLeads(limit, offset);
-      const totalCount = await storage.getLeadsCount();
-      
-      res.json({
-        leads,
-        pagination: {
-          page,
-          limit,
-          total: totalCount,
-          pages: Math.ceil(totalCount / limit)
-        }
-      });
+      const updates = updatePropertySchema.parse(req.body);
+      const property = await storage.updateProperty(req.workspace!.id, Number(req.params.id), updates);
+      if (!property) {
+        return res.status(404).json({ error: "Property not found" });
+      }
+
+      res.json(property);
     } catch (error) {
-      console.error("Error fetching leads:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid property data",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error updating property:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to remove a listing; its leads are kept but no longer linked to it
+  app.delete("/api/properties/:id", authenticateToken, resolveWorkspace, requirePermission("edit"), validatePropertyId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const deleted = await storage.deleteProperty(req.workspace!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Property not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting property:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  const validateSearchRunId = param('id').isInt({ min: 1 }).withMessage('Invalid search run id');
+
+  // API route to run a lead search (business source search, save, queue enrichment) and record it
+  app.post("/api/search-runs", authenticateToken, resolveWorkspace, requirePermission("generate"), leadGenerationLimiter, async (req: WorkspaceRequest, res) => {
+    try {
+      const request = createSearchRunSchema.parse(req.body);
+      if (request.propertyId && !(await storage.getProperty(req.workspace!.id, request.propertyId))) {
+        return res.status(404).json({ error: "Property not found" });
+      }
+
+      const result = await executeSearchRun({ workspaceId: req.workspace!.id, userId: req.user!.id, request });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid search criteria",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+      if (error instanceof LocationNotFoundError) {
+        return res.status(400).json({
+          error: "Invalid search criteria",
+          details: [{ field: "targetLocation", message: error.message }]
+        });
+      }
+
+      console.error("Error running search:", error);
+      res.status(500).json({ error: "Failed to run search" });
+    }
+  });
+
+  // API route streaming enrichment progress for the workspace's leads as Server-Sent Events
+  app.get("/api/enrichment/events", authenticateToken, resolveWorkspace, requirePermission("read"), (req: WorkspaceRequest, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no", // Stop proxies from holding events back
+    });
+    res.write(": connected\n\n");
+
+    const unsubscribe = onLeadEnrichment(req.workspace!.id, (event) => {
+      res.write(`event: lead\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comments keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25 * 1000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // API route to report this month's enrichment credit usage, broken down by provider and call type
+  app.get("/api/enrichment/usage", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      res.json(await getEnrichmentCredits(req.workspace!.id));
+    } catch (error) {
+      console.error("Error fetching enrichment usage:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to list the workspace's search history, newest first
+  app.get("/api/search-runs", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const { page, limit, offset } = parsePagination(req);
+
+      const [runs, total] = await Promise.all([
+        storage.getSearchRuns(req.workspace!.id, limit, offset),
+        storage.getSearchRunsCount(req.workspace!.id),
+      ]);
+
+      res.json({
+        runs,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching search runs:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/search-runs/:id", authenticateToken, resolveWorkspace, requirePermission("read"), validateSearchRunId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const run = await storage.getSearchRun(req.workspace!.id, Number(req.params.id));
+      if (!run) {
+        return res.status(404).json({ error: "Search run not found" });
+      }
+
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching search run:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to execute a past search again with the same criteria; the new run records what it re-ran
+  app.post("/api/search-runs/:id/rerun", authenticateToken, resolveWorkspace, requirePermission("generate"), leadGenerationLimiter, validateSearchRunId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const original = await storage.getSearchRun(req.workspace!.id, Number(req.params.id));
+      if (!original) {
+        return res.status(404).json({ error: "Search run not found" });
+      }
+
+      const result = await executeSearchRun({
+        workspaceId: req.workspace!.id,
+        userId: req.user!.id,
+        request: { ...original.criteria, propertyId: original.propertyId ?? undefined },
+        rerunOfId: original.id,
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof LocationNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error re-running search:", error);
+      res.status(500).json({ error: "Failed to run search" });
+    }
+  });
+
+  const validateSavedSearchId = param('id').isInt({ min: 1 }).withMessage('Invalid saved search id');
+
+  // API route to list scheduled searches with how many new leads their last run found
+  app.get("/api/saved-searches", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const searches = await storage.getSavedSearches(req.workspace!.id);
+      res.json(searches);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to save a search that re-runs on a cron schedule (nightly by default)
+  app.post("/api/saved-searches", authenticateToken, resolveWorkspace, requirePermission("generate"), async (req: WorkspaceRequest, res) => {
+    try {
+      const { name, propertyId, cronExpression, enabled, ...criteria } = insertSavedSearchSchema.parse(req.body);
+      if (propertyId && !(await storage.getProperty(req.workspace!.id, propertyId))) {
+        return res.status(404).json({ error: "Property not found" });
+      }
+
+      // Computing the first run also rejects malformed expressions
+      const nextRunAt = nextCronRun(cronExpression);
+      const search = await storage.createSavedSearch({
+        workspaceId: req.workspace!.id,
+        createdBy: req.user!.id,
+        propertyId,
+        name,
+        criteria,
+        cronExpression,
+        enabled,
+        nextRunAt: enabled ? nextRunAt : null,
+      });
+      res.status(201).json(search);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid saved search",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+      if (error instanceof CronExpressionError) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      console.error("Error creating saved search:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/saved-searches/:id", authenticateToken, resolveWorkspace, requirePermission("generate"), validateSavedSearchId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const { name, propertyId, cronExpression, enabled, ...criteriaUpdates } = updateSavedSearchSchema.parse(req.body);
+      const existing = await storage.getSavedSearch(req.workspace!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+      if (propertyId && !(await storage.getProperty(req.workspace!.id, propertyId))) {
+        return res.status(404).json({ error: "Property not found" });
+      }
+
+      // Changing the schedule or re-enabling starts counting from now
+      const schedule = cronExpression ?? existing.cronExpression;
+      const isEnabled = enabled ?? existing.enabled;
+      const nextRunAt = cronExpression !== undefined || enabled !== undefined
+        ? (isEnabled ? nextCronRun(schedule) : null)
+        : undefined;
+
+      const search = await storage.updateSavedSearch(req.workspace!.id, existing.id, {
+        name,
+        propertyId,
+        cronExpression,
+        enabled,
+        nextRunAt,
+        criteria: leadFormSchema.parse({ ...existing.criteria, ...criteriaUpdates }),
+      });
+      res.json(search);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid saved search",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+      if (error instanceof CronExpressionError) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      console.error("Error updating saved search:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", authenticateToken, resolveWorkspace, requirePermission("generate"), validateSavedSearchId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const deleted = await storage.deleteSavedSearch(req.workspace!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to run a saved search immediately instead of waiting for its schedule
+  app.post("/api/saved-searches/:id/run", authenticateToken, resolveWorkspace, requirePermission("generate"), leadGenerationLimiter, validateSavedSearchId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const search = await storage.getSavedSearch(req.workspace!.id, Number(req.params.id));
+      if (!search) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      const result = await runSavedSearch(search);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof LocationNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error running saved search:", error);
+      res.status(500).json({ error: "Failed to run search" });
+    }
+  });
+
+  const validateScoringProfileId = param('id').isInt({ min: 1 }).withMessage('Invalid scoring profile id');
+
+  const invalidScoringProfile = (res: Response, error: z.ZodError) =>
+    res.status(400).json({
+      error: "Invalid scoring profile",
+      details: error.errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message
+      }))
+    });
+
+  // API route to list the workspace's scoring profiles and the weights and rules currently in effect
+  app.get("/api/scoring-profiles", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const [profiles, active] = await Promise.all([
+        storage.getScoringProfiles(req.workspace!.id),
+        getScoringSettings(req.workspace!.id),
+      ]);
+      const response: ScoringProfileListResponse = { profiles, active };
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching scoring profiles:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to preview the scores recent saved leads would get under unsaved weights and rules
+  app.post("/api/scoring-profiles/preview", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const settings = scoringSettingsSchema.parse(req.body);
+      res.json(await previewScoring(req.workspace!.id, settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return invalidScoringProfile(res, error);
+      }
+
+      console.error("Error previewing scoring profile:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to create a scoring profile; creating it active re-scores the workspace's leads in the background
+  app.post("/api/scoring-profiles", authenticateToken, resolveWorkspace, requirePermission("edit"), async (req: WorkspaceRequest, res) => {
+    try {
+      const profile = await storage.createScoringProfile({
+        ...insertScoringProfileSchema.parse(req.body),
+        workspaceId: req.workspace!.id,
+        createdBy: req.user!.id,
+      });
+      if (profile.isActive) {
+        scheduleRescore(req.workspace!.id);
+      }
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return invalidScoringProfile(res, error);
+      }
+
+      console.error("Error creating scoring profile:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to edit or (de)activate a scoring profile; leads are re-scored when the profile in effect changes
+  app.patch("/api/scoring-profiles/:id", authenticateToken, resolveWorkspace, requirePermission("edit"), validateScoringProfileId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const data = updateScoringProfileSchema.parse(req.body);
+      const existing = await storage.getScoringProfile(req.workspace!.id, Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      const profile = await storage.updateScoringProfile(req.workspace!.id, existing.id, data);
+      if (existing.isActive || profile?.isActive) {
+        scheduleRescore(req.workspace!.id);
+      }
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return invalidScoringProfile(res, error);
+      }
+
+      console.error("Error updating scoring profile:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to delete a scoring profile; deleting the active one puts the default weights back in effect
+  app.delete("/api/scoring-profiles/:id", authenticateToken, resolveWorkspace, requirePermission("edit"), validateScoringProfileId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const deleted = await storage.deleteScoringProfile(req.workspace!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+      if (deleted.isActive) {
+        scheduleRescore(req.workspace!.id);
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting scoring profile:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  const validateTaxonomyEntryId = param('id').isInt({ min: 1 }).withMessage('Invalid taxonomy entry id');
+
+  const invalidTaxonomyEntry = (res: Response, error: z.ZodError) =>
+    res.status(400).json({
+      error: "Invalid taxonomy entry",
+      details: error.errors.map(err => ({
+        field: err.path.join('.'),
+        message: err.message
+      }))
+    });
+
+  // API route to list the workspace's business type taxonomy: categories with their synonyms and Google place types,
+  // and the industry shown for each place type
+  app.get("/api/business-taxonomy", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const taxonomy: BusinessTaxonomyResponse = await getBusinessTaxonomy(req.workspace!.id);
+      res.json(taxonomy);
+    } catch (error) {
+      console.error("Error fetching business taxonomy:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to suggest business types (category names and synonyms) for the text typed so far
+  app.get("/api/business-types/suggest", authenticateToken, resolveWorkspace, requirePermission("read"), [
+    query('q').optional().isString().isLength({ max: 100 }).withMessage('Search text must be 100 characters or less'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ], async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const taxonomy = await getBusinessTaxonomy(req.workspace!.id);
+      const limit = req.query.limit ? Number(req.query.limit) : BUSINESS_TYPE_SUGGESTION_LIMIT;
+      res.json(suggestBusinessTypes(taxonomy, String(req.query.q ?? ""), limit));
+    } catch (error) {
+      console.error("Error suggesting business types:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to add a business type category; new searches use it straight away
+  app.post("/api/business-taxonomy/categories", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), async (req: WorkspaceRequest, res) => {
+    try {
+      const data = insertBusinessCategorySchema.parse(req.body);
+      const { categories } = await getBusinessTaxonomy(req.workspace!.id);
+      if (categories.some(category => category.name.toLowerCase() === data.name.toLowerCase())) {
+        return res.status(409).json({ error: `There is already a business type named "${data.name}"` });
+      }
+
+      const category = await storage.createBusinessCategory({ ...data, workspaceId: req.workspace!.id });
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return invalidTaxonomyEntry(res, error);
+      }
+
+      console.error("Error creating business category:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to rename a business type category or change its synonyms, place types or valued features
+  app.patch("/api/business-taxonomy/categories/:id", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), validateTaxonomyEntryId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const data = updateBusinessCategorySchema.parse(req.body);
+      const id = Number(req.params.id);
+      const { categories } = await getBusinessTaxonomy(req.workspace!.id);
+      if (!categories.some(category => category.id === id)) {
+        return res.status(404).json({ error: "Business type not found" });
+      }
+      if (data.name && categories.some(category => category.id !== id && category.name.toLowerCase() === data.name!.toLowerCase())) {
+        return res.status(409).json({ error: `There is already a business type named "${data.name}"` });
+      }
+
+      res.json(await storage.updateBusinessCategory(req.workspace!.id, id, data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return invalidTaxonomyEntry(res, error);
+      }
+
+      console.error("Error updating business category:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to delete a business type category; searches for it then match every establishment
+  app.delete("/api/business-taxonomy/categories/:id", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), validateTaxonomyEntryId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const deleted = await storage.deleteBusinessCategory(req.workspace!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Business type not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting business category:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to set the industry shown on new leads of a Google place type
+  app.post("/api/business-taxonomy/industries", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), async (req: WorkspaceRequest, res) => {
+    try {
+      const data = insertPlaceTypeIndustrySchema.parse(req.body);
+      const { industries } = await getBusinessTaxonomy(req.workspace!.id);
+      if (industries.some(entry => entry.placeType === data.placeType)) {
+        return res.status(409).json({ error: `"${data.placeType}" already has an industry` });
+      }
+
+      const entry = await storage.createPlaceTypeIndustry({ ...data, workspaceId: req.workspace!.id });
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return invalidTaxonomyEntry(res, error);
+      }
+
+      console.error("Error creating place type industry:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to change a place type's industry, or the place type it applies to
+  app.patch("/api/business-taxonomy/industries/:id", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), validateTaxonomyEntryId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const data = updatePlaceTypeIndustrySchema.parse(req.body);
+      const id = Number(req.params.id);
+      const { industries } = await getBusinessTaxonomy(req.workspace!.id);
+      if (!industries.some(entry => entry.id === id)) {
+        return res.status(404).json({ error: "Industry mapping not found" });
+      }
+      if (data.placeType && industries.some(entry => entry.id !== id && entry.placeType === data.placeType)) {
+        return res.status(409).json({ error: `"${data.placeType}" already has an industry` });
+      }
+
+      res.json(await storage.updatePlaceTypeIndustry(req.workspace!.id, id, data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return invalidTaxonomyEntry(res, error);
+      }
+
+      console.error("Error updating place type industry:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to delete a place type's industry; its businesses fall back to their next place type's
+  app.delete("/api/business-taxonomy/industries/:id", authenticateToken, resolveWorkspace, requirePermission("manageMembers"), validateTaxonomyEntryId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const deleted = await storage.deletePlaceTypeIndustry(req.workspace!.id, Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Industry mapping not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting place type industry:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to save generated leads to database
+  app.post("/api/leads", authenticateToken, resolveWorkspace, requirePermission("generate"), leadGenerationLimiter, validateLeadInput, validatePropertyQuery, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      // Security: Check validation results
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      // Security: Additional Zod validation for type safety
+      const leadsData = z.array(insertLeadSchema).parse(req.body);
+
+      // Leads generated "for property X" are linked to that listing
+      const propertyId = req.query.propertyId ? Number(req.query.propertyId) : undefined;
+      if (propertyId && !(await storage.getProperty(req.workspace!.id, propertyId))) {
+        return res.status(404).json({ error: "Property not found" });
+      }
+      
+      // Each lead comes back as created, merged into an existing lead, or skipped as already saved
+      const results = await storage.saveLeads(req.workspace!.id, req.user!.id, leadsData, { propertyId });
+
+      // New leads are enriched in the background; progress arrives on /api/enrichment/events
+      const created = results.filter(result => result.status === "created").map(result => result.lead);
+      const queued = await enqueueLeadEnrichment(req.workspace!.id, created);
+      console.log(`Successfully saved ${created.length} of ${results.length} leads to database`);
+      res.json(results.map(result => ({ ...result, lead: queued.find(lead => lead.id === result.lead.id) ?? result.lead })));
+    } catch (error) {
+      console.error("Error saving leads:", error);
+      
+      // Security: Don't expose sensitive error details to client
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          error: "Invalid lead data format",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+      
+      // Generic error response for security
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to get all saved leads with pagination, filtering, keyword search and sorting
+  app.get("/api/leads", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      // Security: Validate query parameters
+      const { page, limit, offset } = parsePagination(req);
+      const query = leadQuerySchema.parse(req.query);
+
+      const [leads, totalCount] = await Promise.all([
+        storage.getAllLeads(req.workspace!.id, query, limit, offset),
+        storage.getLeadsCount(req.workspace!.id, query),
+      ]);
+      
+      res.json({
+        leads,
+        pagination: {
+          page,
+          limit,
+          total: totalCount,
+          pages: Math.ceil(totalCount / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid search parameters",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error fetching leads:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to get the tile layer the lead map draws
+  app.get("/api/map/tiles", authenticateToken, (_req, res) => {
+    res.json(getMapTileConfig());
+  });
+
+  // API route to get the workspace's leads that have coordinates for the map, honouring the same filters as GET /api/leads
+  app.get("/api/leads/map", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const query = leadQuerySchema.parse(req.query);
+      const { points, total } = await storage.getLeadMapPoints(req.workspace!.id, query, MAP_POINT_LIMIT);
+
+      res.json({ points, total });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid search parameters",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error fetching lead map:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to list the industries of the workspace's saved leads, for the exact-match industry filter
+  app.get("/api/leads/industries", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      res.json(await storage.getLeadIndustries(req.workspace!.id));
+    } catch (error) {
+      console.error("Error fetching lead industries:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to download the workspace's saved leads as CSV, honouring the same filters as GET /api/leads
+  app.get("/api/leads/export", authenticateToken, resolveWorkspace, requirePermission("export"), async (req: WorkspaceRequest, res) => {
+    try {
+      const query = leadQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid search parameters" });
+      }
+
+      const totalCount = await storage.getLeadsCount(req.workspace!.id, query.data);
+      const leads = await storage.getAllLeads(req.workspace!.id, query.data, totalCount, 0);
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", 'attachment; filename="reva-leads.csv"');
+      res.send(toCSV(leads));
+    } catch (error) {
+      console.error("Error exporting leads:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to list soft-deleted leads so they can be restored
+  app.get("/api/leads/trash", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const { page, limit, offset } = parsePagination(req);
+
+      const leads = await storage.getDeletedLeads(req.workspace!.id, limit, offset);
+      const totalCount = await storage.getDeletedLeadsCount(req.workspace!.id);
+
+      res.json({
+        leads,
+        pagination: {
+          page,
+          limit,
+          total: totalCount,
+          pages: Math.ceil(totalCount / limit)
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching deleted leads:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to find saved leads that look like the same business (shared place ID, domain or name)
+  app.get("/api/leads/duplicates", authenticateToken, resolveWorkspace, requirePermission("read"), async (req: WorkspaceRequest, res) => {
+    try {
+      const groups = await storage.getDuplicateLeadGroups(req.workspace!.id);
+      res.json(groups);
+    } catch (error) {
+      console.error("Error finding duplicate leads:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to merge duplicate leads into one, keeping the duplicates' enrichment data and activity history
+  app.post("/api/leads/merge", authenticateToken, resolveWorkspace, requirePermission("edit"), async (req: WorkspaceRequest, res) => {
+    try {
+      const { primaryId, duplicateIds } = mergeLeadsSchema.parse(req.body);
+      const merged = await storage.mergeLeads(req.workspace!.id, primaryId, duplicateIds);
+
+      if (!merged) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      console.log(`🔗 Merged ${duplicateIds.length} duplicate leads into ${merged.id}`);
+      res.json(merged);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+
+      console.error("Error merging leads:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to move several leads to the trash at once
+  app.post("/api/leads/bulk-delete", authenticateToken, resolveWorkspace, requirePermission("edit"), async (req: WorkspaceRequest, res) => {
+    try {
+      const { ids } = leadIdsSchema.parse(req.body);
+      const deleted = await storage.softDeleteLeads(req.workspace!.id, ids);
+
+      console.log(`🗑️ Moved ${deleted} leads to trash`);
+      res.json({ deleted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+
+      console.error("Error deleting leads:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to bring leads back out of the trash
+  app.post("/api/leads/restore", authenticateToken, resolveWorkspace, requirePermission("edit"), async (req: WorkspaceRequest, res) => {
+    try {
+      const { ids } = leadIdsSchema.parse(req.body);
+      const restored = await storage.restoreLeads(req.workspace!.id, ids);
+
+      console.log(`♻️ Restored ${restored} leads from trash`);
+      res.json({ restored });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+
+      console.error("Error restoring leads:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to queue several leads for enrichment; leads already waiting are skipped
+  app.post("/api/leads/enrich", authenticateToken, resolveWorkspace, requirePermission("generate"), async (req: WorkspaceRequest, res) => {
+    try {
+      const { ids } = leadIdsSchema.parse(req.body);
+
+      // Only as many leads as the remaining credits can pay for are queued; the rest are reported as skipped
+      const credits = await getEnrichmentCredits(req.workspace!.id);
+      const affordable = credits ? affordableEnrichmentCount(credits) : ids.length;
+      if (affordable === 0) {
+        return res.status(402).json({ error: "Monthly enrichment credit budget reached" });
+      }
+
+      const queued = await queueLeadsForEnrichment(req.workspace!.id, ids.slice(0, affordable));
+      res.status(202).json({ queued: queued.length, skipped: Math.max(ids.length - affordable, 0) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+
+      console.error("Error queueing leads for enrichment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/leads/:id", authenticateToken, resolveWorkspace, requirePermission("read"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      res.json(lead);
+    } catch (error) {
+      console.error("Error fetching lead:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to correct a saved lead's details
+  app.patch("/api/leads/:id", authenticateToken, resolveWorkspace, requirePermission("edit"), validateLeadUpdate, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      // Security: Additional Zod validation - unknown fields are stripped
+      const updates = updateLeadSchema.parse(req.body);
+      const lead = await storage.updateLead(req.workspace!.id, req.params.id, updates);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      res.json(lead);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid lead data format",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error updating lead:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to move a lead to another pipeline stage, recording who moved it
+  app.patch("/api/leads/:id/stage", authenticateToken, resolveWorkspace, requirePermission("edit"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const { stage } = updateLeadStageSchema.parse(req.body);
+      const lead = await storage.updateLeadStage(req.workspace!.id, req.params.id, stage, req.user!.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      res.json(lead);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid stage",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error updating lead stage:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to fetch a lead's stage change history, newest first
+  app.get("/api/leads/:id/stage-history", authenticateToken, resolveWorkspace, requirePermission("read"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const history = await storage.getLeadStageHistory(req.workspace!.id, req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching lead stage history:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to list the decision makers found at a lead's business, primary contact first
+  app.get("/api/leads/:id/contacts", authenticateToken, resolveWorkspace, requirePermission("read"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      res.json(await storage.getLeadContacts(lead.id));
+    } catch (error) {
+      console.error("Error fetching lead contacts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to make one of a lead's contacts the primary contact shown on cards and exports
+  app.post("/api/leads/:id/contacts/:contactId/primary", authenticateToken, resolveWorkspace, requirePermission("edit"), validateContactId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const contact = await storage.setPrimaryContact(lead.id, Number(req.params.contactId));
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+
+      res.json(contact);
+    } catch (error) {
+      console.error("Error setting primary contact:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to queue one lead for enrichment; progress arrives on the enrichment event stream
+  app.post("/api/leads/:id/enrich", authenticateToken, resolveWorkspace, requirePermission("generate"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead || lead.deletedAt) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      if (lead.enrichmentStatus === "pending") {
+        return res.status(409).json({ error: "Lead is already queued for enrichment" });
+      }
+
+      const credits = await getEnrichmentCredits(req.workspace!.id);
+      if (credits && affordableEnrichmentCount(credits) === 0) {
+        return res.status(402).json({ error: "Monthly enrichment credit budget reached" });
+      }
+
+      const [queued] = await queueLeadsForEnrichment(req.workspace!.id, [lead.id]);
+      res.status(202).json(queued ?? lead);
+    } catch (error) {
+      console.error("Error queueing lead for enrichment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to list a lead's activity timeline, newest first
+  app.get("/api/leads/:id/activities", authenticateToken, resolveWorkspace, requirePermission("read"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const activities = await storage.getLeadActivities(lead.id);
+      res.json(activities);
+    } catch (error) {
+      console.error("Error fetching lead activities:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to log a call, email, tour or note against a lead
+  app.post("/api/leads/:id/activities", authenticateToken, resolveWorkspace, requirePermission("edit"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const activity = insertActivitySchema.parse(req.body);
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const created = await storage.createActivity(lead.id, req.user!.id, activity);
+      res.status(201).json({ ...created, authorUsername: req.user!.username });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid activity data",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error creating activity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to correct a logged activity
+  app.patch("/api/leads/:id/activities/:activityId", authenticateToken, resolveWorkspace, requirePermission("edit"), validateActivityId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const updates = updateActivitySchema.parse(req.body);
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const activity = await storage.updateActivity(lead.id, Number(req.params.activityId), updates);
+      if (!activity) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      res.json(activity);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid activity data",
+          details: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error updating activity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to remove a logged activity
+  app.delete("/api/leads/:id/activities/:activityId", authenticateToken, resolveWorkspace, requirePermission("edit"), validateActivityId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const lead = await storage.getLead(req.workspace!.id, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const deleted = await storage.deleteActivity(lead.id, Number(req.params.activityId));
+      if (!deleted) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting activity:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // API route to move a single lead to the trash
+  app.delete("/api/leads/:id", authenticateToken, resolveWorkspace, requirePermission("edit"), validateLeadId, async (req: WorkspaceRequest, res: Response) => {
+    try {
+      if (rejectInvalidInput(req, res)) {
+        return;
+      }
+
+      const deleted = await storage.softDeleteLeads(req.workspace!.id, [req.params.id]);
+      if (deleted === 0) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting lead:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // New API endpoint for searching real businesses using Google Places
-  app.post("/api/search-businesses", leadGenerationLimiter, async (req, res) => {
+  // New API endpoint for searching real businesses in the configured business source
+  app.post("/api/search-businesses", authenticateToken, resolveWorkspace, requirePermission("generate"), leadGenerationLimiter, async (req: WorkspaceRequest, res) => {
     try {
       const { businessType, targetLocation, squareFootage, features } = req.body;
       
@@ -171,15 +1703,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`🔍 Searching for ${businessType} businesses in ${targetLocation}`);
       
-      // Search for real businesses using Google Places API
+      // Search for real businesses (Google Places unless BUSINESS_SOURCE says otherwise)
       const realBusinesses = await searchBusinesses(
         businessType, 
         targetLocation, 
         squareFootage || "1000", 
-        features || []
+        features || [],
+        undefined,
+        { taxonomy: await getBusinessTaxonomy(req.workspace!.id) }
       );
       
-      console.log(`✅ Found ${realBusinesses.length} real businesses from Google Places`);
+      console.log(`✅ Found ${realBusinesses.length} real businesses`);
       res.json(realBusinesses);
       
     } catch (error) {
@@ -0,0 +1,78 @@
+import { nextCronRun } from "./cron";
+import { executeSearchRun } from "./searchRuns";
+import { storage } from "./storage";
+import { hasPermission, type SavedSearch, type SearchRunResult } from "@shared/schema";
+
+const TICK_INTERVAL_MS = 60 * 1000;
+// Runs per tick; anything left over is picked up on the next tick
+const MAX_RUNS_PER_TICK = 5;
+
+let tickInProgress = false;
+
+// Re-run a saved search, inserting only businesses the workspace has not saved before
+export async function runSavedSearch(search: SavedSearch): Promise<SearchRunResult> {
+  const result = await executeSearchRun({
+    workspaceId: search.workspaceId,
+    userId: search.createdBy,
+    request: { ...search.criteria, propertyId: search.propertyId ?? undefined },
+    savedSearchId: search.id,
+    skipExisting: true,
+  });
+  await storage.recordSavedSearchRun(search.id, result.run.id, result.run.createdAt);
+  return result;
+}
+
+// Scheduled runs act for the search's creator, so they stop once that user can no longer generate leads in the workspace
+async function creatorCanRun(search: SavedSearch): Promise<boolean> {
+  if (search.createdBy === null) {
+    return false;
+  }
+  const membership = await storage.getMembership(search.workspaceId, search.createdBy);
+  return !!membership && hasPermission(membership.role, "generate");
+}
+
+async function runDueSearches(): Promise<void> {
+  const now = new Date();
+  const due = await storage.getDueSavedSearches(now, MAX_RUNS_PER_TICK);
+
+  for (const search of due) {
+    // Claiming moves next_run_at forward first, so a failing search waits for its next slot instead of retrying every tick
+    const claimed = await storage.claimSavedSearchRun(search.id, search.nextRunAt!, nextCronRun(search.cronExpression, now));
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      if (!(await creatorCanRun(search))) {
+        await storage.updateSavedSearch(search.workspaceId, search.id, { enabled: false });
+        console.log(`⏰ Disabled saved search ${search.id} "${search.name}": its creator can no longer generate leads in the workspace`);
+        continue;
+      }
+
+      console.log(`⏰ Running saved search ${search.id} "${search.name}"`);
+      await runSavedSearch(search);
+    } catch (error) {
+      console.error(`Error running saved search ${search.id}:`, error);
+    }
+  }
+}
+
+// In-process scheduler: checks for due saved searches once a minute
+export function startSearchScheduler(): NodeJS.Timeout {
+  const tick = async () => {
+    if (tickInProgress) {
+      return;
+    }
+    tickInProgress = true;
+    try {
+      await runDueSearches();
+    } catch (error) {
+      console.error("Error checking scheduled searches:", error);
+    } finally {
+      tickInProgress = false;
+    }
+  };
+
+  console.log("⏰ Saved search scheduler started");
+  return setInterval(tick, TICK_INTERVAL_MS);
+}
@@ -0,0 +1,78 @@
+import { defaultScoringSettings, rescoreLead } from "./leadScoring";
+import { storage } from "./storage";
+import type { ScoringPreview, ScoringSettings } from "@shared/schema";
+
+// Leads re-scored per database round trip
+const RESCORE_BATCH_SIZE = 200;
+// Saved leads shown in the profile editor's live preview
+const PREVIEW_LEAD_COUNT = 20;
+
+// Weights and rules of the workspace's active profile, or the defaults when it has none
+export async function getScoringSettings(workspaceId: number): Promise<ScoringSettings> {
+  const profile = await storage.getActiveScoringProfile(workspaceId);
+  return profile ? { weights: profile.weights, rules: profile.rules } : defaultScoringSettings;
+}
+
+// Scores the workspace's most recent saved leads would get under settings that are still being edited
+export async function previewScoring(workspaceId: number, settings: ScoringSettings): Promise<ScoringPreview[]> {
+  const recent = await storage.getAllLeads(workspaceId, { minFitScore: 0 }, PREVIEW_LEAD_COUNT);
+  return recent.flatMap(lead => {
+    const fit = rescoreLead(lead, settings);
+    return fit ? [{
+      leadId: lead.id,
+      businessName: lead.businessName,
+      currentScore: lead.fitScore,
+      previewScore: fit.fitScore!,
+      adjustments: fit.fitAdjustments ?? [],
+    }] : [];
+  });
+}
+
+async function rescoreWorkspace(workspaceId: number): Promise<number> {
+  const settings = await getScoringSettings(workspaceId);
+  let afterId: string | null = null;
+  let rescored = 0;
+
+  for (;;) {
+    const batch = await storage.getScoredLeads(workspaceId, afterId, RESCORE_BATCH_SIZE);
+    if (batch.length === 0) {
+      break;
+    }
+    await storage.updateLeadFits(batch.flatMap(lead => {
+      const fit = rescoreLead(lead, settings);
+      return fit ? [{ id: lead.id, ...fit }] : [];
+    }));
+    rescored += batch.length;
+    afterId = batch[batch.length - 1].id;
+  }
+  return rescored;
+}
+
+// Workspaces being re-scored, and whether the profile changed again while that was running
+const rescoring = new Map<number, { again: boolean }>();
+
+// Re-score every saved lead in the workspace against its current active profile, in the background. Changes made
+// while a re-score is running trigger one more pass once it finishes, so the last change always wins.
+export function scheduleRescore(workspaceId: number): void {
+  const running = rescoring.get(workspaceId);
+  if (running) {
+    running.again = true;
+    return;
+  }
+
+  const state = { again: false };
+  rescoring.set(workspaceId, state);
+  void (async () => {
+    try {
+      do {
+        state.again = false;
+        const count = await rescoreWorkspace(workspaceId);
+        console.log(`🎯 Re-scored ${count} leads in workspace ${workspaceId}`);
+      } while (state.again);
+    } catch (error) {
+      console.error(`Error re-scoring leads in workspace ${workspaceId}:`, error);
+    } finally {
+      rescoring.delete(workspaceId);
+    }
+  })();
+}
@@ -0,0 +1,149 @@
+import { LocationNotFoundError, geocodeLocation, searchBusinessesAcross, type BusinessQuery, type BusinessSearchStats } from "./businessSources";
+import { enqueueLeadEnrichment } from "./enrichmentQueue";
+import type { SearchOrigin } from "./leadScoring";
+import { getScoringSettings } from "./scoringProfiles";
+import { getBusinessTaxonomy } from "./businessTaxonomy";
+import { storage } from "./storage";
+import { searchBusinessTypesOf, searchLocationsOf, type CreateSearchRun, type Property, type SearchRunResult } from "@shared/schema";
+
+type ExecuteSearchRunOptions = {
+  workspaceId: number;
+  userId: number | null;
+  request: CreateSearchRun;
+  rerunOfId?: number;
+  savedSearchId?: number;
+  // Drop places the workspace already has as leads before saving, so only new businesses are saved
+  skipExisting?: boolean;
+};
+
+// Distances are measured from the property when there is one, otherwise from each target location. A property
+// entered without coordinates is geocoded from its address the first time it is searched around, and keeps them.
+async function resolveOrigins(property: Property | undefined, targetLocations: string[], stats: BusinessSearchStats): Promise<Map<string, SearchOrigin | null>> {
+  if (property) {
+    const located = property.latitude != null && property.longitude != null;
+    const point = located
+      ? { latitude: property.latitude!, longitude: property.longitude! }
+      : await geocodeLocation(property.address, stats);
+    if (point) {
+      if (!located) {
+        await storage.updateProperty(property.workspaceId, property.id, point);
+      }
+      return new Map(targetLocations.map(location => [location, { ...point, label: "the property" }]));
+    }
+  }
+
+  const origins = new Map<string, SearchOrigin | null>();
+  for (const location of targetLocations) {
+    const point = await geocodeLocation(location, stats);
+    origins.set(location, point ? { ...point, label: location } : null);
+  }
+  return origins;
+}
+
+// Search the business source and save the results, recording criteria, counts and API usage on a search_runs row.
+// New leads are returned straight away as pending enrichment; the enrichment queue fills them in (and adds its
+// PDL usage and enriched count to the run) in the background.
+export async function executeSearchRun({ workspaceId, userId, request, rerunOfId, savedSearchId, skipExisting = false }: ExecuteSearchRunOptions): Promise<SearchRunResult> {
+  const { propertyId, ...criteria } = request;
+  const run = await storage.createSearchRun({ workspaceId, userId, propertyId, rerunOfId, savedSearchId, criteria });
+  const stats: BusinessSearchStats = { placesFound: 0, googleCalls: 0, closedSkipped: 0, detailErrors: 0 };
+  let origin: SearchOrigin | null = null;
+
+  try {
+    const businessTypes = searchBusinessTypesOf(criteria);
+    const targetLocations = searchLocationsOf(criteria);
+    console.log(`🧭 Search run ${run.id}: "${businessTypes.join('", "')}" ${criteria.radiusMiles ? `within ${criteria.radiusMiles} mi of` : "in"} "${targetLocations.join('", "')}"`);
+    const property = propertyId ? await storage.getProperty(workspaceId, propertyId) : undefined;
+    const origins = await resolveOrigins(property, targetLocations, stats);
+    origin = origins.get(targetLocations[0]) ?? null;
+
+    // Fail before any business search is paid for when a radius search cannot be centred
+    const unlocated = targetLocations.find(location => !origins.get(location));
+    if (criteria.radiusMiles && unlocated) {
+      throw new LocationNotFoundError(unlocated);
+    }
+
+    // A radius search looks around its origin rather than in the named location, so locations sharing an origin (all of
+    // them when a property centres the search) make one query per business type instead of paying for repeats
+    const queries = new Map<string, BusinessQuery>();
+    for (const businessType of businessTypes) {
+      for (const location of targetLocations) {
+        const queryOrigin = origins.get(location);
+        const area = criteria.radiusMiles && queryOrigin ? `${queryOrigin.latitude},${queryOrigin.longitude}` : location.toLowerCase();
+        const key = `${businessType.toLowerCase()}|${area}`;
+        const shared = queries.get(key);
+        if (shared) {
+          shared.alsoCovers = [...(shared.alsoCovers ?? []), location];
+        } else {
+          queries.set(key, { businessType, location, origin: queryOrigin });
+        }
+      }
+    }
+
+    const found = await searchBusinessesAcross(
+      Array.from(queries.values()),
+      criteria.squareFootage,
+      criteria.features,
+      stats,
+      {
+        radiusMiles: criteria.radiusMiles,
+        maxResults: criteria.maxResults,
+        settings: await getScoringSettings(workspaceId),
+        taxonomy: await getBusinessTaxonomy(workspaceId),
+      }
+    );
+
+    let newLeads = found;
+    if (skipExisting) {
+      const existing = await storage.getExistingPlaceIds(
+        workspaceId,
+        found.flatMap(lead => lead.placeId ? [lead.placeId] : [])
+      );
+      newLeads = found.filter(lead => !lead.placeId || !existing.has(lead.placeId));
+      console.log(`🆕 Search run ${run.id}: ${newLeads.length} new of ${found.length} places`);
+    }
+
+    const results = newLeads.length > 0
+      ? await storage.saveLeads(workspaceId, userId, newLeads, { propertyId, searchRunId: run.id })
+      : [];
+    const savedLeads = results.filter(result => result.status === "created").map(result => result.lead);
+    const queued = await enqueueLeadEnrichment(workspaceId, savedLeads, run.id);
+
+    const completed = await storage.updateSearchRun(run.id, {
+      status: "completed",
+      placesFound: stats.placesFound,
+      closedSkipped: stats.closedSkipped,
+      detailErrors: stats.detailErrors,
+      leadsSaved: savedLeads.length,
+      duplicatesSkipped: found.length - savedLeads.length,
+      googleCalls: stats.googleCalls,
+      originLatitude: origin?.latitude ?? null,
+      originLongitude: origin?.longitude ?? null,
+      completedAt: new Date(),
+    });
+
+    console.log(`✅ Search run ${run.id} saved ${savedLeads.length} leads (${completed.duplicatesSkipped} already saved)`);
+    // Businesses the workspace already had are returned too, unless they were trashed
+    const liveLeads = results
+      .filter(result => !result.lead.deletedAt)
+      .map(result => queued.find(lead => lead.id === result.lead.id) ?? result.lead);
+    return {
+      run: completed,
+      leads: await storage.getLeadsWithEnrichments(liveLeads),
+    };
+  } catch (error) {
+    // Keep the usage that was spent before the failure so the audit trail stays accurate
+    await storage.updateSearchRun(run.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      placesFound: stats.placesFound,
+      closedSkipped: stats.closedSkipped,
+      detailErrors: stats.detailErrors,
+      googleCalls: stats.googleCalls,
+      originLatitude: origin?.latitude ?? null,
+      originLongitude: origin?.longitude ?? null,
+      completedAt: new Date(),
+    });
+    throw error;
+  }
+}
@@ -1,6 +1,99 @@
-import { users, leads, type User, type InsertUser, type Lead, type InsertLead } from "@shared/schema";
+import {
+  users,
+  leads,
+  leadStageHistory,
+  activities,
+  leadEnrichments,
+  enrichmentFields,
+  contacts,
+  companies,
+  enrichmentJobs,
+  enrichmentUsage,
+  scoringProfiles,
+  businessCategories,
+  placeTypeIndustries,
+  properties,
+  searchRuns,
+  savedSearches,
+  workspaces,
+  workspaceMemberships,
+  workspaceInvites,
+  type User,
+  type InsertUser,
+  type Lead,
+  type UpdateLead,
+  type LeadQuery,
+  type LeadSaveResult,
+  type LeadToSave,
+  type LeadWithCompany,
+  type LeadMapPoint,
+  type LeadWithEnrichments,
+  type LeadEnrichmentStatus,
+  type EnrichmentJob,
+  type ScoringProfile,
+  type BusinessCategory,
+  type PlaceTypeIndustry,
+  type BusinessTaxonomy,
+  type BusinessTaxonomyResponse,
+  type EnrichmentCreditSummary,
+  type UpdateEnrichmentSettings,
+  type Company,
+  type InsertCompany,
+  type LeadEnrichment,
+  type InsertLeadEnrichment,
+  type EnrichmentField,
+  type Contact,
+  type InsertContact,
+  type LeadDuplicateGroup,
+  type DuplicateReason,
+  type LeadStage,
+  type LeadStageChange,
+  type Activity,
+  type InsertActivity,
+  type UpdateActivity,
+  type LeadActivity,
+  type Property,
+  type InsertProperty,
+  type UpdateProperty,
+  type PropertyWithLeadCount,
+  type SearchRun,
+  type SearchRunWithDetails,
+  type SavedSearch,
+  type SavedSearchWithLastRun,
+  type Workspace,
+  type WorkspaceMembership,
+  type WorkspaceInvite,
+  type WorkspaceWithRole,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, count } from "drizzle-orm";
+import { differentPlaces, findSameBusiness, leadDedupeKeys } from "./leadDedupe";
+import { eq, ne, desc, count, and, or, asc, isNull, isNotNull, inArray, notInArray, ilike, gte, lte, sql, type SQL } from "drizzle-orm";
+import type { ProviderCall } from "./enrichment";
+
+// Where a batch of new leads came from
+export type LeadLinks = {
+  propertyId?: number;
+  searchRunId?: number;
+};
+
+// What background enrichment found for one lead. Fields only fill blanks, so values a broker typed in are kept.
+export type LeadEnrichmentUpdate = {
+  status: LeadEnrichmentStatus;
+  fields: Partial<Pick<Lead, "phone" | "enrichedName" | "title" | "linkedinUrl" | "enrichmentSource" | "isEnriched" | "companyId">>;
+  enrichments: InsertLeadEnrichment[];
+  contacts: InsertContact[];
+  fit?: Pick<Lead, "fitScore" | "fitFactors" | "fitAdjustments">; // Re-scored with the company's headcount; replaces the old score
+  rationale?: Pick<Lead, "rationale" | "rationaleClaims">; // Rewritten with the company's facts, unless a broker has edited it since
+};
+
+// How claimed enrichment jobs reserve their workspace's monthly credits: the most one job can cost, and when the
+// current month's credits started counting
+export type EnrichmentBudget = {
+  creditsPerJob: number;
+  periodStart: Date;
+};
 
 // modify the interface with any CRUD methods
 // you might need
@@ -9,9 +102,252 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  createLeads(leads: InsertLead[]): Promise<Lead[]>;
-  getAllLeads(limit?: number, offset?: number): Promise<Lead[]>;
-  getLeadsCount(): Promise<number>;
+  createWorkspace(name: string, ownerId: number): Promise<WorkspaceWithRole>;
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  updateEnrichmentSettings(workspaceId: number, data: UpdateEnrichmentSettings): Promise<Workspace | undefined>;
+  getWorkspacesForUser(userId: number): Promise<WorkspaceWithRole[]>;
+  getMembership(workspaceId: number, userId: number): Promise<WorkspaceMembership | undefined>;
+  getDefaultMembership(userId: number): Promise<WorkspaceMembership | undefined>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]>;
+  updateMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMembership | undefined>;
+  removeMember(workspaceId: number, userId: number): Promise<boolean>;
+  createWorkspaceInvite(invite: Omit<WorkspaceInvite, "id" | "acceptedBy" | "acceptedAt" | "createdAt">): Promise<WorkspaceInvite>;
+  getWorkspaceInvite(token: string): Promise<(WorkspaceInvite & { workspaceName: string }) | undefined>;
+  acceptWorkspaceInvite(invite: WorkspaceInvite, userId: number): Promise<WorkspaceMembership>;
+  getProperties(workspaceId: number): Promise<PropertyWithLeadCount[]>;
+  getProperty(workspaceId: number, id: number): Promise<Property | undefined>;
+  createProperty(workspaceId: number, userId: number, property: InsertProperty): Promise<Property>;
+  updateProperty(workspaceId: number, id: number, data: UpdateProperty): Promise<Property | undefined>;
+  deleteProperty(workspaceId: number, id: number): Promise<boolean>;
+  createSearchRun(run: typeof searchRuns.$inferInsert): Promise<SearchRun>;
+  updateSearchRun(id: number, data: Partial<Omit<SearchRun, "id" | "workspaceId">>): Promise<SearchRun>;
+  addSearchRunUsage(id: number, usage: { pdlCalls: number; enrichedCount: number }): Promise<void>;
+  getSearchRuns(workspaceId: number, limit?: number, offset?: number): Promise<SearchRunWithDetails[]>;
+  getSearchRunsCount(workspaceId: number): Promise<number>;
+  getSearchRun(workspaceId: number, id: number): Promise<SearchRun | undefined>;
+  getSavedSearches(workspaceId: number): Promise<SavedSearchWithLastRun[]>;
+  getSavedSearch(workspaceId: number, id: number): Promise<SavedSearch | undefined>;
+  createSavedSearch(search: typeof savedSearches.$inferInsert): Promise<SavedSearch>;
+  updateSavedSearch(workspaceId: number, id: number, data: Partial<typeof savedSearches.$inferInsert>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(workspaceId: number, id: number): Promise<boolean>;
+  getDueSavedSearches(now: Date, limit: number): Promise<SavedSearch[]>;
+  getScoringProfiles(workspaceId: number): Promise<ScoringProfile[]>;
+  getScoringProfile(workspaceId: number, id: number): Promise<ScoringProfile | undefined>;
+  getActiveScoringProfile(workspaceId: number): Promise<ScoringProfile | undefined>;
+  createScoringProfile(profile: typeof scoringProfiles.$inferInsert): Promise<ScoringProfile>;
+  updateScoringProfile(workspaceId: number, id: number, data: Partial<typeof scoringProfiles.$inferInsert>): Promise<ScoringProfile | undefined>;
+  deleteScoringProfile(workspaceId: number, id: number): Promise<ScoringProfile | undefined>;
+  getBusinessTaxonomy(workspaceId: number): Promise<BusinessTaxonomyResponse>;
+  seedBusinessTaxonomy(workspaceId: number, taxonomy: BusinessTaxonomy): Promise<void>;
+  createBusinessCategory(category: typeof businessCategories.$inferInsert): Promise<BusinessCategory>;
+  updateBusinessCategory(workspaceId: number, id: number, data: Partial<typeof businessCategories.$inferInsert>): Promise<BusinessCategory | undefined>;
+  deleteBusinessCategory(workspaceId: number, id: number): Promise<BusinessCategory | undefined>;
+  createPlaceTypeIndustry(entry: typeof placeTypeIndustries.$inferInsert): Promise<PlaceTypeIndustry>;
+  updatePlaceTypeIndustry(workspaceId: number, id: number, data: Partial<typeof placeTypeIndustries.$inferInsert>): Promise<PlaceTypeIndustry | undefined>;
+  deletePlaceTypeIndustry(workspaceId: number, id: number): Promise<PlaceTypeIndustry | undefined>;
+  getScoredLeads(workspaceId: number, afterId: string | null, limit: number): Promise<LeadWithCompany[]>;
+  updateLeadFits(fits: Array<Pick<Lead, "id" | "fitScore" | "fitFactors" | "fitAdjustments">>): Promise<void>;
+  claimSavedSearchRun(id: number, expectedNextRunAt: Date, nextRunAt: Date): Promise<boolean>;
+  recordSavedSearchRun(id: number, runId: number, ranAt: Date): Promise<void>;
+  getExistingPlaceIds(workspaceId: number, placeIds: string[]): Promise<Set<string>>;
+  saveLeads(workspaceId: number, userId: number | null, leads: LeadToSave[], links?: LeadLinks): Promise<LeadSaveResult[]>;
+  getLeadEnrichments(leadIds: string[]): Promise<LeadEnrichment[]>;
+  getLeadsWithEnrichments(leads: Lead[]): Promise<LeadWithEnrichments[]>;
+  enqueueEnrichmentJobs(workspaceId: number, leadIds: string[], searchRunId?: number): Promise<Lead[]>;
+  recordEnrichmentUsage(workspaceId: number, leadId: string | null, calls: ProviderCall[]): Promise<void>;
+  getEnrichmentUsage(workspaceId: number, since: Date): Promise<EnrichmentCreditSummary["byProvider"]>;
+  getReservedEnrichmentCredits(workspaceId: number): Promise<number>;
+  claimEnrichmentJobs(limit: number, staleBefore: Date, budget: EnrichmentBudget): Promise<EnrichmentJob[]>;
+  completeEnrichmentJob(job: EnrichmentJob, update: LeadEnrichmentUpdate): Promise<Lead | undefined>;
+  rescheduleEnrichmentJob(id: number, nextAttemptAt: Date, error: string): Promise<void>;
+  failEnrichmentJob(job: EnrichmentJob, error: string): Promise<Lead | undefined>;
+  getCompanyByDomain(domain: string): Promise<Company | undefined>;
+  getCompanies(ids: number[]): Promise<Company[]>;
+  upsertCompany(domain: string, data: InsertCompany): Promise<Company>;
+  getLeadContacts(leadId: string): Promise<Contact[]>;
+  setPrimaryContact(leadId: string, contactId: number): Promise<Contact | undefined>;
+  getDuplicateLeadGroups(workspaceId: number): Promise<LeadDuplicateGroup[]>;
+  mergeLeads(workspaceId: number, primaryId: string, duplicateIds: string[]): Promise<Lead | undefined>;
+  backfillLeadDedupeKeys(): Promise<number>;
+  getAllLeads(workspaceId: number, query?: Partial<LeadQuery>, limit?: number, offset?: number): Promise<LeadWithCompany[]>;
+  getLeadsCount(workspaceId: number, query?: Partial<LeadQuery>): Promise<number>;
+  getLeadMapPoints(workspaceId: number, query: Partial<LeadQuery>, limit: number): Promise<{ points: LeadMapPoint[]; total: number }>;
+  getLeadIndustries(workspaceId: number): Promise<string[]>;
+  getLead(workspaceId: number, id: string): Promise<Lead | undefined>;
+  updateLead(workspaceId: number, id: string, data: UpdateLead): Promise<Lead | undefined>;
+  softDeleteLeads(workspaceId: number, ids: string[]): Promise<number>;
+  restoreLeads(workspaceId: number, ids: string[]): Promise<number>;
+  getDeletedLeads(workspaceId: number, limit?: number, offset?: number): Promise<Lead[]>;
+  getDeletedLeadsCount(workspaceId: number): Promise<number>;
+  updateLeadStage(workspaceId: number, id: string, stage: LeadStage, changedBy: number): Promise<Lead | undefined>;
+  getLeadStageHistory(workspaceId: number, id: string): Promise<LeadStageChange[]>;
+  getLeadActivities(leadId: string): Promise<LeadActivity[]>;
+  createActivity(leadId: string, authorId: number, activity: InsertActivity): Promise<Activity>;
+  updateActivity(leadId: string, activityId: number, data: UpdateActivity): Promise<Activity | undefined>;
+  deleteActivity(leadId: string, activityId: number): Promise<boolean>;
+}
+
+// Escape LIKE wildcards so user input is matched literally
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// Must match the expression of leads_search_idx exactly for Postgres to use the index
+const leadSearchVector = sql`to_tsvector('english', ${leads.businessName} || ' ' || ${leads.rationale})`;
+
+const leadSortColumns = {
+  createdAt: leads.createdAt,
+  businessName: leads.businessName,
+  industry: leads.industry,
+  stageChangedAt: leads.stageChangedAt,
+  lastActivityAt: leads.lastActivityAt,
+  fitScore: leads.fitScore,
+  distanceMiles: leads.distanceMiles,
+};
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Keep leads.last_activity_at in step with the latest activity's occurredAt after any activity change
+async function refreshLastActivityAt(executor: Executor, leadId: string): Promise<void> {
+  await executor.update(leads)
+    .set({
+      lastActivityAt: sql`(select max(${activities.occurredAt}) from ${activities} where ${activities.leadId} = ${leadId})`,
+    })
+    .where(eq(leads.id, leadId));
+}
+
+// Store (or replace) the provenance of a lead's enriched fields
+async function recordEnrichments(executor: Executor, leadId: string, entries: InsertLeadEnrichment[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  await executor.insert(leadEnrichments)
+    .values(entries.map(entry => ({ ...entry, leadId })))
+    .onConflictDoUpdate({
+      target: [leadEnrichments.leadId, leadEnrichments.field],
+      set: {
+        value: sql`excluded.value`,
+        source: sql`excluded.source`,
+        confidence: sql`excluded.confidence`,
+        createdAt: new Date(),
+      },
+    });
+}
+
+// The lead's contact name and email mirror its primary contact; the generated email is kept if the contact has none
+function primaryContactFields(contact: Pick<Contact, "fullName" | "email">): Partial<Lead> {
+  return contact.email ? { contactName: contact.fullName, email: contact.email } : { contactName: contact.fullName };
+}
+
+// Entries arrive best first, so the first becomes the primary contact
+async function insertContacts(executor: Executor, leadId: string, entries: InsertContact[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  await executor.insert(contacts).values(entries.map((entry, index) => ({ ...entry, leadId, isPrimary: index === 0 })));
+}
+
+async function hasContacts(executor: Executor, leadId: string): Promise<boolean> {
+  const [existing] = await executor.select({ id: contacts.id }).from(contacts).where(eq(contacts.leadId, leadId)).limit(1);
+  return !!existing;
+}
+
+// Make the most senior contact primary when a lead has contacts but none is marked
+async function ensurePrimaryContact(executor: Executor, leadId: string): Promise<void> {
+  const [best] = await executor.select().from(contacts)
+    .where(eq(contacts.leadId, leadId))
+    .orderBy(desc(contacts.isPrimary), desc(contacts.seniority), asc(contacts.id))
+    .limit(1);
+  if (!best || best.isPrimary) {
+    return;
+  }
+
+  await executor.update(contacts).set({ isPrimary: true }).where(eq(contacts.id, best.id));
+  await executor.update(leads).set(primaryContactFields(best)).where(eq(leads.id, leadId));
+}
+
+function isEnrichmentField(field: string): field is EnrichmentField {
+  return (enrichmentFields as readonly string[]).includes(field);
+}
+
+// Lead fields an incoming or duplicate lead may fill in when the surviving lead has no value yet
+const mergeableLeadFields = [
+  "placeId", "domain", "phone", "website", "linkedinUrl", "title", "enrichedName", "enrichmentSource", "companyId", "propertyId",
+  "latitude", "longitude", "rating", "ratingCount", "placeTypes", "distanceMiles", "foundBy", "fitScore",
+  "fitFactors", "fitAdjustments",
+] as const;
+
+function missingFieldsFrom(target: Lead, sources: Array<Partial<Lead>>): Partial<Lead> {
+  const fill: Partial<Lead> = {};
+  for (const field of mergeableLeadFields) {
+    if (target[field] == null || target[field] === "") {
+      const value = sources.find(source => source[field] != null && source[field] !== "")?.[field];
+      if (value != null) {
+        Object.assign(fill, { [field]: value });
+      }
+    }
+  }
+  if (!target.isEnriched && sources.some(source => source.isEnriched)) {
+    fill.isEnriched = true;
+  }
+  return fill;
+}
+
+// WHERE clause for a workspace's live (non-deleted) leads narrowed by the optional filters
+function leadFilterConditions(workspaceId: number, query: Partial<LeadQuery>): SQL[] {
+  const conditions: SQL[] = [
+    eq(leads.workspaceId, workspaceId),
+    isNull(leads.deletedAt),
+  ];
+
+  if (query.keyword) {
+    conditions.push(sql`${leadSearchVector} @@ websearch_to_tsquery('english', ${query.keyword})`);
+  }
+  if (query.industry) {
+    conditions.push(eq(leads.industry, query.industry));
+  }
+  if (query.contactName) {
+    conditions.push(or(
+      ilike(leads.contactName, likePattern(query.contactName)),
+      ilike(leads.enrichedName, likePattern(query.contactName)),
+    )!);
+  }
+  if (query.enriched !== undefined) {
+    conditions.push(query.enriched
+      ? eq(leads.isEnriched, true)
+      : or(eq(leads.isEnriched, false), isNull(leads.isEnriched))!);
+  }
+  if (query.stage) {
+    conditions.push(eq(leads.stage, query.stage));
+  }
+  if (query.propertyId) {
+    conditions.push(eq(leads.propertyId, query.propertyId));
+  }
+  if (query.searchRunId) {
+    conditions.push(eq(leads.searchRunId, query.searchRunId));
+  }
+  if (query.stageChangedFrom) {
+    conditions.push(gte(leads.stageChangedAt, query.stageChangedFrom));
+  }
+  if (query.stageChangedTo) {
+    conditions.push(lte(leads.stageChangedAt, query.stageChangedTo));
+  }
+  if (query.createdFrom) {
+    conditions.push(gte(leads.createdAt, query.createdFrom));
+  }
+  if (query.createdTo) {
+    conditions.push(lte(leads.createdAt, query.createdTo));
+  }
+  if (query.minFitScore !== undefined) {
+    conditions.push(gte(leads.fitScore, query.minFitScore));
+  }
+  if (query.maxDistanceMiles !== undefined) {
+    conditions.push(lte(leads.distanceMiles, query.maxDistanceMiles));
+  }
+
+  return conditions;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -33,31 +369,1155 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createLeads(insertLeads: InsertLead[]): Promise<Lead[]> {
-    const savedLeads = await db
-      .insert(leads)
-      .values(insertLeads)
+  async createWorkspace(name: string, ownerId: number): Promise<WorkspaceWithRole> {
+    return await db.transaction(async (tx) => {
+      const [workspace] = await tx
+        .insert(workspaces)
+        .values({ name, createdBy: ownerId })
+        .returning();
+
+      await tx
+        .insert(workspaceMemberships)
+        .values({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+
+      return { ...workspace, role: "owner" as const };
+    });
+  }
+
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace || undefined;
+  }
+
+  async updateEnrichmentSettings(workspaceId: number, data: UpdateEnrichmentSettings): Promise<Workspace | undefined> {
+    const [workspace] = await db.update(workspaces).set(data).where(eq(workspaces.id, workspaceId)).returning();
+    return workspace || undefined;
+  }
+
+  async getWorkspacesForUser(userId: number): Promise<WorkspaceWithRole[]> {
+    const rows = await db
+      .select({ workspace: workspaces, role: workspaceMemberships.role })
+      .from(workspaceMemberships)
+      .innerJoin(workspaces, eq(workspaceMemberships.workspaceId, workspaces.id))
+      .where(eq(workspaceMemberships.userId, userId))
+      .orderBy(asc(workspaceMemberships.createdAt));
+
+    return rows.map(row => ({ ...row.workspace, role: row.role }));
+  }
+
+  async getMembership(workspaceId: number, userId: number): Promise<WorkspaceMembership | undefined> {
+    const [membership] = await db.select().from(workspaceMemberships).where(and(
+      eq(workspaceMemberships.workspaceId, workspaceId),
+      eq(workspaceMemberships.userId, userId),
+    ));
+    return membership || undefined;
+  }
+
+  // The workspace a user lands in when the client has not picked one: the first they joined
+  async getDefaultMembership(userId: number): Promise<WorkspaceMembership | undefined> {
+    const [membership] = await db.select().from(workspaceMemberships)
+      .where(eq(workspaceMemberships.userId, userId))
+      .orderBy(asc(workspaceMemberships.createdAt))
+      .limit(1);
+    return membership || undefined;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return await db
+      .select({
+        userId: users.id,
+        username: users.username,
+        role: workspaceMemberships.role,
+        joinedAt: workspaceMemberships.createdAt,
+      })
+      .from(workspaceMemberships)
+      .innerJoin(users, eq(workspaceMemberships.userId, users.id))
+      .where(eq(workspaceMemberships.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMemberships.createdAt));
+  }
+
+  async updateMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMembership | undefined> {
+    const [membership] = await db
+      .update(workspaceMemberships)
+      .set({ role })
+      .where(and(
+        eq(workspaceMemberships.workspaceId, workspaceId),
+        eq(workspaceMemberships.userId, userId),
+      ))
       .returning();
-    
-    // Log each saved lead's ID for debugging
-    savedLeads.forEach(lead => {
-      console.log(`Saved lead to database with ID: ${lead.id} - ${lead.businessName}`);
+    return membership || undefined;
+  }
+
+  async removeMember(workspaceId: number, userId: number): Promise<boolean> {
+    const removed = await db
+      .delete(workspaceMemberships)
+      .where(and(
+        eq(workspaceMemberships.workspaceId, workspaceId),
+        eq(workspaceMemberships.userId, userId),
+      ))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async createWorkspaceInvite(invite: Omit<WorkspaceInvite, "id" | "acceptedBy" | "acceptedAt" | "createdAt">): Promise<WorkspaceInvite> {
+    const [created] = await db
+      .insert(workspaceInvites)
+      .values(invite)
+      .returning();
+    return created;
+  }
+
+  async getWorkspaceInvite(token: string): Promise<(WorkspaceInvite & { workspaceName: string }) | undefined> {
+    const [row] = await db
+      .select({ invite: workspaceInvites, workspaceName: workspaces.name })
+      .from(workspaceInvites)
+      .innerJoin(workspaces, eq(workspaceInvites.workspaceId, workspaces.id))
+      .where(eq(workspaceInvites.token, token));
+    return row ? { ...row.invite, workspaceName: row.workspaceName } : undefined;
+  }
+
+  async acceptWorkspaceInvite(invite: WorkspaceInvite, userId: number): Promise<WorkspaceMembership> {
+    return await db.transaction(async (tx) => {
+      // Invites are single-use: only the first acceptance claims it
+      const claimed = await tx
+        .update(workspaceInvites)
+        .set({ acceptedBy: userId, acceptedAt: new Date() })
+        .where(and(eq(workspaceInvites.id, invite.id), isNull(workspaceInvites.acceptedAt)))
+        .returning();
+      if (claimed.length === 0) {
+        throw new Error("Invite has already been used");
+      }
+
+      const [membership] = await tx
+        .insert(workspaceMemberships)
+        .values({ workspaceId: invite.workspaceId, userId, role: invite.role })
+        .returning();
+      return membership;
     });
-    
-    return savedLeads;
   }
 
-  async getAllLeads(limit: number = 50, offset: number = 0): Promise<Lead[]> {
+  async getProperties(workspaceId: number): Promise<PropertyWithLeadCount[]> {
+    const rows = await db
+      .select({ property: properties, leadCount: count(leads.id) })
+      .from(properties)
+      .leftJoin(leads, and(eq(leads.propertyId, properties.id), isNull(leads.deletedAt)))
+      .where(eq(properties.workspaceId, workspaceId))
+      .groupBy(properties.id)
+      .orderBy(desc(properties.createdAt));
+
+    return rows.map(row => ({ ...row.property, leadCount: row.leadCount }));
+  }
+
+  async getProperty(workspaceId: number, id: number): Promise<Property | undefined> {
+    const [property] = await db.select().from(properties)
+      .where(and(eq(properties.id, id), eq(properties.workspaceId, workspaceId)));
+    return property || undefined;
+  }
+
+  async createProperty(workspaceId: number, userId: number, property: InsertProperty): Promise<Property> {
+    const [created] = await db
+      .insert(properties)
+      .values({ ...property, workspaceId, createdBy: userId })
+      .returning();
+    return created;
+  }
+
+  // A new address makes coordinates that were not changed along with it stale, so they are cleared and the property
+  // is geocoded again the next time it is searched around
+  async updateProperty(workspaceId: number, id: number, data: UpdateProperty): Promise<Property | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(properties)
+        .where(and(eq(properties.id, id), eq(properties.workspaceId, workspaceId)))
+        .for("update");
+      if (!existing) {
+        return undefined;
+      }
+
+      const moved = data.address !== undefined && data.address !== existing.address;
+      const sameCoordinates = (data.latitude === undefined || data.latitude === existing.latitude)
+        && (data.longitude === undefined || data.longitude === existing.longitude);
+      const [property] = await tx
+        .update(properties)
+        .set({ ...data, ...(moved && sameCoordinates ? { latitude: null, longitude: null } : {}), updatedAt: new Date() })
+        .where(eq(properties.id, existing.id))
+        .returning();
+      return property;
+    });
+  }
+
+  // Leads generated for the listing stay saved; their property link is cleared by the foreign key
+  async deleteProperty(workspaceId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(properties)
+      .where(and(eq(properties.id, id), eq(properties.workspaceId, workspaceId)))
+      .returning({ id: properties.id });
+    return deleted.length > 0;
+  }
+
+  async createSearchRun(run: typeof searchRuns.$inferInsert): Promise<SearchRun> {
+    const [created] = await db.insert(searchRuns).values(run).returning();
+    return created;
+  }
+
+  async updateSearchRun(id: number, data: Partial<Omit<SearchRun, "id" | "workspaceId">>): Promise<SearchRun> {
+    const [updated] = await db.update(searchRuns).set(data).where(eq(searchRuns.id, id)).returning();
+    return updated;
+  }
+
+  // Background enrichment finishes after the run, so its usage is added as each job completes
+  async addSearchRunUsage(id: number, usage: { pdlCalls: number; enrichedCount: number }): Promise<void> {
+    await db.update(searchRuns)
+      .set({
+        pdlCalls: sql`${searchRuns.pdlCalls} + ${usage.pdlCalls}`,
+        enrichedCount: sql`${searchRuns.enrichedCount} + ${usage.enrichedCount}`,
+      })
+      .where(eq(searchRuns.id, id));
+  }
+
+  async getSearchRuns(workspaceId: number, limit: number = 50, offset: number = 0): Promise<SearchRunWithDetails[]> {
+    const rows = await db
+      .select({ run: searchRuns, username: users.username, propertyAddress: properties.address })
+      .from(searchRuns)
+      .leftJoin(users, eq(searchRuns.userId, users.id))
+      .leftJoin(properties, eq(searchRuns.propertyId, properties.id))
+      .where(eq(searchRuns.workspaceId, workspaceId))
+      .orderBy(desc(searchRuns.createdAt), desc(searchRuns.id))
+      .limit(limit)
+      .offset(offset);
+
+    return rows.map(row => ({ ...row.run, username: row.username, propertyAddress: row.propertyAddress }));
+  }
+
+  async getSearchRunsCount(workspaceId: number): Promise<number> {
+    const result = await db.select({ count: count() }).from(searchRuns)
+      .where(eq(searchRuns.workspaceId, workspaceId));
+    return result[0].count;
+  }
+
+  async getSearchRun(workspaceId: number, id: number): Promise<SearchRun | undefined> {
+    const [run] = await db.select().from(searchRuns)
+      .where(and(eq(searchRuns.id, id), eq(searchRuns.workspaceId, workspaceId)));
+    return run || undefined;
+  }
+
+  async getSavedSearches(workspaceId: number): Promise<SavedSearchWithLastRun[]> {
+    const rows = await db
+      .select({
+        search: savedSearches,
+        propertyAddress: properties.address,
+        lastRunStatus: searchRuns.status,
+        lastRunNewLeads: searchRuns.leadsSaved,
+      })
+      .from(savedSearches)
+      .leftJoin(properties, eq(savedSearches.propertyId, properties.id))
+      .leftJoin(searchRuns, eq(savedSearches.lastRunId, searchRuns.id))
+      .where(eq(savedSearches.workspaceId, workspaceId))
+      .orderBy(asc(savedSearches.name));
+
+    return rows.map(row => ({
+      ...row.search,
+      propertyAddress: row.propertyAddress,
+      lastRunStatus: row.lastRunStatus,
+      lastRunNewLeads: row.lastRunNewLeads,
+    }));
+  }
+
+  async getSavedSearch(workspaceId: number, id: number): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.workspaceId, workspaceId)));
+    return search || undefined;
+  }
+
+  async createSavedSearch(search: typeof savedSearches.$inferInsert): Promise<SavedSearch> {
+    const [created] = await db.insert(savedSearches).values(search).returning();
+    return created;
+  }
+
+  async updateSavedSearch(workspaceId: number, id: number, data: Partial<typeof savedSearches.$inferInsert>): Promise<SavedSearch | undefined> {
+    const [updated] = await db
+      .update(savedSearches)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.workspaceId, workspaceId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSavedSearch(workspaceId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.workspaceId, workspaceId)))
+      .returning({ id: savedSearches.id });
+    return deleted.length > 0;
+  }
+
+  async getScoringProfiles(workspaceId: number): Promise<ScoringProfile[]> {
+    return await db.select().from(scoringProfiles)
+      .where(eq(scoringProfiles.workspaceId, workspaceId))
+      .orderBy(asc(scoringProfiles.name), asc(scoringProfiles.id));
+  }
+
+  async getScoringProfile(workspaceId: number, id: number): Promise<ScoringProfile | undefined> {
+    const [profile] = await db.select().from(scoringProfiles)
+      .where(and(eq(scoringProfiles.id, id), eq(scoringProfiles.workspaceId, workspaceId)));
+    return profile || undefined;
+  }
+
+  async getActiveScoringProfile(workspaceId: number): Promise<ScoringProfile | undefined> {
+    const [profile] = await db.select().from(scoringProfiles)
+      .where(and(eq(scoringProfiles.workspaceId, workspaceId), eq(scoringProfiles.isActive, true)));
+    return profile || undefined;
+  }
+
+  // Only one profile per workspace is active; activating one switches the others off
+  async createScoringProfile(profile: typeof scoringProfiles.$inferInsert): Promise<ScoringProfile> {
+    return await db.transaction(async (tx) => {
+      if (profile.isActive) {
+        await tx.update(scoringProfiles).set({ isActive: false }).where(eq(scoringProfiles.workspaceId, profile.workspaceId));
+      }
+      const [created] = await tx.insert(scoringProfiles).values(profile).returning();
+      return created;
+    });
+  }
+
+  async updateScoringProfile(workspaceId: number, id: number, data: Partial<typeof scoringProfiles.$inferInsert>): Promise<ScoringProfile | undefined> {
+    return await db.transaction(async (tx) => {
+      if (data.isActive) {
+        await tx.update(scoringProfiles)
+          .set({ isActive: false })
+          .where(and(eq(scoringProfiles.workspaceId, workspaceId), ne(scoringProfiles.id, id)));
+      }
+      const [updated] = await tx.update(scoringProfiles)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(scoringProfiles.id, id), eq(scoringProfiles.workspaceId, workspaceId)))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  async deleteScoringProfile(workspaceId: number, id: number): Promise<ScoringProfile | undefined> {
+    const [deleted] = await db.delete(scoringProfiles)
+      .where(and(eq(scoringProfiles.id, id), eq(scoringProfiles.workspaceId, workspaceId)))
+      .returning();
+    return deleted || undefined;
+  }
+
+  async getBusinessTaxonomy(workspaceId: number): Promise<BusinessTaxonomyResponse> {
+    const [categories, industries] = await Promise.all([
+      db.select().from(businessCategories)
+        .where(eq(businessCategories.workspaceId, workspaceId))
+        .orderBy(asc(businessCategories.name)),
+      db.select().from(placeTypeIndustries)
+        .where(eq(placeTypeIndustries.workspaceId, workspaceId))
+        .orderBy(asc(placeTypeIndustries.placeType)),
+    ]);
+    return { categories, industries };
+  }
+
+  // Copies the taxonomy in once; the workspace row is locked so concurrent first uses do not both copy it
+  async seedBusinessTaxonomy(workspaceId: number, taxonomy: BusinessTaxonomy): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [workspace] = await tx.select().from(workspaces).where(eq(workspaces.id, workspaceId)).for("update");
+      if (!workspace || workspace.taxonomySeededAt) {
+        return;
+      }
+      if (taxonomy.categories.length > 0) {
+        await tx.insert(businessCategories)
+          .values(taxonomy.categories.map(category => ({ ...category, workspaceId })))
+          .onConflictDoNothing();
+      }
+      if (taxonomy.industries.length > 0) {
+        await tx.insert(placeTypeIndustries)
+          .values(taxonomy.industries.map(entry => ({ ...entry, workspaceId })))
+          .onConflictDoNothing();
+      }
+      await tx.update(workspaces).set({ taxonomySeededAt: new Date() }).where(eq(workspaces.id, workspaceId));
+    });
+  }
+
+  async createBusinessCategory(category: typeof businessCategories.$inferInsert): Promise<BusinessCategory> {
+    const [created] = await db.insert(businessCategories).values(category).returning();
+    return created;
+  }
+
+  async updateBusinessCategory(workspaceId: number, id: number, data: Partial<typeof businessCategories.$inferInsert>): Promise<BusinessCategory | undefined> {
+    const [updated] = await db.update(businessCategories)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(businessCategories.id, id), eq(businessCategories.workspaceId, workspaceId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteBusinessCategory(workspaceId: number, id: number): Promise<BusinessCategory | undefined> {
+    const [deleted] = await db.delete(businessCategories)
+      .where(and(eq(businessCategories.id, id), eq(businessCategories.workspaceId, workspaceId)))
+      .returning();
+    return deleted || undefined;
+  }
+
+  async createPlaceTypeIndustry(entry: typeof placeTypeIndustries.$inferInsert): Promise<PlaceTypeIndustry> {
+    const [created] = await db.insert(placeTypeIndustries).values(entry).returning();
+    return created;
+  }
+
+  async updatePlaceTypeIndustry(workspaceId: number, id: number, data: Partial<typeof placeTypeIndustries.$inferInsert>): Promise<PlaceTypeIndustry | undefined> {
+    const [updated] = await db.update(placeTypeIndustries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(placeTypeIndustries.id, id), eq(placeTypeIndustries.workspaceId, workspaceId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deletePlaceTypeIndustry(workspaceId: number, id: number): Promise<PlaceTypeIndustry | undefined> {
+    const [deleted] = await db.delete(placeTypeIndustries)
+      .where(and(eq(placeTypeIndustries.id, id), eq(placeTypeIndustries.workspaceId, workspaceId)))
+      .returning();
+    return deleted || undefined;
+  }
+
+  // Leads that have a fit score, in id order so a re-score can page through them with afterId; trashed leads are
+  // included so they come back with a current score
+  async getScoredLeads(workspaceId: number, afterId: string | null, limit: number): Promise<LeadWithCompany[]> {
+    const rows = await db.select({ lead: leads, company: companies }).from(leads)
+      .leftJoin(companies, eq(leads.companyId, companies.id))
+      .where(and(
+        eq(leads.workspaceId, workspaceId),
+        isNotNull(leads.fitFactors),
+        afterId ? sql`${leads.id} > ${afterId}` : undefined,
+      ))
+      .orderBy(asc(leads.id))
+      .limit(limit);
+    return rows.map(({ lead, company }) => ({ ...lead, company }));
+  }
+
+  async updateLeadFits(fits: Array<Pick<Lead, "id" | "fitScore" | "fitFactors" | "fitAdjustments">>): Promise<void> {
+    if (fits.length === 0) {
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      for (const { id, ...fit } of fits) {
+        await tx.update(leads).set(fit).where(eq(leads.id, id));
+      }
+    });
+  }
+
+  async getDueSavedSearches(now: Date, limit: number): Promise<SavedSearch[]> {
+    return await db.select().from(savedSearches)
+      .where(and(eq(savedSearches.enabled, true), lte(savedSearches.nextRunAt, now)))
+      .orderBy(asc(savedSearches.nextRunAt))
+      .limit(limit);
+  }
+
+  // Advance next_run_at only if nobody else has yet, so each due run is executed once
+  async claimSavedSearchRun(id: number, expectedNextRunAt: Date, nextRunAt: Date): Promise<boolean> {
+    const claimed = await db
+      .update(savedSearches)
+      .set({ nextRunAt })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.nextRunAt, expectedNextRunAt)))
+      .returning({ id: savedSearches.id });
+    return claimed.length > 0;
+  }
+
+  async recordSavedSearchRun(id: number, runId: number, ranAt: Date): Promise<void> {
+    await db.update(savedSearches)
+      .set({ lastRunId: runId, lastRunAt: ranAt })
+      .where(eq(savedSearches.id, id));
+  }
+
+  // Includes trashed leads so businesses a broker already discarded are not re-added
+  async getExistingPlaceIds(workspaceId: number, placeIds: string[]): Promise<Set<string>> {
+    if (placeIds.length === 0) {
+      return new Set();
+    }
+
+    const rows = await db
+      .selectDistinct({ placeId: leads.placeId })
+      .from(leads)
+      .where(and(eq(leads.workspaceId, workspaceId), inArray(leads.placeId, placeIds)));
+    return new Set(rows.map(row => row.placeId!));
+  }
+
+  // Match each lead against the workspace by place ID, then domain, then normalised name; domain and name only match
+  // when one side has no place ID, so branches of a chain stay separate leads. New businesses are inserted; matches
+  // fill in fields the saved lead is missing. Leads already in the trash are left there.
+  async saveLeads(workspaceId: number, userId: number | null, insertLeads: LeadToSave[], links: LeadLinks = {}): Promise<LeadSaveResult[]> {
+    return await db.transaction(async (tx) => {
+      const results: LeadSaveResult[] = [];
+
+      for (const { enrichments = [], contacts: leadContacts = [], ...insertLead } of insertLeads) {
+        const incoming = { ...insertLead, ...leadDedupeKeys(insertLead), ...links };
+        const keyConditions = [
+          incoming.placeId ? eq(leads.placeId, incoming.placeId) : undefined,
+          incoming.domain ? eq(leads.domain, incoming.domain) : undefined,
+          incoming.normalizedName ? eq(leads.normalizedName, incoming.normalizedName) : undefined,
+        ].filter((condition): condition is SQL => !!condition);
+
+        const existing = keyConditions.length > 0
+          ? findSameBusiness(incoming, await tx.select().from(leads)
+            .where(and(
+              eq(leads.workspaceId, workspaceId),
+              or(...keyConditions),
+              incoming.placeId ? or(isNull(leads.placeId), eq(leads.placeId, incoming.placeId)) : undefined,
+            )))
+          : undefined;
+
+        if (!existing) {
+          const [created] = await tx.insert(leads)
+            .values({ ...incoming, workspaceId, userId })
+            .onConflictDoNothing({ target: [leads.workspaceId, leads.placeId] })
+            .returning();
+          if (created) {
+            await recordEnrichments(tx, created.id, enrichments);
+            await insertContacts(tx, created.id, leadContacts);
+            console.log(`Saved lead to database with ID: ${created.id} - ${created.businessName}`);
+            results.push({ status: "created", lead: created });
+            continue;
+          }
+
+          // Another run saved the same place in the meantime
+          const [concurrent] = await tx.select().from(leads)
+            .where(and(eq(leads.workspaceId, workspaceId), eq(leads.placeId, incoming.placeId!)));
+          results.push({ status: "skipped", lead: concurrent });
+          continue;
+        }
+
+        const fill = existing.deletedAt ? {} : missingFieldsFrom(existing, [incoming]);
+        // Decision makers are only added to a lead that has none, and then replace its placeholder contact
+        const addContacts = !existing.deletedAt && leadContacts.length > 0 && !(await hasContacts(tx, existing.id));
+        if (addContacts) {
+          Object.assign(fill, primaryContactFields(leadContacts[0]));
+        }
+        if (Object.keys(fill).length === 0) {
+          results.push({ status: "skipped", lead: existing });
+          continue;
+        }
+
+        const [merged] = await tx.update(leads)
+          .set({ ...fill, updatedAt: new Date() })
+          .where(eq(leads.id, existing.id))
+          .returning();
+        await recordEnrichments(tx, merged.id, enrichments.filter(entry => entry.field in fill));
+        if (addContacts) {
+          await insertContacts(tx, merged.id, leadContacts);
+        }
+        console.log(`Merged incoming lead into existing lead ${merged.id} - ${merged.businessName}`);
+        results.push({ status: "merged", lead: merged });
+      }
+
+      return results;
+    });
+  }
+
+  async getLeadEnrichments(leadIds: string[]): Promise<LeadEnrichment[]> {
+    if (leadIds.length === 0) {
+      return [];
+    }
+
+    return await db.select().from(leadEnrichments)
+      .where(inArray(leadEnrichments.leadId, leadIds))
+      .orderBy(asc(leadEnrichments.id));
+  }
+
+  // Attach each lead's company and enrichment provenance
+  async getLeadsWithEnrichments(leadRows: Lead[]): Promise<LeadWithEnrichments[]> {
+    const [enrichments, leadCompanies] = await Promise.all([
+      this.getLeadEnrichments(leadRows.map(lead => lead.id)),
+      this.getCompanies(leadRows.flatMap(lead => lead.companyId ? [lead.companyId] : [])),
+    ]);
+    return leadRows.map(lead => ({
+      ...lead,
+      company: leadCompanies.find(company => company.id === lead.companyId) ?? null,
+      enrichments: enrichments.filter(entry => entry.leadId === lead.id),
+    }));
+  }
+
+  // Queue live leads for background enrichment, restarting any earlier job for the same lead, and mark them
+  // pending. Leads already pending are left alone so a running job is never handed out twice.
+  async enqueueEnrichmentJobs(workspaceId: number, leadIds: string[], searchRunId?: number): Promise<Lead[]> {
+    if (leadIds.length === 0) {
+      return [];
+    }
+
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const queued = await tx.update(leads)
+        .set({ enrichmentStatus: "pending" })
+        .where(and(
+          eq(leads.workspaceId, workspaceId),
+          inArray(leads.id, leadIds),
+          isNull(leads.deletedAt),
+          or(isNull(leads.enrichmentStatus), ne(leads.enrichmentStatus, "pending")),
+        ))
+        .returning();
+      if (queued.length === 0) {
+        return [];
+      }
+
+      await tx.insert(enrichmentJobs)
+        .values(queued.map(lead => ({ leadId: lead.id, workspaceId, searchRunId })))
+        .onConflictDoUpdate({
+          target: enrichmentJobs.leadId,
+          set: {
+            searchRunId: sql`excluded.search_run_id`,
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: now,
+            lockedAt: null,
+            lastError: null,
+            updatedAt: now,
+            completedAt: null,
+          },
+        });
+      return queued;
+    });
+  }
+
+  async recordEnrichmentUsage(workspaceId: number, leadId: string | null, calls: ProviderCall[]): Promise<void> {
+    if (calls.length === 0) {
+      return;
+    }
+
+    await db.insert(enrichmentUsage).values(calls.map(call => ({ ...call, workspaceId, leadId })));
+  }
+
+  async getEnrichmentUsage(workspaceId: number, since: Date): Promise<EnrichmentCreditSummary["byProvider"]> {
+    const rows = await db
+      .select({
+        provider: enrichmentUsage.provider,
+        operation: enrichmentUsage.operation,
+        calls: count(),
+        credits: sql<number>`coalesce(sum(${enrichmentUsage.credits}), 0)::int`,
+      })
+      .from(enrichmentUsage)
+      .where(and(eq(enrichmentUsage.workspaceId, workspaceId), gte(enrichmentUsage.createdAt, since)))
+      .groupBy(enrichmentUsage.provider, enrichmentUsage.operation)
+      .orderBy(enrichmentUsage.provider, enrichmentUsage.operation);
+    return rows;
+  }
+
+  async getReservedEnrichmentCredits(workspaceId: number): Promise<number> {
+    const [row] = await db
+      .select({ credits: sql<number>`coalesce(sum(${enrichmentJobs.reservedCredits}), 0)::int` })
+      .from(enrichmentJobs)
+      .where(and(eq(enrichmentJobs.workspaceId, workspaceId), eq(enrichmentJobs.status, "running")));
+    return row.credits;
+  }
+
+  // Claim due jobs, plus running jobs whose worker went away; SKIP LOCKED keeps two workers from claiming the same
+  // job. Each job reserves budget.creditsPerJob while its workspace's budget has room for it, and nothing once it
+  // has not; the workspaces stay locked until the reservations are written, so two workers cannot reserve the same
+  // credits.
+  async claimEnrichmentJobs(limit: number, staleBefore: Date, budget: EnrichmentBudget): Promise<EnrichmentJob[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const due = await tx.select()
+        .from(enrichmentJobs)
+        .where(or(
+          and(eq(enrichmentJobs.status, "pending"), lte(enrichmentJobs.nextAttemptAt, now)),
+          and(eq(enrichmentJobs.status, "running"), lte(enrichmentJobs.lockedAt, staleBefore)),
+        ))
+        .orderBy(asc(enrichmentJobs.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+
+      const workspaceIds = Array.from(new Set(due.map(job => job.workspaceId)));
+      const budgets = await tx.select({ id: workspaces.id, monthlyCredits: workspaces.enrichmentMonthlyCredits })
+        .from(workspaces)
+        .where(inArray(workspaces.id, workspaceIds))
+        .for("update");
+      const used = await tx
+        .select({ workspaceId: enrichmentUsage.workspaceId, credits: sql<number>`coalesce(sum(${enrichmentUsage.credits}), 0)::int` })
+        .from(enrichmentUsage)
+        .where(and(inArray(enrichmentUsage.workspaceId, workspaceIds), gte(enrichmentUsage.createdAt, budget.periodStart)))
+        .groupBy(enrichmentUsage.workspaceId);
+      // Reclaimed jobs give up the reservation of the run that went away
+      const reserved = await tx
+        .select({ workspaceId: enrichmentJobs.workspaceId, credits: sql<number>`coalesce(sum(${enrichmentJobs.reservedCredits}), 0)::int` })
+        .from(enrichmentJobs)
+        .where(and(
+          inArray(enrichmentJobs.workspaceId, workspaceIds),
+          eq(enrichmentJobs.status, "running"),
+          notInArray(enrichmentJobs.id, due.map(job => job.id)),
+        ))
+        .groupBy(enrichmentJobs.workspaceId);
+
+      const remaining = new Map(budgets.map(workspace => [
+        workspace.id,
+        workspace.monthlyCredits
+          - (used.find(row => row.workspaceId === workspace.id)?.credits ?? 0)
+          - (reserved.find(row => row.workspaceId === workspace.id)?.credits ?? 0),
+      ]));
+
+      const claimed: EnrichmentJob[] = [];
+      for (const job of due) {
+        const left = remaining.get(job.workspaceId) ?? 0;
+        const reservedCredits = left >= budget.creditsPerJob ? budget.creditsPerJob : 0;
+        remaining.set(job.workspaceId, left - reservedCredits);
+        const [updated] = await tx.update(enrichmentJobs)
+          .set({ status: "running", lockedAt: now, attempts: sql`${enrichmentJobs.attempts} + 1`, reservedCredits, updatedAt: now })
+          .where(eq(enrichmentJobs.id, job.id))
+          .returning();
+        claimed.push(updated);
+      }
+      return claimed;
+    });
+  }
+
+  async completeEnrichmentJob(job: EnrichmentJob, update: LeadEnrichmentUpdate): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.update(enrichmentJobs)
+        .set({ status: "completed", lockedAt: null, reservedCredits: 0, lastError: null, updatedAt: now, completedAt: now })
+        .where(eq(enrichmentJobs.id, job.id));
+
+      const [lead] = await tx.select().from(leads).where(eq(leads.id, job.leadId)).for("update");
+      if (!lead) {
+        return undefined;
+      }
+
+      const fill = missingFieldsFrom(lead, [update.fields]);
+      // Decision makers replace the placeholder contact only on a lead that has none yet
+      const addContacts = update.contacts.length > 0 && !(await hasContacts(tx, lead.id));
+      if (addContacts) {
+        Object.assign(fill, primaryContactFields(update.contacts[0]));
+        await insertContacts(tx, lead.id, update.contacts);
+      }
+      await recordEnrichments(tx, lead.id, update.enrichments.filter(entry => entry.field in fill));
+
+      const rationale = lead.rationaleClaims ? update.rationale : undefined;
+      const [updated] = await tx.update(leads)
+        .set({ ...fill, ...update.fit, ...rationale, enrichmentStatus: update.status, updatedAt: now })
+        .where(eq(leads.id, lead.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async rescheduleEnrichmentJob(id: number, nextAttemptAt: Date, error: string): Promise<void> {
+    await db.update(enrichmentJobs)
+      .set({ status: "pending", nextAttemptAt, lockedAt: null, reservedCredits: 0, lastError: error, updatedAt: new Date() })
+      .where(eq(enrichmentJobs.id, id));
+  }
+
+  async failEnrichmentJob(job: EnrichmentJob, error: string): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.update(enrichmentJobs)
+        .set({ status: "failed", lockedAt: null, reservedCredits: 0, lastError: error, updatedAt: now, completedAt: now })
+        .where(eq(enrichmentJobs.id, job.id));
+      const [lead] = await tx.update(leads)
+        .set({ enrichmentStatus: "failed" })
+        .where(eq(leads.id, job.leadId))
+        .returning();
+      return lead || undefined;
+    });
+  }
+
+  // Primary contact first, then by seniority
+  async getLeadContacts(leadId: string): Promise<Contact[]> {
+    return await db.select().from(contacts)
+      .where(eq(contacts.leadId, leadId))
+      .orderBy(desc(contacts.isPrimary), desc(contacts.seniority), asc(contacts.id));
+  }
+
+  async setPrimaryContact(leadId: string, contactId: number): Promise<Contact | undefined> {
+    return await db.transaction(async (tx) => {
+      const [contact] = await tx.select().from(contacts)
+        .where(and(eq(contacts.id, contactId), eq(contacts.leadId, leadId)));
+      if (!contact) {
+        return undefined;
+      }
+
+      // Clear the old primary first; the partial unique index allows only one per lead
+      await tx.update(contacts).set({ isPrimary: false }).where(and(eq(contacts.leadId, leadId), eq(contacts.isPrimary, true)));
+      const [primary] = await tx.update(contacts).set({ isPrimary: true }).where(eq(contacts.id, contactId)).returning();
+      await tx.update(leads).set({ ...primaryContactFields(primary), updatedAt: new Date() }).where(eq(leads.id, leadId));
+      return primary;
+    });
+  }
+
+  async getCompanyByDomain(domain: string): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.domain, domain));
+    return company || undefined;
+  }
+
+  async getCompanies(ids: number[]): Promise<Company[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db.select().from(companies).where(inArray(companies.id, ids));
+  }
+
+  async upsertCompany(domain: string, data: InsertCompany): Promise<Company> {
+    const [company] = await db.insert(companies)
+      .values({ ...data, domain })
+      .onConflictDoUpdate({ target: companies.domain, set: data })
+      .returning();
+    return company;
+  }
+
+  // Groups of live leads that share a place ID, domain or normalised name, joined transitively. Leads with different
+  // place IDs are separate branches and never end up in one group, even through a lead without a place ID.
+  async getDuplicateLeadGroups(workspaceId: number): Promise<LeadDuplicateGroup[]> {
+    const live = and(eq(leads.workspaceId, workspaceId), isNull(leads.deletedAt));
+    const keyFields: Record<DuplicateReason, "placeId" | "domain" | "normalizedName"> = {
+      placeId: "placeId",
+      domain: "domain",
+      name: "normalizedName",
+    };
+    const sharedValues = (column: typeof leads.placeId | typeof leads.domain | typeof leads.normalizedName) => db
+      .select({ value: column })
+      .from(leads)
+      .where(and(live, isNotNull(column)))
+      .groupBy(column)
+      .having(sql`count(*) > 1`);
+
+    const candidates = await db.select().from(leads)
+      .where(and(live, or(
+        inArray(leads.placeId, sharedValues(leads.placeId)),
+        inArray(leads.domain, sharedValues(leads.domain)),
+        inArray(leads.normalizedName, sharedValues(leads.normalizedName)),
+      )))
+      .orderBy(asc(leads.createdAt));
+
+    // Union-find over the candidates, remembering which keys joined each pair
+    const parent = new Map(candidates.map(lead => [lead.id, lead.id]));
+    const find = (id: string): string => {
+      const next = parent.get(id)!;
+      return next === id ? id : find(next);
+    };
+    const reasonsByRoot = new Map<string, Set<DuplicateReason>>();
+    const placeByRoot = new Map(candidates.map(lead => [lead.id, { placeId: lead.placeId }]));
+    for (const [reason, field] of Object.entries(keyFields) as Array<[DuplicateReason, "placeId" | "domain" | "normalizedName"]>) {
+      const earlierByValue = new Map<string, string[]>();
+      for (const lead of candidates) {
+        const value = lead[field];
+        if (!value) {
+          continue;
+        }
+        const earlier = earlierByValue.get(value) ?? [];
+        earlierByValue.set(value, [...earlier, lead.id]);
+
+        // Join the first earlier lead with this value whose group has no other place ID
+        for (const other of earlier) {
+          const [rootA, rootB] = [find(other), find(lead.id)];
+          if (rootA === rootB) {
+            reasonsByRoot.get(rootA)!.add(reason);
+            break;
+          }
+          if (differentPlaces(placeByRoot.get(rootA)!, placeByRoot.get(rootB)!)) {
+            continue;
+          }
+          const reasons = new Set([...Array.from(reasonsByRoot.get(rootA) ?? []), ...Array.from(reasonsByRoot.get(rootB) ?? []), reason]);
+          parent.set(rootB, rootA);
+          reasonsByRoot.delete(rootB);
+          reasonsByRoot.set(rootA, reasons);
+          placeByRoot.set(rootA, { placeId: placeByRoot.get(rootA)!.placeId ?? placeByRoot.get(rootB)!.placeId });
+          break;
+        }
+      }
+    }
+
+    const groups = new Map<string, Lead[]>();
+    for (const lead of candidates) {
+      const root = find(lead.id);
+      groups.set(root, [...(groups.get(root) ?? []), lead]);
+    }
+
+    return Array.from(groups.entries())
+      .filter(([, groupLeads]) => groupLeads.length > 1)
+      .map(([root, groupLeads]) => ({ reasons: Array.from(reasonsByRoot.get(root) ?? []), leads: groupLeads }))
+      .sort((a, b) => b.leads.length - a.leads.length);
+  }
+
+  // Fold duplicates into the primary lead: fill its missing fields, move their activities, stage history and
+  // contacts over, then delete them. Returns undefined if any of the leads is missing or already in the trash.
+  async mergeLeads(workspaceId: number, primaryId: string, duplicateIds: string[]): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      const involved = await tx.select().from(leads)
+        .where(and(
+          inArray(leads.id, [primaryId, ...duplicateIds]),
+          eq(leads.workspaceId, workspaceId),
+          isNull(leads.deletedAt),
+        ))
+        .orderBy(asc(leads.createdAt));
+      const primary = involved.find(lead => lead.id === primaryId);
+      const duplicates = involved.filter(lead => lead.id !== primaryId);
+      if (!primary || duplicates.length !== new Set(duplicateIds).size) {
+        return undefined;
+      }
+
+      const fill = missingFieldsFrom(primary, duplicates);
+
+      await tx.update(activities).set({ leadId: primaryId }).where(inArray(activities.leadId, duplicateIds));
+      await tx.update(leadStageHistory).set({ leadId: primaryId }).where(inArray(leadStageHistory.leadId, duplicateIds));
+      // The primary lead keeps its own primary contact; the duplicates' people join its contact list
+      await tx.update(contacts).set({ leadId: primaryId, isPrimary: false }).where(inArray(contacts.leadId, duplicateIds));
+      // Enriched fields taken from a duplicate keep the provenance recorded for that duplicate
+      for (const field of Object.keys(fill).filter(isEnrichmentField)) {
+        const supplier = duplicates.find(duplicate => duplicate[field] === fill[field]);
+        await tx.delete(leadEnrichments).where(and(eq(leadEnrichments.leadId, primaryId), eq(leadEnrichments.field, field)));
+        if (supplier) {
+          await tx.update(leadEnrichments)
+            .set({ leadId: primaryId })
+            .where(and(eq(leadEnrichments.leadId, supplier.id), eq(leadEnrichments.field, field)));
+        }
+      }
+      // Delete before filling so a duplicate's place ID can move to the primary without tripping the unique index
+      await tx.delete(leads).where(inArray(leads.id, duplicateIds));
+
+      await tx.update(leads).set({ ...fill, updatedAt: new Date() }).where(eq(leads.id, primaryId));
+      await ensurePrimaryContact(tx, primaryId);
+      await refreshLastActivityAt(tx, primaryId);
+
+      const [merged] = await tx.select().from(leads).where(eq(leads.id, primaryId));
+      return merged;
+    });
+  }
+
+  // Derive dedupe keys for leads saved before they were stored
+  async backfillLeadDedupeKeys(): Promise<number> {
+    const pending = await db.select({ id: leads.id, businessName: leads.businessName, website: leads.website })
+      .from(leads)
+      .where(isNull(leads.normalizedName));
+
+    for (const lead of pending) {
+      await db.update(leads)
+        .set(leadDedupeKeys({ businessName: lead.businessName, website: lead.website ?? null }))
+        .where(eq(leads.id, lead.id));
+    }
+    return pending.length;
+  }
+
+  async getAllLeads(workspaceId: number, query: Partial<LeadQuery> = {}, limit: number = 50, offset: number = 0): Promise<LeadWithCompany[]> {
+    const sortColumn = leadSortColumns[query.sortBy ?? "createdAt"];
+    const direction = query.sortOrder === "asc" ? asc : desc;
+
+    const rows = await db.select({ lead: leads, company: companies }).from(leads)
+      .leftJoin(companies, eq(leads.companyId, companies.id))
+      .where(and(...leadFilterConditions(workspaceId, query)))
+      // Leads without a value (e.g. no activity yet) sort last either way; tie-break on id so pages never overlap or skip rows
+      .orderBy(sql`${direction(sortColumn)} nulls last`, direction(leads.id))
+      .limit(limit)
+      .offset(offset);
+    return rows.map(({ lead, company }) => ({ ...lead, company }));
+  }
+
+  async getLeadsCount(workspaceId: number, query: Partial<LeadQuery> = {}): Promise<number> {
+    const result = await db.select({ count: count() }).from(leads)
+      .where(and(...leadFilterConditions(workspaceId, query)));
+    return result[0].count;
+  }
+
+  // Industries the workspace's live leads have, A–Z, for the industry filter to pick from
+  async getLeadIndustries(workspaceId: number): Promise<string[]> {
+    const rows = await db.selectDistinct({ industry: leads.industry }).from(leads)
+      .where(and(eq(leads.workspaceId, workspaceId), isNull(leads.deletedAt)))
+      .orderBy(asc(leads.industry));
+    return rows.map(row => row.industry);
+  }
+
+  // Leads with coordinates matching the filters, best fit first so a capped map keeps the strongest prospects
+  async getLeadMapPoints(workspaceId: number, query: Partial<LeadQuery>, limit: number): Promise<{ points: LeadMapPoint[]; total: number }> {
+    const conditions = and(
+      ...leadFilterConditions(workspaceId, query),
+      isNotNull(leads.latitude),
+      isNotNull(leads.longitude),
+    );
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({
+        id: leads.id,
+        businessName: leads.businessName,
+        industry: leads.industry,
+        stage: leads.stage,
+        fitScore: leads.fitScore,
+        propertyId: leads.propertyId,
+        latitude: leads.latitude,
+        longitude: leads.longitude,
+      }).from(leads)
+        .where(conditions)
+        .orderBy(sql`${desc(leads.fitScore)} nulls last`, desc(leads.id))
+        .limit(limit),
+      db.select({ total: count() }).from(leads).where(conditions),
+    ]);
+
+    return {
+      points: rows.map(row => ({ ...row, latitude: row.latitude!, longitude: row.longitude! })),
+      total,
+    };
+  }
+
+  async getLead(workspaceId: number, id: string): Promise<Lead | undefined> {
+    const [lead] = await db.select().from(leads).where(and(
+      eq(leads.id, id),
+      eq(leads.workspaceId, workspaceId),
+      isNull(leads.deletedAt),
+    ));
+    return lead || undefined;
+  }
+
+  async updateLead(workspaceId: number, id: string, data: UpdateLead): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(leads).where(and(
+        eq(leads.id, id),
+        eq(leads.workspaceId, workspaceId),
+        isNull(leads.deletedAt),
+      ));
+      if (!current) {
+        return undefined;
+      }
+
+      // A rewritten rationale no longer matches the claims it was generated from
+      const rationaleEdited = data.rationale !== undefined && data.rationale !== current.rationale;
+      const [lead] = await tx
+        .update(leads)
+        .set({ ...data, ...leadDedupeKeys(data), ...(rationaleEdited ? { rationaleClaims: null } : {}), updatedAt: new Date() })
+        .where(eq(leads.id, id))
+        .returning();
+
+      // A hand-edited field no longer comes from an enrichment provider
+      const editedFields = enrichmentFields.filter(field => data[field] !== undefined && data[field] !== current[field]);
+      if (editedFields.length > 0) {
+        await tx.delete(leadEnrichments).where(and(eq(leadEnrichments.leadId, id), inArray(leadEnrichments.field, editedFields)));
+      }
+      return lead;
+    });
+  }
+
+  async softDeleteLeads(workspaceId: number, ids: string[]): Promise<number> {
+    const deleted = await db
+      .update(leads)
+      .set({ deletedAt: new Date() })
+      .where(and(
+        inArray(leads.id, ids),
+        eq(leads.workspaceId, workspaceId),
+        isNull(leads.deletedAt),
+      ))
+      .returning({ id: leads.id });
+    return deleted.length;
+  }
+
+  async restoreLeads(workspaceId: number, ids: string[]): Promise<number> {
+    const restored = await db
+      .update(leads)
+      .set({ deletedAt: null })
+      .where(and(
+        inArray(leads.id, ids),
+        eq(leads.workspaceId, workspaceId),
+        isNotNull(leads.deletedAt),
+      ))
+      .returning({ id: leads.id });
+    return restored.length;
+  }
+
+  async getDeletedLeads(workspaceId: number, limit: number = 50, offset: number = 0): Promise<Lead[]> {
     return await db.select().from(leads)
-      .orderBy(desc(leads.createdAt))
+      .where(and(eq(leads.workspaceId, workspaceId), isNotNull(leads.deletedAt)))
+      .orderBy(desc(leads.deletedAt))
       .limit(limit)
       .offset(offset);
   }
 
-  async getLeadsCount(): Promise<number> {
-    const result = await db.select({ count: count() }).from(leads);
+  async getDeletedLeadsCount(workspaceId: number): Promise<number> {
+    const result = await db.select({ count: count() }).from(leads)
+      .where(and(eq(leads.workspaceId, workspaceId), isNotNull(leads.deletedAt)));
     return result[0].count;
   }
+
+  async updateLeadStage(workspaceId: number, id: string, stage: LeadStage, changedBy: number): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(leads).where(and(
+        eq(leads.id, id),
+        eq(leads.workspaceId, workspaceId),
+        isNull(leads.deletedAt),
+      ));
+      if (!current || current.stage === stage) {
+        return current || undefined;
+      }
+
+      const now = new Date();
+      const [updated] = await tx
+        .update(leads)
+        .set({ stage, stageChangedAt: now, updatedAt: now })
+        .where(eq(leads.id, id))
+        .returning();
+
+      await tx.insert(leadStageHistory).values({
+        leadId: id,
+        fromStage: current.stage,
+        toStage: stage,
+        changedBy,
+        changedAt: now,
+      });
+
+      return updated;
+    });
+  }
+
+  async getLeadStageHistory(workspaceId: number, id: string): Promise<LeadStageChange[]> {
+    const rows = await db
+      .select({ change: leadStageHistory, changedByUsername: users.username })
+      .from(leadStageHistory)
+      .innerJoin(leads, eq(leadStageHistory.leadId, leads.id))
+      .leftJoin(users, eq(leadStageHistory.changedBy, users.id))
+      .where(and(eq(leadStageHistory.leadId, id), eq(leads.workspaceId, workspaceId)))
+      .orderBy(desc(leadStageHistory.changedAt));
+
+    return rows.map(row => ({ ...row.change, changedByUsername: row.changedByUsername }));
+  }
+
+  async getLeadActivities(leadId: string): Promise<LeadActivity[]> {
+    const rows = await db
+      .select({ activity: activities, authorUsername: users.username })
+      .from(activities)
+      .leftJoin(users, eq(activities.authorId, users.id))
+      .where(eq(activities.leadId, leadId))
+      .orderBy(desc(activities.occurredAt), desc(activities.id));
+
+    return rows.map(row => ({ ...row.activity, authorUsername: row.authorUsername }));
+  }
+
+  async createActivity(leadId: string, authorId: number, activity: InsertActivity): Promise<Activity> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(activities)
+        .values({ ...activity, leadId, authorId })
+        .returning();
+      await refreshLastActivityAt(tx, leadId);
+      return created;
+    });
+  }
+
+  async updateActivity(leadId: string, activityId: number, data: UpdateActivity): Promise<Activity | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(activities)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(activities.id, activityId), eq(activities.leadId, leadId)))
+        .returning();
+      if (updated && data.occurredAt) {
+        await refreshLastActivityAt(tx, leadId);
+      }
+      return updated || undefined;
+    });
+  }
+
+  async deleteActivity(leadId: string, activityId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(activities)
+        .where(and(eq(activities.id, activityId), eq(activities.leadId, leadId)))
+        .returning({ id: activities.id });
+      if (deleted.length > 0) {
+        await refreshLastActivityAt(tx, leadId);
+      }
+      return deleted.length > 0;
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,12 +1,37 @@
 import { z } from "zod";
-import { pgTable, serial, text, timestamp, uuid, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, timestamp, uuid, boolean, index, integer, uniqueIndex, doublePrecision, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
+
+// Search radius choices offered in the UI, in miles
+export const searchRadiusOptions = [1, 3, 5, 10, 25] as const;
+
+// Businesses turned into leads per search: the default, the choices offered in the UI, and the most Google Places
+// text search can return (three pages of 20)
+export const defaultSearchResultCount = 5;
+export const searchResultCountOptions = [5, 10, 20, 40, 60] as const;
+export const maxSearchResultCount = 60;
+
+// A search can fan out over up to this many business types and target locations, one query per combination
+export const maxSearchBusinessTypes = 3;
+export const maxSearchLocations = 5;
+
+// Extra values typed one per line: blank lines are dropped before the count is checked
+const extraSearchValues = (max: number, label: string) => z.array(z.string())
+  .transform(values => values.map(value => value.trim()).filter(Boolean))
+  .pipe(z.array(z.string().max(200)).max(max, `At most ${max} more ${label}`));
 
 export const leadFormSchema = z.object({
   businessType: z.string().min(1, "Business type is required"),
   targetLocation: z.string().min(1, "Target location is required"),
+  additionalBusinessTypes: extraSearchValues(maxSearchBusinessTypes - 1, "business types").optional(),
+  additionalTargetLocations: extraSearchValues(maxSearchLocations - 1, "target locations").optional(),
   squareFootage: z.string().min(1, "Square footage is required"),
   features: z.array(z.string()).optional().default([]),
+  // Only businesses within this many miles of the property (or of the target location) are kept; omit to search
+  // the target location by name. Capped near Google Places' 50 km search radius.
+  radiusMiles: z.number().positive("Radius must be positive").max(30, "Radius must be 30 miles or less").optional(),
+  maxResults: z.number().int().min(1, "Result count must be at least 1").max(maxSearchResultCount, `Result count must be ${maxSearchResultCount} or less`).optional(),
 });
 
 export const tenantLeadSchema = z.object({
@@ -20,9 +45,54 @@ export const tenantLeadSchema = z.object({
   enrichedName: z.string().optional(),
   title: z.string().optional(),
   linkedinUrl: z.string().optional(),
+  // Which enrichment provider supplied each enriched field, keyed by field name
+  sources: z.record(z.string(), z.object({
+    source: z.string(),
+    confidence: z.number().nullable(),
+  })).optional(),
+  company: z.custom<Company>().nullable().optional(),
+  enrichmentStatus: z.custom<LeadEnrichmentStatus>().nullable().optional(),
+  distanceMiles: z.number().nullable().optional(),
+  foundBy: z.custom<SearchMatch[]>().nullable().optional(),
+  fitScore: z.number().nullable().optional(),
+  fitFactors: z.custom<FitFactor[]>().nullable().optional(),
+  fitAdjustments: z.custom<FitAdjustment[]>().nullable().optional(),
+  rationaleClaims: z.custom<RationaleClaim[]>().nullable().optional(),
 });
 
 export type LeadFormData = z.infer<typeof leadFormSchema>;
+
+function distinctValues(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.trim().toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Every business type and every target location a search covers, without repeats (ignoring case)
+export function searchBusinessTypesOf(criteria: Pick<LeadFormData, "businessType" | "additionalBusinessTypes">): string[] {
+  return distinctValues([criteria.businessType, ...(criteria.additionalBusinessTypes ?? [])]);
+}
+
+export function searchLocationsOf(criteria: Pick<LeadFormData, "targetLocation" | "additionalTargetLocations">): string[] {
+  return distinctValues([criteria.targetLocation, ...(criteria.additionalTargetLocations ?? [])]);
+}
+
+// "Dentist, Gym in Austin TX; Round Rock TX"
+export function describeSearch(criteria: LeadFormData): string {
+  return `${searchBusinessTypesOf(criteria).join(", ")} in ${searchLocationsOf(criteria).join("; ")}`;
+}
+
+// "Dentist in Austin TX; Gym in Round Rock TX"
+export function describeFoundBy(foundBy: SearchMatch[]): string {
+  return foundBy.map(match => `${match.businessType} in ${match.location}`).join("; ");
+}
+
 export type TenantLead = z.infer<typeof tenantLeadSchema>;
 
 export const propertyFeatures = [
@@ -51,33 +121,884 @@ export const insertUserSchema = createInsertSchema(users).omit({
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// User shape returned by the API - never includes the password hash
+export type SafeUser = Omit<User, "password">;
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type LoginData = z.infer<typeof loginSchema>;
+
+// Workspaces: each brokerage team shares one lead pool
+export const workspaceRoles = ["owner", "admin", "broker", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export type WorkspacePermission = "read" | "generate" | "edit" | "export" | "manageMembers";
+
+// Single source of truth for what each role may do - used by the API guards and to hide UI controls
+export const rolePermissions: Record<WorkspaceRole, readonly WorkspacePermission[]> = {
+  owner: ["read", "generate", "edit", "export", "manageMembers"],
+  admin: ["read", "generate", "edit", "export", "manageMembers"],
+  broker: ["read", "generate", "edit", "export"],
+  viewer: ["read"],
+};
+
+export function hasPermission(role: WorkspaceRole, permission: WorkspacePermission): boolean {
+  return rolePermissions[role].includes(permission);
+}
+
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  enrichmentMonthlyCredits: integer("enrichment_monthly_credits").default(500).notNull(), // Provider credits per calendar month (UTC)
+  autoEnrichCount: integer("auto_enrich_count").default(5).notNull(), // New leads per search enriched automatically; the rest on demand
+  taxonomySeededAt: timestamp("taxonomy_seeded_at"), // When the built-in business type taxonomy was copied in for editing
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceMemberships = pgTable("workspace_memberships", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role", { enum: workspaceRoles }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceUserIdx: uniqueIndex("workspace_memberships_workspace_user_idx").on(table.workspaceId, table.userId),
+  userIdx: index("workspace_memberships_user_id_idx").on(table.userId),
+}));
+
+export const workspaceInvites = pgTable("workspace_invites", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  role: text("role", { enum: workspaceRoles }).notNull(),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(100, "Workspace name must be 100 characters or less"),
+});
+
+export const updateEnrichmentSettingsSchema = z.object({
+  enrichmentMonthlyCredits: z.number().int().min(0, "Monthly credits cannot be negative").max(1_000_000, "Monthly credits must be 1,000,000 or less"),
+  autoEnrichCount: z.number().int().min(0, "Auto-enrich count cannot be negative").max(60, "Auto-enrich count must be 60 or less"),
+}).partial();
+
+// Ownership cannot be handed out through invites or role changes
+export const assignableRoleSchema = z.enum(["admin", "broker", "viewer"]);
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type UpdateEnrichmentSettings = z.infer<typeof updateEnrichmentSettingsSchema>;
+export type WorkspaceMembership = typeof workspaceMemberships.$inferSelect;
+export type WorkspaceInvite = typeof workspaceInvites.$inferSelect;
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+export type WorkspaceMember = {
+  userId: number;
+  username: string;
+  role: WorkspaceRole;
+  joinedAt: Date;
+};
+
+// Listings the workspace is marketing; leads can be generated against a specific space
+export const propertyUseTypes = ["office", "retail", "industrial", "medical", "restaurant", "flex", "mixed_use"] as const;
+export type PropertyUseType = typeof propertyUseTypes[number];
+
+export const propertyUseTypeLabels: Record<PropertyUseType, string> = {
+  office: "Office",
+  retail: "Retail",
+  industrial: "Industrial",
+  medical: "Medical",
+  restaurant: "Restaurant",
+  flex: "Flex",
+  mixed_use: "Mixed Use",
+};
+
+export const properties = pgTable("properties", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  address: text("address").notNull(),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  squareFootage: integer("square_footage").notNull(),
+  askingRent: doublePrecision("asking_rent"), // Dollars per square foot per year
+  useType: text("use_type", { enum: propertyUseTypes }).notNull(),
+  features: text("features", { enum: propertyFeatures }).array().notNull().default(sql`'{}'::text[]`),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceIdx: index("properties_workspace_id_idx").on(table.workspaceId),
+}));
+
+export const insertPropertySchema = z.object({
+  address: z.string().trim().min(1, "Address is required").max(500, "Address must be 500 characters or less"),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  squareFootage: z.number().int().positive("Square footage must be a positive number"),
+  askingRent: z.number().nonnegative("Asking rent cannot be negative").nullable().optional(),
+  useType: z.enum(propertyUseTypes),
+  features: z.array(z.enum(propertyFeatures)).default([]),
+}).refine(
+  (property) => (property.latitude == null) === (property.longitude == null),
+  { message: "Latitude and longitude must be provided together", path: ["longitude"] },
+);
+
+export const updatePropertySchema = insertPropertySchema.innerType().partial().refine(
+  (property) => (property.latitude === undefined) === (property.longitude === undefined),
+  { message: "Latitude and longitude must be updated together", path: ["longitude"] },
+);
+
+export type Property = typeof properties.$inferSelect;
+export type InsertProperty = z.infer<typeof insertPropertySchema>;
+export type UpdateProperty = z.infer<typeof updatePropertySchema>;
+export type PropertyWithLeadCount = Property & { leadCount: number };
+
+// Searches re-run on a cron schedule; each run only inserts businesses the workspace has not saved before
+export const DEFAULT_SEARCH_SCHEDULE = "0 2 * * *"; // Nightly at 02:00 UTC
+
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  criteria: jsonb("criteria").$type<LeadFormData>().notNull(),
+  cronExpression: text("cron_expression").default(DEFAULT_SEARCH_SCHEDULE).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  nextRunAt: timestamp("next_run_at"), // Null while disabled
+  lastRunAt: timestamp("last_run_at"),
+  lastRunId: integer("last_run_id").references((): AnyPgColumn => searchRuns.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceIdx: index("saved_searches_workspace_id_idx").on(table.workspaceId),
+  nextRunIdx: index("saved_searches_next_run_at_idx").on(table.nextRunAt),
+}));
+
+// Every lead generation run is recorded so a lead can be traced back to the search that produced it
+export const searchRunStatuses = ["running", "completed", "failed"] as const;
+export type SearchRunStatus = typeof searchRunStatuses[number];
+
+export const searchRuns = pgTable("search_runs", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "set null" }),
+  rerunOfId: integer("rerun_of_id").references((): AnyPgColumn => searchRuns.id, { onDelete: "set null" }),
+  savedSearchId: integer("saved_search_id").references((): AnyPgColumn => savedSearches.id, { onDelete: "set null" }),
+  criteria: jsonb("criteria").$type<LeadFormData>().notNull(),
+  // Point lead distances were measured from, when it could be located; the first target location's for a fan-out search
+  originLatitude: doublePrecision("origin_latitude"),
+  originLongitude: doublePrecision("origin_longitude"),
+  status: text("status", { enum: searchRunStatuses }).default("running").notNull(),
+  error: text("error"),
+  placesFound: integer("places_found").default(0).notNull(),
+  leadsSaved: integer("leads_saved").default(0).notNull(),
+  duplicatesSkipped: integer("duplicates_skipped").default(0).notNull(), // Places the workspace already had as leads
+  closedSkipped: integer("closed_skipped").default(0).notNull(), // Places left out because they have closed permanently
+  detailErrors: integer("detail_errors").default(0).notNull(), // Places left out because their details could not be fetched
+  enrichedCount: integer("enriched_count").default(0).notNull(),
+  googleCalls: integer("google_calls").default(0).notNull(),
+  pdlCalls: integer("pdl_calls").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  workspaceCreatedIdx: index("search_runs_workspace_id_created_at_idx").on(table.workspaceId, table.createdAt),
+}));
+
+export const createSearchRunSchema = leadFormSchema.extend({
+  propertyId: z.number().int().positive().optional(),
+});
+
+export type SearchRun = typeof searchRuns.$inferSelect;
+export type CreateSearchRun = z.infer<typeof createSearchRunSchema>;
+export type SearchRunWithDetails = SearchRun & {
+  username: string | null;
+  propertyAddress: string | null;
+};
+
+export const insertSavedSearchSchema = leadFormSchema.extend({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+  propertyId: z.number().int().positive().nullable().optional(),
+  cronExpression: z.string().trim().min(1).default(DEFAULT_SEARCH_SCHEDULE),
+  enabled: z.boolean().default(true),
+});
+
+export const updateSavedSearchSchema = insertSavedSearchSchema.partial();
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type UpdateSavedSearch = z.infer<typeof updateSavedSearchSchema>;
+// lastRunNewLeads is the "new since last run" count shown in the UI
+export type SavedSearchWithLastRun = SavedSearch & {
+  propertyAddress: string | null;
+  lastRunStatus: SearchRunStatus | null;
+  lastRunNewLeads: number | null;
+};
+
+export type SearchRunListResponse = {
+  runs: SearchRunWithDetails[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+};
+
+// Firmographics from company-level enrichment, keyed on the normalised website domain and shared by every
+// workspace's leads at that domain. Rows with matched = false remember misses so they are not re-queried.
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  domain: text("domain").notNull().unique(),
+  matched: boolean("matched").default(false).notNull(),
+  name: text("name"),
+  employeeCount: integer("employee_count"),
+  headcountGrowth: doublePrecision("headcount_growth"), // 12-month employee growth rate, e.g. 0.15 = +15%
+  foundedYear: integer("founded_year"),
+  industry: text("industry"),
+  hqLocation: text("hq_location"),
+  totalFunding: doublePrecision("total_funding"), // USD raised to date
+  latestFundingStage: text("latest_funding_stage"),
+  source: text("source"), // Enrichment provider that matched, e.g. "pdl"
+  enrichedAt: timestamp("enriched_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = Omit<typeof companies.$inferInsert, "id" | "domain" | "createdAt">;
+
+// Sales pipeline a lead moves through after it is saved
+export const leadStages = ["new", "contacted", "touring", "loi", "lease_signed", "lost"] as const;
+export type LeadStage = typeof leadStages[number];
+
+export const leadStageLabels: Record<LeadStage, string> = {
+  new: "New",
+  contacted: "Contacted",
+  touring: "Touring",
+  loi: "LOI",
+  lease_signed: "Lease Signed",
+  lost: "Lost",
+};
+
+// Where a lead is in background enrichment; null for leads that were never queued. over_budget leads were
+// skipped because the workspace had used its monthly credits.
+export const leadEnrichmentStatuses = ["pending", "enriched", "not_found", "failed", "over_budget"] as const;
+export type LeadEnrichmentStatus = typeof leadEnrichmentStatuses[number];
+
+// Explainable parts of a lead's 0-100 fit score. Weights are the factor's share of 100 points under the scoring
+// profile in use; a factor without data (score null) counts as neutral, half its weight.
+export const fitFactorKeys = ["industry", "distance", "rating", "reviews", "headcount", "features"] as const;
+export type FitFactorKey = typeof fitFactorKeys[number];
+
+export type FitFactor = {
+  key: FitFactorKey;
+  weight: number;
+  score: number | null; // 0-1, null when there was nothing to judge by
+  detail: string;
+};
+
+export const fitFactorLabels: Record<FitFactorKey, string> = {
+  industry: "Industry match",
+  distance: "Distance",
+  rating: "Google rating",
+  reviews: "Review count",
+  headcount: "Company headcount",
+  features: "Property features",
+};
+
+// A business type and target location of a search that found a lead
+export type SearchMatch = {
+  businessType: string;
+  location: string;
+};
+
+// Points added or taken away by a scoring profile rule that matched the lead
+export type FitAdjustment = {
+  rule: string; // e.g. "Industry contains Medical"
+  points: number;
+};
+
+// One sentence of a lead's rationale. Observed claims restate something a source reported about the business;
+// inferred claims are our reading of those facts and are labelled as such wherever the rationale is shown.
+export const rationaleClaimBases = ["observed", "inferred"] as const;
+export type RationaleClaimBasis = typeof rationaleClaimBases[number];
+
+export type RationaleClaim = {
+  key: string; // The fact the claim rests on, e.g. "reviews" or "headcountGrowth"
+  text: string;
+  basis: RationaleClaimBasis;
+  source: string | null; // Where an observed fact came from, e.g. "google" or "pdl"
+};
+
+export const defaultFitWeights: Record<FitFactorKey, number> = {
+  industry: 30,
+  distance: 20,
+  rating: 15,
+  reviews: 10,
+  headcount: 15,
+  features: 10,
+};
+
+// Scoring profile rules: "<field> <operator> <value> → <adjustment> points". Text fields match case-insensitively.
+export const scoringRuleTextFields = ["industry", "businessName"] as const;
+export const scoringRuleNumberFields = ["rating", "ratingCount", "employeeCount", "headcountGrowth"] as const;
+export const scoringRuleFields = [...scoringRuleTextFields, ...scoringRuleNumberFields] as const;
+export type ScoringRuleField = typeof scoringRuleFields[number];
+
+export const scoringRuleTextOperators = ["contains", "equals"] as const;
+export const scoringRuleNumberOperators = ["lt", "lte", "gt", "gte", "equals"] as const;
+export const scoringRuleOperators = ["contains", "equals", "lt", "lte", "gt", "gte"] as const;
+export type ScoringRuleOperator = typeof scoringRuleOperators[number];
+
+export const scoringRuleFieldLabels: Record<ScoringRuleField, string> = {
+  industry: "Industry",
+  businessName: "Business name",
+  rating: "Google rating",
+  ratingCount: "Review count",
+  employeeCount: "Employees",
+  headcountGrowth: "Headcount growth (%)",
+};
+
+export const scoringRuleOperatorLabels: Record<ScoringRuleOperator, string> = {
+  contains: "contains",
+  equals: "is",
+  lt: "<",
+  lte: "≤",
+  gt: ">",
+  gte: "≥",
+};
+
+export const scoringRuleSchema = z.object({
+  field: z.enum(scoringRuleFields),
+  operator: z.enum(scoringRuleOperators),
+  value: z.union([z.string().trim().min(1, "Rule value is required").max(100), z.number()]),
+  adjustment: z.number().int().min(-100).max(100).refine(value => value !== 0, "Adjustment cannot be zero"),
+}).refine(
+  (rule) => (scoringRuleTextFields as readonly string[]).includes(rule.field)
+    ? typeof rule.value === "string" && (scoringRuleTextOperators as readonly string[]).includes(rule.operator)
+    : typeof rule.value === "number" && (scoringRuleNumberOperators as readonly string[]).includes(rule.operator),
+  { message: "Text fields take contains/is with text; number fields take a comparison with a number", path: ["operator"] },
+);
+
+export type ScoringRule = z.infer<typeof scoringRuleSchema>;
+
+// Per-workspace scoring: factor weights plus rules. The active profile scores new leads and re-scores saved ones
+// whenever it changes; without one the default weights apply.
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  weights: jsonb("weights").$type<Record<FitFactorKey, number>>().notNull(),
+  rules: jsonb("rules").$type<ScoringRule[]>().notNull().default(sql`'[]'::jsonb`),
+  isActive: boolean("is_active").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceIdx: index("scoring_profiles_workspace_id_idx").on(table.workspaceId),
+  workspaceActiveIdx: uniqueIndex("scoring_profiles_workspace_id_active_idx").on(table.workspaceId).where(sql`${table.isActive}`),
+}));
+
+const fitWeightsSchema = z.object(
+  Object.fromEntries(fitFactorKeys.map(key => [key, z.number().int().min(0).max(100)])) as Record<FitFactorKey, z.ZodNumber>
+).refine(
+  (weights) => Object.values(weights).some(weight => weight > 0),
+  { message: "At least one factor needs a weight above zero" },
+);
+
+export const scoringSettingsSchema = z.object({
+  weights: fitWeightsSchema,
+  rules: z.array(scoringRuleSchema).max(25, "At most 25 rules per profile").default([]),
+});
+
+export const insertScoringProfileSchema = scoringSettingsSchema.extend({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+  isActive: z.boolean().default(false),
+});
+
+export const updateScoringProfileSchema = insertScoringProfileSchema.partial();
+
+export type ScoringProfile = typeof scoringProfiles.$inferSelect;
+export type ScoringSettings = z.infer<typeof scoringSettingsSchema>;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+export type UpdateScoringProfile = z.infer<typeof updateScoringProfileSchema>;
+
+export type ScoringProfileListResponse = {
+  profiles: ScoringProfile[];
+  active: ScoringSettings; // Weights and rules in effect - the active profile's, or the defaults
+};
+
+// A saved lead's score now and under the profile being edited
+export type ScoringPreview = {
+  leadId: string;
+  businessName: string;
+  currentScore: number | null;
+  previewScore: number;
+  adjustments: FitAdjustment[];
+};
+
+// Business type taxonomy: what a searched-for business type means in the Google Places type vocabulary. Each
+// workspace gets a copy of the built-in taxonomy the first time it is used and can edit it from there.
+export const businessCategories = pgTable("business_categories", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // e.g. "Medical"; offered by the Business Type autocomplete
+  synonyms: text("synonyms").array().notNull().default(sql`'{}'::text[]`), // Other names brokers search by, e.g. "clinic"
+  placeTypes: text("place_types").array().notNull(), // Google place types searched for, e.g. "doctor", "dentist"
+  valuedFeatures: text("valued_features", { enum: propertyFeatures }).array().notNull().default(sql`'{}'::text[]`), // Property features businesses of this kind tend to need
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceNameIdx: uniqueIndex("business_categories_workspace_id_name_idx").on(table.workspaceId, sql`lower(${table.name})`),
+}));
+
+// Industry shown on a lead for the first of its Google place types that has one
+export const placeTypeIndustries = pgTable("place_type_industries", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  placeType: text("place_type").notNull(),
+  industry: text("industry").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  workspacePlaceTypeIdx: uniqueIndex("place_type_industries_workspace_id_place_type_idx").on(table.workspaceId, table.placeType),
+}));
+
+// Google place types are lower snake case, e.g. "meal_takeaway"
+const placeTypeSchema = z.string().trim().toLowerCase().regex(/^[a-z][a-z0-9_]*$/, "Use Google place types such as meal_takeaway");
+
+const taxonomyTerms = (max: number, label: string) =>
+  z.array(z.string()).transform(values => distinctValues(values.map(value => value.trim()).filter(Boolean)))
+    .pipe(z.array(z.string().max(100, `${label} must be 100 characters or less`)).max(max, `At most ${max} ${label.toLowerCase()}`));
+
+export const insertBusinessCategorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+  synonyms: taxonomyTerms(50, "Synonyms").default([]),
+  placeTypes: z.array(placeTypeSchema).min(1, "Add at least one Google place type").max(20, "At most 20 place types")
+    .transform(distinctValues),
+  valuedFeatures: z.array(z.enum(propertyFeatures)).default([]),
+});
+
+export const updateBusinessCategorySchema = insertBusinessCategorySchema.partial();
+
+export const insertPlaceTypeIndustrySchema = z.object({
+  placeType: placeTypeSchema,
+  industry: z.string().trim().min(1, "Industry is required").max(100, "Industry must be 100 characters or less"),
+});
+
+export const updatePlaceTypeIndustrySchema = insertPlaceTypeIndustrySchema.partial();
+
+export type BusinessCategory = typeof businessCategories.$inferSelect;
+export type PlaceTypeIndustry = typeof placeTypeIndustries.$inferSelect;
+export type InsertBusinessCategory = z.infer<typeof insertBusinessCategorySchema>;
+export type UpdateBusinessCategory = z.infer<typeof updateBusinessCategorySchema>;
+export type InsertPlaceTypeIndustry = z.infer<typeof insertPlaceTypeIndustrySchema>;
+export type UpdatePlaceTypeIndustry = z.infer<typeof updatePlaceTypeIndustrySchema>;
+
+// A workspace's whole taxonomy, as searches and scoring use it
+export type BusinessTaxonomy = {
+  categories: Pick<BusinessCategory, "name" | "synonyms" | "placeTypes" | "valuedFeatures">[];
+  industries: Pick<PlaceTypeIndustry, "placeType" | "industry">[];
+};
+
+export type BusinessTaxonomyResponse = {
+  categories: BusinessCategory[];
+  industries: PlaceTypeIndustry[];
+};
+
+// A Business Type autocomplete entry: the category name, or the synonym that matched and the category it belongs to
+export type BusinessTypeSuggestion = {
+  value: string;
+  category: string;
+  placeTypes: string[];
+};
 
 export const leads = pgTable("leads", {
   id: uuid("id").defaultRandom().primaryKey(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }), // Shared lead pool
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Broker who generated the lead
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "set null" }), // Listing the lead was generated for
+  searchRunId: integer("search_run_id").references(() => searchRuns.id, { onDelete: "set null" }), // Run that produced the lead
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }), // Firmographics for the lead's domain
+  placeId: text("place_id"), // Google Places place_id, used to recognise businesses already saved
+  domain: text("domain"), // Normalised website host, derived server-side for deduplication
+  normalizedName: text("normalized_name"), // Business name without case, punctuation or legal suffixes, for deduplication
   businessName: text("business_name").notNull(),
   industry: text("industry").notNull(),
+  placeTypes: text("place_types").array(), // Business source's Google place types, which pick the rationale wording
   rationale: text("rationale").notNull(),
   contactName: text("contact_name").notNull(),
   email: text("email").notNull(),
   phone: text("phone"), // PDL enriched phone number
   website: text("website"),
   linkedinUrl: text("linkedin_url"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  rating: doublePrecision("rating"), // Google rating, 1-5
+  ratingCount: integer("rating_count"), // Number of Google reviews
+  distanceMiles: doublePrecision("distance_miles"), // From the search's property, or the centre of its target location
+  // Every business type and target location of the search that found the lead; a fan-out search runs one query per combination
+  foundBy: jsonb("found_by").$type<SearchMatch[]>(),
+  fitScore: integer("fit_score"), // 0-100, how well the business suits the searched-for space; null for imported leads
+  fitFactors: jsonb("fit_factors").$type<FitFactor[]>(), // Breakdown of fit_score
+  fitAdjustments: jsonb("fit_adjustments").$type<FitAdjustment[]>(), // Scoring profile rules that matched
+  rationaleClaims: jsonb("rationale_claims").$type<RationaleClaim[]>(), // Claims behind rationale; null once a broker rewrites it
   title: text("title"), // PDL enriched job title
   enrichedName: text("enriched_name"), // PDL enriched full name
   isEnriched: boolean("is_enriched").default(false), // Flag to track PDL enrichment
+  enrichmentSource: text("enrichment_source"), // Enrichment provider that supplied the contact details, e.g. "pdl"
+  enrichmentStatus: text("enrichment_status", { enum: leadEnrichmentStatuses }),
+  stage: text("stage", { enum: leadStages }).default("new").notNull(),
+  stageChangedAt: timestamp("stage_changed_at").defaultNow().notNull(),
+  lastActivityAt: timestamp("last_activity_at"), // Denormalised from activities for sorting the saved-leads list
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at"),
+  deletedAt: timestamp("deleted_at"), // Soft delete - non-null rows live in the trash
 }, (table) => ({
   // Performance: Add database indexes for common queries
   industryIdx: index("leads_industry_idx").on(table.industry),
   createdAtIdx: index("leads_created_at_idx").on(table.createdAt),
   enrichedIdx: index("leads_enriched_idx").on(table.isEnriched),
   emailIdx: index("leads_email_idx").on(table.email),
+  userIdx: index("leads_user_id_idx").on(table.userId),
+  workspaceIdx: index("leads_workspace_id_idx").on(table.workspaceId),
+  propertyIdx: index("leads_property_id_idx").on(table.propertyId),
+  searchRunIdx: index("leads_search_run_id_idx").on(table.searchRunId),
+  companyIdx: index("leads_company_id_idx").on(table.companyId),
+  // A Google place is saved at most once per workspace (NULLs never conflict)
+  workspacePlaceIdx: uniqueIndex("leads_workspace_id_place_id_idx").on(table.workspaceId, table.placeId),
+  workspaceDomainIdx: index("leads_workspace_id_domain_idx").on(table.workspaceId, table.domain),
+  workspaceNameIdx: index("leads_workspace_id_normalized_name_idx").on(table.workspaceId, table.normalizedName),
+  deletedAtIdx: index("leads_deleted_at_idx").on(table.deletedAt),
+  stageIdx: index("leads_stage_idx").on(table.stage),
+  lastActivityAtIdx: index("leads_last_activity_at_idx").on(table.lastActivityAt),
+  fitScoreIdx: index("leads_fit_score_idx").on(table.fitScore),
+  distanceMilesIdx: index("leads_distance_miles_idx").on(table.distanceMiles),
+  // Performance: GIN index backing full-text keyword search over business name and rationale
+  searchIdx: index("leads_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', ${table.businessName} || ' ' || ${table.rationale})`,
+  ),
 }));
 
+// Ownership is assigned server-side from the authenticated user and workspace, never from the request body
 export const insertLeadSchema = createInsertSchema(leads).omit({
   id: true,
+  workspaceId: true,
+  userId: true,
+  propertyId: true,
+  searchRunId: true,
+  companyId: true,
+  domain: true,
+  normalizedName: true,
+  enrichmentStatus: true,
+  placeTypes: true,
+  distanceMiles: true,
+  foundBy: true,
+  fitScore: true,
+  fitFactors: true,
+  fitAdjustments: true,
+  rationaleClaims: true,
+  stage: true,
+  stageChangedAt: true,
+  lastActivityAt: true,
   createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+// Fields a broker may correct on a saved lead
+export const updateLeadSchema = insertLeadSchema.pick({
+  businessName: true,
+  industry: true,
+  rationale: true,
+  contactName: true,
+  email: true,
+  phone: true,
+  website: true,
+  linkedinUrl: true,
+  title: true,
+  enrichedName: true,
+}).partial();
+
+export const leadIdsSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1, "Select at least one lead").max(500, "At most 500 leads can be changed at once"),
+});
+
+// Duplicates are folded into the primary lead and then removed
+export const mergeLeadsSchema = z.object({
+  primaryId: z.string().uuid(),
+  duplicateIds: z.array(z.string().uuid()).min(1, "Select at least one duplicate").max(50, "At most 50 leads can be merged at once"),
+}).refine(
+  (data) => !data.duplicateIds.includes(data.primaryId),
+  { message: "The primary lead cannot also be a duplicate", path: ["duplicateIds"] },
+);
+
+// Display names for the enrichment providers recorded in leads.enrichment_source
+export const enrichmentSourceLabels: Record<string, string> = {
+  pdl: "People Data Labs",
+  stub: "Offline stub",
+};
+
+// Lead fields an enrichment provider can supply
+export const enrichmentFields = ["phone", "enrichedName", "title", "linkedinUrl"] as const;
+export type EnrichmentField = typeof enrichmentFields[number];
+
+// Provenance of each enriched lead field: which provider supplied the value and how confident it was
+export const leadEnrichments = pgTable("lead_enrichments", {
+  id: serial("id").primaryKey(),
+  leadId: uuid("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  field: text("field", { enum: enrichmentFields }).notNull(),
+  value: text("value").notNull(),
+  source: text("source").notNull(), // Provider name, e.g. "pdl"
+  confidence: doublePrecision("confidence"), // 0-1 when the provider reports one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  leadFieldIdx: uniqueIndex("lead_enrichments_lead_id_field_idx").on(table.leadId, table.field),
+}));
+
+// Decision makers found at a lead's business, ranked by title seniority. The primary contact's name and email
+// are copied onto the lead so cards and exports show who to call.
+export const contacts = pgTable("contacts", {
+  id: serial("id").primaryKey(),
+  leadId: uuid("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  fullName: text("full_name").notNull(),
+  title: text("title"),
+  email: text("email"),
+  phone: text("phone"),
+  linkedinUrl: text("linkedin_url"),
+  seniority: integer("seniority").notNull(), // Higher is more likely to decide on a lease
+  source: text("source").notNull(), // Provider name, e.g. "pdl"
+  isPrimary: boolean("is_primary").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  leadIdx: index("contacts_lead_id_idx").on(table.leadId),
+  leadPrimaryIdx: uniqueIndex("contacts_lead_id_primary_idx").on(table.leadId).where(sql`${table.isPrimary}`),
+}));
+
+// Background enrichment work, one row per lead. The worker claims due jobs, retries transient failures with
+// exponential backoff via next_attempt_at, and gives up after a fixed number of attempts.
+export const enrichmentJobStatuses = ["pending", "running", "completed", "failed"] as const;
+
+export const enrichmentJobs = pgTable("enrichment_jobs", {
+  id: serial("id").primaryKey(),
+  leadId: uuid("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  searchRunId: integer("search_run_id").references(() => searchRuns.id, { onDelete: "set null" }), // Run whose usage the job adds to
+  status: text("status", { enum: enrichmentJobStatuses }).default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"), // When a worker claimed the job; running jobs with an old lock are reclaimed
+  reservedCredits: integer("reserved_credits").default(0).notNull(), // Budget held while the job runs; 0 when the budget had no room
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  leadIdx: uniqueIndex("enrichment_jobs_lead_id_idx").on(table.leadId),
+  statusNextAttemptIdx: index("enrichment_jobs_status_next_attempt_at_idx").on(table.status, table.nextAttemptAt),
+}));
+
+// Ledger of billable enrichment provider requests; a workspace's monthly credit use is the sum since the 1st
+export const enrichmentOperations = ["person", "company", "people_search"] as const;
+export type EnrichmentOperation = typeof enrichmentOperations[number];
+
+export const enrichmentUsage = pgTable("enrichment_usage", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  leadId: uuid("lead_id").references(() => leads.id, { onDelete: "set null" }),
+  provider: text("provider").notNull(), // e.g. "pdl"
+  operation: text("operation", { enum: enrichmentOperations }).notNull(),
+  credits: integer("credits").notNull(), // What the provider bills for the request; misses are usually free
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceCreatedIdx: index("enrichment_usage_workspace_id_created_at_idx").on(table.workspaceId, table.createdAt),
+}));
+
+export const enrichmentOperationLabels: Record<EnrichmentOperation, string> = {
+  person: "Contact lookups",
+  company: "Company lookups",
+  people_search: "Decision maker searches",
+};
+
+// Outcome of saving one incoming lead: inserted, folded into an existing lead, or already known
+export const leadSaveStatuses = ["created", "merged", "skipped"] as const;
+
+// What two leads had in common for them to be grouped as duplicates
+export const duplicateReasons = ["placeId", "domain", "name"] as const;
+
+// Audit trail of every pipeline move: who moved the lead, from where, to where and when
+export const leadStageHistory = pgTable("lead_stage_history", {
+  id: serial("id").primaryKey(),
+  leadId: uuid("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  fromStage: text("from_stage", { enum: leadStages }),
+  toStage: text("to_stage", { enum: leadStages }).notNull(),
+  changedBy: integer("changed_by").references(() => users.id, { onDelete: "set null" }),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => ({
+  leadIdx: index("lead_stage_history_lead_id_idx").on(table.leadId),
+}));
+
+export const updateLeadStageSchema = z.object({
+  stage: z.enum(leadStages),
+});
+
+export type LeadStageChange = typeof leadStageHistory.$inferSelect & {
+  changedByUsername: string | null;
+};
+
+// Calls, emails, tours and free-form notes logged against a lead
+export const activityTypes = ["call", "email", "tour", "note"] as const;
+export type ActivityType = typeof activityTypes[number];
+
+export const activityTypeLabels: Record<ActivityType, string> = {
+  call: "Call",
+  email: "Email",
+  tour: "Tour",
+  note: "Note",
+};
+
+export const activities = pgTable("activities", {
+  id: serial("id").primaryKey(),
+  leadId: uuid("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  type: text("type", { enum: activityTypes }).notNull(),
+  body: text("body").notNull(),
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(), // When the call/tour happened, which may be earlier than createdAt
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  leadOccurredIdx: index("activities_lead_id_occurred_at_idx").on(table.leadId, table.occurredAt),
+}));
+
+export const insertActivitySchema = z.object({
+  type: z.enum(activityTypes),
+  body: z.string().trim().min(1, "Activity details are required").max(5000, "Activity details must be 5000 characters or less"),
+  occurredAt: z.coerce.date().optional(),
+});
+
+export const updateActivitySchema = insertActivitySchema.partial();
+
+export type Activity = typeof activities.$inferSelect;
+export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type UpdateActivity = z.infer<typeof updateActivitySchema>;
+export type LeadActivity = Activity & { authorUsername: string | null };
+
+export const leadSortFields = ["createdAt", "businessName", "industry", "stageChangedAt", "lastActivityAt", "fitScore", "distanceMiles"] as const;
+
+// Query string accepted by GET /api/leads - every filter is optional and combined with AND
+export const leadQuerySchema = z.object({
+  keyword: z.string().trim().max(200).optional(), // Full-text search over business name and rationale
+  industry: z.string().trim().max(100).optional(),
+  contactName: z.string().trim().max(255).optional(),
+  enriched: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  stage: z.enum(leadStages).optional(),
+  propertyId: z.coerce.number().int().positive().optional(),
+  searchRunId: z.coerce.number().int().positive().optional(),
+  stageChangedFrom: z.coerce.date().optional(),
+  stageChangedTo: z.coerce.date().optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  minFitScore: z.coerce.number().int().min(0).max(100).optional(),
+  maxDistanceMiles: z.coerce.number().positive().max(500).optional(), // Leads with no known distance are left out
+  sortBy: z.enum(leadSortFields).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
 export type Lead = typeof leads.$inferSelect;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type UpdateLead = z.infer<typeof updateLeadSchema>;
+export type LeadQuery = z.infer<typeof leadQuerySchema>;
+export type LeadSortField = typeof leadSortFields[number];
+
+export type LeadListResponse = {
+  leads: LeadWithCompany[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+};
+
+// Just enough of a lead to plot it on the map; the full lead is fetched when a marker is opened
+export type LeadMapPoint = Pick<Lead, "id" | "businessName" | "industry" | "stage" | "fitScore" | "propertyId"> & {
+  latitude: number;
+  longitude: number;
+};
+
+export type LeadMapResponse = {
+  points: LeadMapPoint[];
+  total: number; // Matching leads with coordinates, which may be more than the points returned
+};
+
+// Tile layer for the lead map, configured on the server so a locally served tile set can be swapped in
+export type MapTileConfig = {
+  url: string; // Leaflet URL template, e.g. "https://tile.openstreetmap.org/{z}/{x}/{y}.png"
+  attribution: string;
+  maxZoom: number;
+};
+
+export type MergeLeads = z.infer<typeof mergeLeadsSchema>;
+export type LeadSaveStatus = typeof leadSaveStatuses[number];
+export type DuplicateReason = typeof duplicateReasons[number];
+
+export type LeadEnrichment = typeof leadEnrichments.$inferSelect;
+export type InsertLeadEnrichment = Pick<LeadEnrichment, "field" | "value" | "source" | "confidence">;
+
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = Pick<Contact, "fullName" | "title" | "email" | "phone" | "linkedinUrl" | "seniority" | "source">;
+
+// A lead on its way into storage, with the provenance of any enriched fields, its company and its decision
+// makers (best first; the first becomes the primary contact)
+export type LeadToSave = InsertLead & Partial<Pick<Lead, "placeTypes" | "distanceMiles" | "foundBy" | "fitScore" | "fitFactors" | "fitAdjustments" | "rationaleClaims">> & {
+  enrichments?: InsertLeadEnrichment[];
+  companyId?: number;
+  contacts?: InsertContact[];
+};
+
+export type LeadWithCompany = Lead & { company: Company | null };
+export type LeadWithEnrichments = LeadWithCompany & { enrichments: LeadEnrichment[] };
+
+export type EnrichmentJob = typeof enrichmentJobs.$inferSelect;
+
+export type EnrichmentCreditSummary = {
+  periodStart: string; // ISO date of the 1st of the current month (UTC)
+  monthlyCredits: number;
+  used: number;
+  reserved: number; // Held for enrichment jobs in progress
+  remaining: number;
+  autoEnrichCount: number;
+  byProvider: Array<{ provider: string; operation: EnrichmentOperation; calls: number; credits: number }>;
+};
+
+// Streamed to the browser as each queued lead finishes (or gives up on) enrichment
+export type LeadEnrichmentEvent = {
+  leadId: string;
+  status: LeadEnrichmentStatus;
+  lead: LeadWithEnrichments;
+};
+
+export type LeadSaveResult = {
+  status: LeadSaveStatus;
+  lead: Lead;
+};
+
+export type LeadDuplicateGroup = {
+  reasons: DuplicateReason[];
+  leads: Lead[]; // Oldest first
+};
+
+export type SearchRunResult = {
+  run: SearchRun;
+  leads: LeadWithEnrichments[];
+};